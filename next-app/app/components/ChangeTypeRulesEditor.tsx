@@ -0,0 +1,299 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChangeTypeMatch, ChangeTypeRule, ChangeTypeTaxonomy } from '../types';
+import {
+  CHANGE_TYPE_MATCHES,
+  compileChangeTypeTaxonomy,
+  normalizeChangeTypeTaxonomy,
+  validateChangeTypeRule
+} from '../lib/ChangeTypeTaxonomy';
+
+interface ChangeTypeRulesEditorProps {
+  taxonomy: ChangeTypeTaxonomy;
+  // La taxonomie appliquée provient du navigateur et non de change-types.json
+  isCustomized: boolean;
+  onSave: (taxonomy: ChangeTypeTaxonomy) => void;
+  onReset: () => void;
+}
+
+const inputClass = 'px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+const buttonClass = 'px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50';
+const iconButtonClass = 'px-2 py-1 text-xs text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white disabled:opacity-30';
+
+const ChangeTypeRulesEditor: React.FC<ChangeTypeRulesEditorProps> = ({ taxonomy, isCustomized, onSave, onReset }) => {
+  const [draft, setDraft] = useState<ChangeTypeTaxonomy>(taxonomy);
+  const [sample, setSample] = useState('');
+
+  // La taxonomie appliquée a changé (enregistrement, retour au fichier) : le brouillon repart de celle-ci
+  useEffect(() => {
+    setDraft(taxonomy);
+  }, [taxonomy]);
+
+  const categoryNames = useMemo(() => draft.categories.map(category => category.name), [draft.categories]);
+
+  const ruleErrors = useMemo(() => draft.rules.map(rule => validateChangeTypeRule(rule)), [draft.rules]);
+
+  const duplicateCategories = useMemo(
+    () => categoryNames.filter((name, index) => categoryNames.indexOf(name) !== index),
+    [categoryNames]
+  );
+
+  const hasErrors = ruleErrors.some(error => error !== null)
+    || duplicateCategories.length > 0
+    || categoryNames.some(name => name.trim() === '');
+
+  // Catégorie attribuée au nom de recette saisi, selon le brouillon
+  const sampleCategory = useMemo(() => {
+    if (!sample.trim() || hasErrors) return null;
+    return compileChangeTypeTaxonomy(draft)(sample.trim());
+  }, [draft, sample, hasErrors]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(taxonomy);
+
+  const updateRule = (index: number, changes: Partial<ChangeTypeRule>) => {
+    setDraft(current => ({
+      ...current,
+      rules: current.rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule)
+    }));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    setDraft(current => {
+      const rules = [...current.rules];
+      const [rule] = rules.splice(index, 1);
+      rules.splice(index + offset, 0, rule);
+      return { ...current, rules };
+    });
+  };
+
+  const removeRule = (index: number) => {
+    setDraft(current => ({ ...current, rules: current.rules.filter((_, i) => i !== index) }));
+  };
+
+  const addRule = () => {
+    setDraft(current => ({
+      ...current,
+      rules: [...current.rules, { match: 'glob', pattern: '', category: current.defaultCategory }]
+    }));
+  };
+
+  // Renommer une catégorie met à jour les règles et la catégorie par défaut qui la citent
+  const renameCategory = (index: number, name: string) => {
+    setDraft(current => {
+      const previous = current.categories[index].name;
+      return {
+        ...current,
+        categories: current.categories.map((category, i) => i === index ? { ...category, name } : category),
+        rules: current.rules.map(rule => rule.category === previous ? { ...rule, category: name } : rule),
+        defaultCategory: current.defaultCategory === previous ? name : current.defaultCategory
+      };
+    });
+  };
+
+  const recolorCategory = (index: number, color: string) => {
+    setDraft(current => ({
+      ...current,
+      categories: current.categories.map((category, i) => i === index ? { ...category, color } : category)
+    }));
+  };
+
+  const removeCategory = (index: number) => {
+    setDraft(current => ({ ...current, categories: current.categories.filter((_, i) => i !== index) }));
+  };
+
+  const addCategory = () => {
+    setDraft(current => {
+      let name = 'Nouvelle categorie';
+      for (let i = 2; current.categories.some(category => category.name === name); i++) {
+        name = `Nouvelle categorie ${i}`;
+      }
+      return { ...current, categories: [...current.categories, { name, color: '#6366f1' }] };
+    });
+  };
+
+  const isCategoryUsed = (name: string) =>
+    draft.defaultCategory === name || draft.rules.some(rule => rule.category === name);
+
+  // Téléchargement du brouillon, à déposer dans public/change-types.json pour le partager
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(normalizeChangeTypeTaxonomy(draft), null, 2) + '\n'], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'change-types.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-1">Regles</h4>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+          Evaluees dans l&apos;ordre, la premiere qui reconnait la recette l&apos;emporte. Glob : * et ? sur le nom complet ;
+          Regex : recherchee dans le nom ; Recette : nom exact, sous-recettes comprises.
+        </p>
+        <div className="space-y-2">
+          {draft.rules.map((rule, index) => (
+            <div key={index}>
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={rule.match}
+                  onChange={e => updateRule(index, { match: e.target.value as ChangeTypeMatch })}
+                  className={inputClass}
+                >
+                  {CHANGE_TYPE_MATCHES.map(match => (
+                    <option key={match.value} value={match.value}>{match.label}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={rule.pattern}
+                  onChange={e => updateRule(index, { pattern: e.target.value })}
+                  placeholder="org.heg.springboot.*"
+                  className={`${inputClass} flex-1 min-w-[16rem] font-mono`}
+                />
+                <select
+                  value={rule.category}
+                  onChange={e => updateRule(index, { category: e.target.value })}
+                  className={inputClass}
+                >
+                  {categoryNames.map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+                <button onClick={() => moveRule(index, -1)} disabled={index === 0} className={iconButtonClass} title="Monter">
+                  ▲
+                </button>
+                <button
+                  onClick={() => moveRule(index, 1)}
+                  disabled={index === draft.rules.length - 1}
+                  className={iconButtonClass}
+                  title="Descendre"
+                >
+                  ▼
+                </button>
+                <button onClick={() => removeRule(index)} className={iconButtonClass} title="Supprimer">
+                  ✕
+                </button>
+              </div>
+              {ruleErrors[index] && (
+                <p className="mt-1 text-xs text-red-600 dark:text-red-400">{ruleErrors[index]}</p>
+              )}
+            </div>
+          ))}
+        </div>
+        <button onClick={addRule} className={`${buttonClass} mt-3`}>
+          Ajouter une regle
+        </button>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Categories</h4>
+        <div className="flex flex-wrap gap-3">
+          {draft.categories.map((category, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <input
+                type="color"
+                value={category.color}
+                onChange={e => recolorCategory(index, e.target.value)}
+                className="h-8 w-8 rounded cursor-pointer bg-transparent"
+                title="Couleur"
+              />
+              <input
+                type="text"
+                value={category.name}
+                onChange={e => renameCategory(index, e.target.value)}
+                className={`${inputClass} w-44`}
+              />
+              <button
+                onClick={() => removeCategory(index)}
+                disabled={isCategoryUsed(category.name)}
+                className={iconButtonClass}
+                title={isCategoryUsed(category.name) ? 'Categorie utilisee par une regle' : 'Supprimer'}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+        {duplicateCategories.length > 0 && (
+          <p className="mt-2 text-xs text-red-600 dark:text-red-400">
+            Categories en double : {Array.from(new Set(duplicateCategories)).join(', ')}
+          </p>
+        )}
+        <button onClick={addCategory} className={`${buttonClass} mt-3`}>
+          Ajouter une categorie
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={draft.packageFallback}
+            onChange={e => setDraft(current => ({ ...current, packageFallback: e.target.checked }))}
+          />
+          Sans regle applicable, utiliser l&apos;avant-dernier segment du package
+        </label>
+        <label className="flex items-center gap-2">
+          Categorie par defaut
+          <select
+            value={draft.defaultCategory}
+            onChange={e => setDraft(current => ({ ...current, defaultCategory: e.target.value }))}
+            className={inputClass}
+          >
+            {categoryNames.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <input
+          type="text"
+          value={sample}
+          onChange={e => setSample(e.target.value)}
+          placeholder="Tester un nom de recette"
+          className={`${inputClass} flex-1 min-w-[16rem] font-mono`}
+        />
+        {sampleCategory && (
+          <span className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+            <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: sampleCategory.color }}></span>
+            {sampleCategory.name}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 pt-4 border-t border-gray-200 dark:border-gray-700">
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {isCustomized ? 'Taxonomie modifiee, enregistree dans ce navigateur' : 'Taxonomie de change-types.json'}
+        </span>
+        <div className="flex flex-wrap gap-2">
+          {isCustomized && (
+            <button onClick={onReset} className={buttonClass}>
+              Revenir a change-types.json
+            </button>
+          )}
+          <button onClick={handleExport} disabled={hasErrors} className={buttonClass}>
+            Exporter
+          </button>
+          <button onClick={() => setDraft(taxonomy)} disabled={!isDirty} className={buttonClass}>
+            Annuler
+          </button>
+          <button
+            onClick={() => onSave(normalizeChangeTypeTaxonomy(draft))}
+            disabled={!isDirty || hasErrors}
+            className="px-3 py-1 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Appliquer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChangeTypeRulesEditor;
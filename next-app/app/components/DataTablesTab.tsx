@@ -0,0 +1,356 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { DataTableColumn, DataTableColumnType, GenericDataTable } from '../types';
+import { useDataTable, useDataTableList } from '../hooks/useData';
+import ChartCard from './ChartCard';
+import BarChart from './BarChart';
+
+interface DataTablesTabProps {
+  /** Tables non reconnues importées dans la session locale */
+  localTables: GenericDataTable[];
+}
+
+interface DataTableViewProps {
+  table: GenericDataTable;
+}
+
+type SortDirection = 'asc' | 'desc';
+
+// Préfixe des identifiants de tables issues de la session locale
+const LOCAL_PREFIX = 'local:';
+
+// Valeur agrégée par défaut du graphique rapide : nombre de lignes
+const COUNT_VALUE = '__count__';
+
+// Libellés et couleurs des types de colonnes
+const TYPE_LABELS: Record<DataTableColumnType, string> = {
+  number: 'Nombre',
+  date: 'Date',
+  recipe: 'Recette',
+  path: 'Chemin',
+  string: 'Texte',
+};
+
+const TYPE_STYLES: Record<DataTableColumnType, string> = {
+  number: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  date: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+  recipe: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  path: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200',
+  string: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+};
+
+/**
+ * Compare deux valeurs brutes selon le type de la colonne
+ */
+const compareValues = (a: string, b: string, type: DataTableColumnType): number => {
+  if (type === 'number') {
+    return (parseFloat(a) || 0) - (parseFloat(b) || 0);
+  }
+  if (type === 'date') {
+    return (new Date(a).getTime() || 0) - (new Date(b).getTime() || 0);
+  }
+  return a.localeCompare(b);
+};
+
+/**
+ * Libellé court d'une table : dernier segment du nom complet
+ */
+const shortName = (name: string): string => name.split('.').pop() || name;
+
+const DataTableView: React.FC<DataTableViewProps> = ({ table }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchColumn, setSearchColumn] = useState('');
+  const [sortColumn, setSortColumn] = useState<string | null>(null);
+  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  const [currentPage, setCurrentPage] = useState(1);
+  const pageSize = 20;
+
+  const categoryColumns = useMemo(
+    () => table.columns.filter((column) => column.type !== 'number'),
+    [table.columns]
+  );
+  const numberColumns = useMemo(
+    () => table.columns.filter((column) => column.type === 'number'),
+    [table.columns]
+  );
+
+  // Préférer une colonne de recette pour le regroupement par défaut
+  const [groupBy, setGroupBy] = useState(
+    () => (categoryColumns.find((column) => column.type === 'recipe') ?? categoryColumns[0])?.name ?? ''
+  );
+  const [valueColumn, setValueColumn] = useState(COUNT_VALUE);
+
+  // Filtrer les lignes par terme de recherche, sur une colonne ou sur toutes
+  const filteredRows = useMemo(() => {
+    if (!searchTerm) return table.rows;
+    const term = searchTerm.toLowerCase();
+    const columns = searchColumn ? [searchColumn] : table.columns.map((column) => column.name);
+    return table.rows.filter((row) =>
+      columns.some((column) => (row[column] ?? '').toLowerCase().includes(term))
+    );
+  }, [table, searchTerm, searchColumn]);
+
+  // Trier selon la colonne sélectionnée, en tenant compte de son type
+  const sortedRows = useMemo(() => {
+    const column = table.columns.find((c) => c.name === sortColumn);
+    if (!column) return filteredRows;
+    const direction = sortDirection === 'asc' ? 1 : -1;
+    return [...filteredRows].sort(
+      (a, b) => direction * compareValues(a[column.name] ?? '', b[column.name] ?? '', column.type)
+    );
+  }, [table.columns, filteredRows, sortColumn, sortDirection]);
+
+  // Paginer les données
+  const paginatedRows = useMemo(() => {
+    const start = (currentPage - 1) * pageSize;
+    return sortedRows.slice(start, start + pageSize);
+  }, [sortedRows, currentPage]);
+
+  const totalPages = Math.ceil(sortedRows.length / pageSize);
+
+  // Graphique rapide : nombre de lignes ou somme d'une colonne numérique par valeur regroupée
+  const chartData = useMemo(() => {
+    const column = table.columns.find((c) => c.name === groupBy);
+    if (!column) return [];
+
+    const totals = new Map<string, number>();
+    filteredRows.forEach((row) => {
+      const raw = row[column.name] || '(vide)';
+      // Les dates sont regroupées par jour
+      const key = column.type === 'date' ? raw.slice(0, 10) : raw;
+      const value = valueColumn === COUNT_VALUE ? 1 : parseFloat(row[valueColumn]) || 0;
+      totals.set(key, (totals.get(key) || 0) + value);
+    });
+
+    return Array.from(totals.entries())
+      .map(([name, value]) => ({ name: column.type === 'recipe' ? shortName(name) : name, value }))
+      .sort((a, b) => b.value - a.value)
+      .slice(0, 15);
+  }, [table.columns, filteredRows, groupBy, valueColumn]);
+
+  const handleSort = (column: DataTableColumn) => {
+    if (sortColumn === column.name) {
+      setSortDirection((direction) => (direction === 'asc' ? 'desc' : 'asc'));
+    } else {
+      setSortColumn(column.name);
+      // Les nombres et les dates sont plus utiles du plus grand au plus petit
+      setSortDirection(column.type === 'number' || column.type === 'date' ? 'desc' : 'asc');
+    }
+    setCurrentPage(1);
+  };
+
+  const selectClassName =
+    'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-6">
+      {/* Documentation des colonnes */}
+      <ChartCard
+        title="Colonnes"
+        subtitle={`${table.columns.length} colonnes - ${table.rows.length} lignes`}
+      >
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {table.columns.map((column) => (
+            <div key={column.name}>
+              <dt className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white">
+                {column.name}
+                <span className={`px-2 py-0.5 text-xs rounded-full ${TYPE_STYLES[column.type]}`}>
+                  {TYPE_LABELS[column.type]}
+                </span>
+              </dt>
+              <dd className="text-sm text-gray-500 dark:text-gray-400">
+                {column.description || 'Aucune description'}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </ChartCard>
+
+      {/* Graphique rapide */}
+      {categoryColumns.length > 0 && (
+        <ChartCard title="Graphique rapide" subtitle="15 valeurs principales des lignes filtrees">
+          <div className="flex flex-wrap gap-4 mb-4 text-sm text-gray-700 dark:text-gray-300">
+            <label className="flex items-center gap-2">
+              Regrouper par
+              <select value={groupBy} onChange={(e) => setGroupBy(e.target.value)} className={selectClassName}>
+                {categoryColumns.map((column) => (
+                  <option key={column.name} value={column.name}>{column.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Valeur
+              <select value={valueColumn} onChange={(e) => setValueColumn(e.target.value)} className={selectClassName}>
+                <option value={COUNT_VALUE}>Nombre de lignes</option>
+                {numberColumns.map((column) => (
+                  <option key={column.name} value={column.name}>Somme de {column.name}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {chartData.length > 0 ? (
+            <BarChart data={chartData} height={400} horizontal={true} />
+          ) : (
+            <div className="flex items-center justify-center h-[300px] text-gray-500">
+              Aucune donnee disponible
+            </div>
+          )}
+        </ChartCard>
+      )}
+
+      {/* Tableau des lignes */}
+      <ChartCard title={shortName(table.name)} subtitle={`${sortedRows.length} lignes`}>
+        {/* Recherche */}
+        <div className="mb-4 flex flex-col md:flex-row gap-2">
+          <select
+            value={searchColumn}
+            onChange={(e) => {
+              setSearchColumn(e.target.value);
+              setCurrentPage(1);
+            }}
+            className={selectClassName}
+          >
+            <option value="">Toutes les colonnes</option>
+            {table.columns.map((column) => (
+              <option key={column.name} value={column.name}>{column.name}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Filtrer les lignes..."
+            value={searchTerm}
+            onChange={(e) => {
+              setSearchTerm(e.target.value);
+              setCurrentPage(1);
+            }}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                {table.columns.map((column) => (
+                  <th
+                    key={column.name}
+                    onClick={() => handleSort(column)}
+                    title={column.description || undefined}
+                    className={`px-6 py-3 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider cursor-pointer select-none hover:text-gray-700 dark:hover:text-gray-200 ${
+                      column.type === 'number' ? 'text-right' : 'text-left'
+                    }`}
+                  >
+                    {column.name}
+                    {sortColumn === column.name && (sortDirection === 'asc' ? ' ▲' : ' ▼')}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {paginatedRows.map((row, index) => (
+                <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                  {table.columns.map((column) => (
+                    <td
+                      key={column.name}
+                      title={row[column.name]}
+                      className={`px-6 py-4 text-sm text-gray-900 dark:text-white max-w-xs truncate ${
+                        column.type === 'number' ? 'text-right' : ''
+                      }`}
+                    >
+                      {row[column.name] || '-'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="mt-4 flex justify-between items-center">
+            <span className="text-sm text-gray-500">
+              Page {currentPage} sur {totalPages}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+                disabled={currentPage === 1}
+                className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50 dark:hover:bg-gray-600"
+              >
+                Precedent
+              </button>
+              <button
+                onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
+                disabled={currentPage === totalPages}
+                className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50 dark:hover:bg-gray-600"
+              >
+                Suivant
+              </button>
+            </div>
+          </div>
+        )}
+      </ChartCard>
+    </div>
+  );
+};
+
+const DataTablesTab: React.FC<DataTablesTabProps> = ({ localTables }) => {
+  const tableList = useDataTableList();
+  const [selected, setSelected] = useState<string | null>(null);
+
+  // Sélection par défaut : première table déclarée, sinon première table locale
+  const selectedId = selected
+    ?? tableList.data?.[0]
+    ?? (localTables.length > 0 ? `${LOCAL_PREFIX}0` : null);
+  const isLocal = selectedId?.startsWith(LOCAL_PREFIX) ?? false;
+
+  const remoteTable = useDataTable(isLocal ? null : selectedId);
+  const table = isLocal
+    ? localTables[Number(selectedId?.slice(LOCAL_PREFIX.length))] ?? null
+    : remoteTable.data;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center gap-2">
+        <label htmlFor="data-table-select" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Table de donnees
+        </label>
+        <select
+          id="data-table-select"
+          value={selectedId ?? ''}
+          onChange={(e) => setSelected(e.target.value)}
+          className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {(tableList.data || []).map((file) => (
+            <option key={file} value={file}>
+              {file.split('/').pop()?.replace(/\.csv$/i, '')}
+            </option>
+          ))}
+          {localTables.map((localTable, index) => (
+            <option key={`${LOCAL_PREFIX}${index}`} value={`${LOCAL_PREFIX}${index}`}>
+              {localTable.name} (session locale)
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {tableList.isLoading || remoteTable.isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+        </div>
+      ) : remoteTable.error && !isLocal ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{remoteTable.error.message}</p>
+      ) : table ? (
+        <DataTableView key={selectedId} table={table} />
+      ) : (
+        <div className="flex items-center justify-center h-[300px] text-gray-500">
+          Aucune table de donnees disponible
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataTablesTab;
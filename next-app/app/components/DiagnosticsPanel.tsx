@@ -0,0 +1,147 @@
+'use client';
+
+import React from 'react';
+import { DataTableKind, FileDiagnostics } from '../types';
+
+interface DiagnosticsPanelProps {
+  diagnostics: FileDiagnostics[];
+  onClose?: () => void;
+}
+
+// Libellés des types de tables
+const KIND_LABELS: Record<DataTableKind, string> = {
+  recipeRunStats: 'RecipeRunStats',
+  sourceFileResults: 'SourcesFileResults',
+  usageReport: 'Usage report',
+};
+
+const sumValues = (values: Record<string, number>): number =>
+  Object.values(values).reduce((sum, count) => sum + count, 0);
+
+// Lignes conservées au parsing puis écartées par la règle d'inclusion (usage reports)
+const excludedRows = (file: FileDiagnostics): number => file.excludedByRule ?? 0;
+
+/**
+ * Un fichier mérite l'attention s'il a échoué, perdu des lignes ou des valeurs, ou s'il manque des colonnes
+ * Les exécutions écartées par la règle d'inclusion, choisie par l'utilisateur, n'en font pas partie
+ */
+export const hasDiagnosticIssues = (file: FileDiagnostics): boolean =>
+  file.error !== null ||
+  sumValues(file.dropped) > 0 ||
+  sumValues(file.invalidNumbers) > 0 ||
+  file.missingHeaders.length > 0;
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics, onClose }) => {
+  const totals = diagnostics.reduce(
+    (acc, file) => ({
+      read: acc.read + file.rowsRead,
+      kept: acc.kept + file.rowsKept - excludedRows(file),
+      dropped: acc.dropped + sumValues(file.dropped) + excludedRows(file),
+      excluded: acc.excluded + excludedRows(file),
+      failed: acc.failed + (file.error !== null ? 1 : 0),
+    }),
+    { read: 0, kept: 0, dropped: 0, excluded: 0, failed: 0 }
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Diagnostics de chargement
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {diagnostics.length} fichier(s) - {totals.read.toLocaleString()} lignes lues,{' '}
+            {totals.kept.toLocaleString()} conservees, {totals.dropped.toLocaleString()} ecartees
+            {totals.excluded > 0 && ` (dont ${totals.excluded.toLocaleString()} par la regle d'inclusion)`}
+            {totals.failed > 0 && `, ${totals.failed} fichier(s) en echec`}
+          </p>
+        </div>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+          >
+            Fermer
+          </button>
+        )}
+      </div>
+
+      {diagnostics.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Aucun fichier charge</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Fichier</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Type</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Lues</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Conservees</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Ecartees</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Colonnes</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Valeurs non numeriques</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              {diagnostics.map((file) => (
+                <tr key={file.file} className={hasDiagnosticIssues(file) ? 'bg-amber-50 dark:bg-amber-900/20' : ''}>
+                  <td className="px-4 py-2 text-gray-900 dark:text-white" title={file.file}>
+                    {file.file.split('/').pop()}
+                    {file.error !== null && (
+                      <p className="text-xs text-red-600 dark:text-red-400">{file.error}</p>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {file.kind ? KIND_LABELS[file.kind] : 'Table generique'}
+                    {file.schemaVersion && (
+                      <p className="text-xs">Schema {file.schemaVersion}</p>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-900 dark:text-white">
+                    {file.rowsRead.toLocaleString()}
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-900 dark:text-white">
+                    {(file.rowsKept - excludedRows(file)).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-2 text-gray-500 dark:text-gray-400">
+                    {Object.entries(file.dropped).map(([reason, count]) => (
+                      <div key={reason}>{count.toLocaleString()} : {reason}</div>
+                    ))}
+                    {excludedRows(file) > 0 && (
+                      <div>{excludedRows(file).toLocaleString()} : exclue(s) par la regle d&apos;inclusion</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-xs">
+                    {file.missingHeaders.length > 0 && (
+                      <div className="text-red-600 dark:text-red-400">
+                        Manquantes : {file.missingHeaders.join(', ')}
+                      </div>
+                    )}
+                    {Object.keys(file.aliasedHeaders).length > 0 && (
+                      <div className="text-gray-500 dark:text-gray-400">
+                        Renommees : {Object.entries(file.aliasedHeaders).map(([alias, header]) => `${alias} -> ${header}`).join(', ')}
+                      </div>
+                    )}
+                    {file.unknownHeaders.length > 0 && (
+                      <div className="text-gray-500 dark:text-gray-400">
+                        Inconnues : {file.unknownHeaders.join(', ')}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+                    {Object.entries(file.invalidNumbers).map(([column, count]) => (
+                      <div key={column}>{column} : {count.toLocaleString()} remplacee(s) par 0</div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -0,0 +1,109 @@
+'use client';
+
+import React, { useState } from 'react';
+import { DirectoryRollupNode } from '../types';
+import { dataProcessor } from '../lib/DataProcessor';
+
+interface DirectoryTreeTableProps {
+  root: DirectoryRollupNode;
+}
+
+// Badge d'un module ou d'un source set (main, test...)
+const KindBadge: React.FC<{ node: DirectoryRollupNode }> = ({ node }) => {
+  if (node.kind === 'module') {
+    return (
+      <span className="px-2 py-0.5 text-xs rounded-full bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200">
+        Module
+      </span>
+    );
+  }
+  if (node.kind === 'sourceSet') {
+    const isTest = /test/i.test(node.name);
+    return (
+      <span className={`px-2 py-0.5 text-xs rounded-full ${
+        isTest
+          ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+          : 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
+      }`}>
+        {isTest ? 'Tests' : 'Sources'}
+      </span>
+    );
+  }
+  return null;
+};
+
+const DirectoryTreeTable: React.FC<DirectoryTreeTableProps> = ({ root }) => {
+  // Racine dépliée par défaut : le premier niveau de dossiers est visible
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set([root.path]));
+
+  const toggle = (path: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const renderRows = (node: DirectoryRollupNode, depth: number): React.ReactNode[] => {
+    const isExpanded = expanded.has(node.path);
+    const hasChildren = node.children.length > 0;
+
+    const row = (
+      <tr key={`${node.kind}:${node.path}`} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+        <td className="px-6 py-2 text-sm text-gray-900 dark:text-white">
+          <div className="flex items-center gap-2" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+            {hasChildren ? (
+              <button onClick={() => toggle(node.path)} className="w-4 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200">
+                {isExpanded ? '▾' : '▸'}
+              </button>
+            ) : (
+              <span className="w-4"></span>
+            )}
+            <span className={`truncate ${node.kind === 'file' ? 'text-gray-600 dark:text-gray-300' : 'font-medium'}`} title={node.path}>
+              {node === root ? '(racine)' : node.name}
+            </span>
+            <KindBadge node={node} />
+          </div>
+        </td>
+        <td className="px-6 py-2 text-sm text-gray-900 dark:text-white text-right">{node.fileCount.toLocaleString()}</td>
+        <td className="px-6 py-2 text-sm text-gray-900 dark:text-white text-right">{node.changeCount.toLocaleString()}</td>
+        <td className="px-6 py-2 text-sm text-gray-900 dark:text-white text-right">{dataProcessor.formatDuration(node.timeSaved)}</td>
+      </tr>
+    );
+
+    if (!hasChildren || !isExpanded) return [row];
+    return [row, ...node.children.flatMap(child => renderRows(child, depth + 1))];
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+        <thead className="bg-gray-50 dark:bg-gray-900">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+              Dossier
+            </th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+              Fichiers
+            </th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+              Modifications
+            </th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+              Temps economise
+            </th>
+          </tr>
+        </thead>
+        <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+          {renderRows(root, 0)}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default DirectoryTreeTable;
@@ -0,0 +1,176 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { DataTableKind, LocalDataset, LocalDataMode, LocalImportResult } from '../types';
+
+interface FileDropZoneProps {
+  onFilesSelected: (files: File[]) => Promise<LocalImportResult>;
+  localSession: LocalDataset | null;
+  localMode: LocalDataMode;
+  onModeChange: (mode: LocalDataMode) => void;
+  onClear: () => void;
+}
+
+// Libellés des types de tables reconnus
+const KIND_LABELS: Record<DataTableKind, string> = {
+  recipeRunStats: 'RecipeRunStats',
+  sourceFileResults: 'SourcesFileResults',
+  usageReport: 'Usage report',
+};
+
+const UploadIcon = () => (
+  <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+  </svg>
+);
+
+const FileDropZone: React.FC<FileDropZoneProps> = ({
+  onFilesSelected,
+  localSession,
+  localMode,
+  onModeChange,
+  onClear,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isParsing, setIsParsing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [importedRuns, setImportedRuns] = useState<string | null>(null);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+
+    const files = Array.from(fileList).filter((file) => /\.(csv|zip)$/i.test(file.name));
+    if (files.length === 0) {
+      setError('Seuls les fichiers .csv et les archives .zip sont acceptes');
+      return;
+    }
+
+    setError(null);
+    setImportedRuns(null);
+    setIsParsing(true);
+    try {
+      const result = await onFilesSelected(files);
+      if (result.runs.length > 0) {
+        setImportedRuns(
+          `${result.runs.length} execution(s) importee(s) depuis l'archive, selectionnable(s) dans l'en-tete`
+        );
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    handleFiles(event.dataTransfer.files);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 border border-gray-200 dark:border-gray-700 space-y-4">
+      <div
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => inputRef.current?.click()}
+        className={`flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${
+          isDragging
+            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+            : 'border-gray-300 dark:border-gray-600 hover:border-blue-400'
+        }`}
+      >
+        <span className="text-gray-400">
+          <UploadIcon />
+        </span>
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          {isParsing
+            ? 'Analyse des fichiers...'
+            : 'Deposez vos fichiers CSV ou ZIP ici ou cliquez pour les selectionner'}
+        </p>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          RecipeRunStats, SourcesFileResults, usage-report-*.csv et toute table org.openrewrite.*,
+          ou une archive .zip de dossiers target/rewrite/datatables/&lt;timestamp&gt;
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,text/csv,.zip,application/zip"
+          multiple
+          className="hidden"
+          onChange={(event) => {
+            handleFiles(event.target.files);
+            event.target.value = '';
+          }}
+        />
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {importedRuns && (
+        <p className="text-sm text-green-600 dark:text-green-400">{importedRuns}</p>
+      )}
+
+      {localSession && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="local-mode"
+                  checked={localMode === 'merge'}
+                  onChange={() => onModeChange('merge')}
+                  className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                />
+                Ajouter aux donnees embarquees
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="local-mode"
+                  checked={localMode === 'replace'}
+                  onChange={() => onModeChange('replace')}
+                  className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                />
+                Remplacer les donnees embarquees
+              </label>
+            </div>
+            <button
+              onClick={onClear}
+              className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              Fermer la session locale
+            </button>
+          </div>
+
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            {localSession.files.map((file, index) => (
+              <li key={`${file.name}-${index}`} className="flex justify-between py-2">
+                <span className="text-gray-900 dark:text-white truncate">{file.name}</span>
+                {file.kind ? (
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {KIND_LABELS[file.kind]} - {file.rowCount} lignes
+                  </span>
+                ) : (
+                  <span className="text-amber-600 dark:text-amber-400">
+                    Table generique - {file.rowCount} lignes
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FileDropZone;
@@ -0,0 +1,177 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { FileChangeTimeline } from '../types';
+import { dataProcessor, FILE_HOTSPOT_THRESHOLDS } from '../lib/DataProcessor';
+
+interface FileTimelineTableProps {
+  timelines: FileChangeTimeline[];
+  // Filtre sur les chemins (y compris avant renommage) et les recettes
+  searchTerm?: string;
+}
+
+const PAGE_SIZE = 20;
+
+const FileTimelineTable: React.FC<FileTimelineTableProps> = ({ timelines, searchTerm = '' }) => {
+  const [hotspotsOnly, setHotspotsOnly] = useState(false);
+  const [expandedPath, setExpandedPath] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+
+  const filteredTimelines = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return timelines.filter(timeline => {
+      if (hotspotsOnly && !timeline.isHotspot) return false;
+      if (!term) return true;
+      return [timeline.path, ...timeline.previousPaths].some(path => path.toLowerCase().includes(term))
+        || timeline.events.some(event => event.recipe.toLowerCase().includes(term));
+    });
+  }, [timelines, searchTerm, hotspotsOnly]);
+
+  const totalPages = Math.ceil(filteredTimelines.length / PAGE_SIZE);
+  // La recherche peut réduire le nombre de pages sous la page courante
+  const page = Math.min(currentPage, Math.max(totalPages, 1));
+  const paginatedTimelines = filteredTimelines.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  const shortRecipe = (recipe: string) => recipe.split('.').pop() || recipe;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600 dark:text-gray-400">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={hotspotsOnly}
+            onChange={e => {
+              setHotspotsOnly(e.target.checked);
+              setCurrentPage(1);
+            }}
+          />
+          Points chauds uniquement
+        </label>
+        <span>
+          Point chaud : au moins {FILE_HOTSPOT_THRESHOLDS.recipes} recettes ou {FILE_HOTSPOT_THRESHOLDS.cycles} cycles
+        </span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-900">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Fichier
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Recettes
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Cycles
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Temps economise
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+            {paginatedTimelines.map(timeline => {
+              const isExpanded = expandedPath === timeline.path;
+              return (
+                <React.Fragment key={timeline.path}>
+                  <tr
+                    onClick={() => setExpandedPath(isExpanded ? null : timeline.path)}
+                    className={`cursor-pointer ${
+                      timeline.isHotspot
+                        ? 'bg-amber-50 dark:bg-amber-900/20 hover:bg-amber-100 dark:hover:bg-amber-900/40'
+                        : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    <td className="px-6 py-4 text-sm text-gray-900 dark:text-white max-w-md">
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-400">{isExpanded ? '▾' : '▸'}</span>
+                        <span className="truncate" title={timeline.path}>{timeline.path}</span>
+                        {timeline.isHotspot && (
+                          <span className="shrink-0 px-2 py-0.5 text-xs rounded-full bg-amber-200 text-amber-900 dark:bg-amber-800 dark:text-amber-100">
+                            Point chaud
+                          </span>
+                        )}
+                      </div>
+                      {timeline.previousPaths.length > 0 && (
+                        <div className="ml-6 text-xs text-gray-500 dark:text-gray-400 truncate" title={timeline.previousPaths.join('\n')}>
+                          Renomme depuis {timeline.previousPaths.join(', ')}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900 dark:text-white text-right">{timeline.recipeCount}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900 dark:text-white text-right">{timeline.cycleCount}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900 dark:text-white text-right">
+                      {dataProcessor.formatDuration(timeline.totalTimeSaved)}
+                    </td>
+                  </tr>
+                  {isExpanded && (
+                    <tr className="bg-gray-50 dark:bg-gray-900">
+                      <td colSpan={4} className="px-6 py-4">
+                        <ol className="relative border-l border-gray-300 dark:border-gray-600 ml-2 space-y-3">
+                          {timeline.events.map((event, index) => (
+                            <li key={index} className="ml-4 text-sm">
+                              <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-blue-500"></span>
+                              <div className="flex flex-wrap items-baseline gap-x-3 text-gray-900 dark:text-white">
+                                <span className="text-xs font-medium text-blue-600 dark:text-blue-400">Cycle {event.cycle}</span>
+                                <span className="font-medium" title={event.recipe}>{shortRecipe(event.recipe)}</span>
+                                <span className="text-gray-500 dark:text-gray-400">
+                                  +{dataProcessor.formatDuration(event.estimatedTimeSaving)}
+                                  {' '}(cumul {dataProcessor.formatDuration(event.cumulativeTimeSaving)})
+                                </span>
+                              </div>
+                              <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                                {event.recipe}
+                                {event.parentRecipe && ` - via ${event.parentRecipe}`}
+                              </div>
+                              {event.sourcePathBefore !== event.sourcePathAfter && (
+                                <div className="text-xs text-gray-500 dark:text-gray-400 font-mono truncate">
+                                  {event.sourcePathBefore ?? '(nouveau)'} → {event.sourcePathAfter ?? '(supprime)'}
+                                </div>
+                              )}
+                            </li>
+                          ))}
+                        </ol>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+        {filteredTimelines.length === 0 && (
+          <p className="py-6 text-center text-sm text-gray-500">Aucun fichier</p>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-gray-500">
+            Page {page} sur {totalPages}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setCurrentPage(Math.max(1, page - 1))}
+              disabled={page === 1}
+              className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              Precedent
+            </button>
+            <button
+              onClick={() => setCurrentPage(Math.min(totalPages, page + 1))}
+              disabled={page === totalPages}
+              className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50 dark:hover:bg-gray-600"
+            >
+              Suivant
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FileTimelineTable;
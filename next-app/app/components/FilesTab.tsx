@@ -1,8 +1,13 @@
 'use client';
 
 import React, { useState, useMemo } from 'react';
-import { SourceFileResults } from '../types';
+import { DirectoryRollupNode, FileChangeKind, SourceFileResults } from '../types';
+import { useDirectoryRollup, useFileTimelines } from '../hooks/useData';
+import { dataProcessor, FILE_CHANGE_KIND_LABELS } from '../lib/DataProcessor';
 import KPICard from './KPICard';
+import FileTimelineTable from './FileTimelineTable';
+import DirectoryTreeTable from './DirectoryTreeTable';
+import Treemap, { TreemapData } from './Treemap';
 import ChartCard from './ChartCard';
 import BarChart from './BarChart';
 import PieChart from './PieChart';
@@ -25,22 +30,98 @@ const ClockIcon = () => (
   </svg>
 );
 
+const FireIcon = () => (
+  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 18.657A8 8 0 016.343 7.343S7 9 9 10c0-2 .5-5 2.986-7C14 5 16.09 5.777 17.656 7.343A7.975 7.975 0 0120 13a7.975 7.975 0 01-2.343 5.657z" />
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.879 16.121A3 3 0 1012.015 11L11 14H9c0 .768.293 1.536.879 2.121z" />
+  </svg>
+);
+
+type FilesView = 'rows' | 'files';
+type RollupMetric = 'files' | 'timeSaved';
+
+// Arborescence des dossiers pour la treemap ; le temps économisé est exprimé en minutes
+const toTreemapData = (nodes: DirectoryRollupNode[], metric: RollupMetric): TreemapData[] =>
+  nodes
+    .map((node) => ({
+      name: node.name,
+      value: metric === 'files' ? node.fileCount : Math.round(node.timeSaved / 60),
+      children: node.children.length > 0 ? toTreemapData(node.children, metric) : undefined,
+    }))
+    .filter((node) => node.value > 0);
+
+const formatMinutes = (minutes: number) => dataProcessor.formatDuration(minutes * 60);
+
+// Couleur des badges de nature de changement : créations et suppressions ressortent
+const FILE_CHANGE_KIND_CLASSES: Record<FileChangeKind, string> = {
+  added: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  deleted: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  moved: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200',
+  modified: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const ChangeKindBadge: React.FC<{ kind: FileChangeKind }> = ({ kind }) => (
+  <span className={`px-2 py-0.5 text-xs rounded-full ${FILE_CHANGE_KIND_CLASSES[kind]}`}>
+    {FILE_CHANGE_KIND_LABELS[kind]}
+  </span>
+);
+
 const FilesTab: React.FC<FilesTabProps> = ({ sourceResults, isLoading = false }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
+  const [view, setView] = useState<FilesView>('rows');
+  const [kindFilter, setKindFilter] = useState<FileChangeKind | 'all'>('all');
   const pageSize = 20;
 
-  // Filtrer les données par terme de recherche
+  // Chronologie par fichier (calculée dans le worker)
+  const timelines = useFileTimelines(sourceResults);
+  // Regroupement par dossier, module et source set (calculé dans le worker)
+  const rollup = useDirectoryRollup(sourceResults);
+  const [rollupMetric, setRollupMetric] = useState<RollupMetric>('files');
+  const rollupTreemapData = useMemo(
+    () => rollup.data ? toTreemapData(rollup.data.root.children, rollupMetric) : [],
+    [rollup.data, rollupMetric]
+  );
+
+  const hotspotCount = useMemo(
+    () => (timelines.data ?? []).filter((timeline) => timeline.isHotspot).length,
+    [timelines.data]
+  );
+
+  // Créations, suppressions, déplacements et modifications sur place
+  const changeKinds = useMemo(() => dataProcessor.summarizeFileChangeKinds(sourceResults), [sourceResults]);
+
+  // Recettes qui créent ou suppriment des fichiers, à relire en priorité
+  const structuralRecipes = useMemo(() => {
+    const recipes = new Map<string, FileChangeKind[]>();
+    changeKinds
+      .filter((summary) => summary.kind === 'added' || summary.kind === 'deleted')
+      .forEach((summary) => summary.recipes.forEach((recipe) => {
+        recipes.set(recipe, [...(recipes.get(recipe) ?? []), summary.kind]);
+      }));
+    return Array.from(recipes.entries()).map(([recipe, kinds]) => ({ recipe, kinds }));
+  }, [changeKinds]);
+
+  // Filtrer les données par nature de changement et terme de recherche
   const filteredData = useMemo(() => {
-    if (!searchTerm) return sourceResults;
+    const byKind = kindFilter === 'all'
+      ? sourceResults
+      : sourceResults.filter((r) => dataProcessor.classifyFileChange(r) === kindFilter);
+    if (!searchTerm) return byKind;
     const term = searchTerm.toLowerCase();
-    return sourceResults.filter(
+    return byKind.filter(
       (r) =>
         (r.sourcePathBefore?.toLowerCase().includes(term) ?? false) ||
         (r.sourcePathAfter?.toLowerCase().includes(term) ?? false) ||
         r.recipeChanges.toLowerCase().includes(term)
     );
-  }, [sourceResults, searchTerm]);
+  }, [sourceResults, searchTerm, kindFilter]);
+
+  const selectKind = (kind: FileChangeKind | 'all') => {
+    setKindFilter(kind);
+    setView('rows');
+    setCurrentPage(1);
+  };
 
   // Paginer les données
   const paginatedData = useMemo(() => {
@@ -101,7 +182,7 @@ const FilesTab: React.FC<FilesTabProps> = ({ sourceResults, isLoading = false })
   return (
     <div className="space-y-6">
       {/* Cartes KPI */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <KPICard
           icon={<FileIcon />}
           value={stats.totalFiles.toLocaleString()}
@@ -114,8 +195,59 @@ const FilesTab: React.FC<FilesTabProps> = ({ sourceResults, isLoading = false })
           label="Temps moyen"
           subtitle="par fichier"
         />
+        <KPICard
+          icon={<FireIcon />}
+          value={hotspotCount.toLocaleString()}
+          label="Points chauds"
+          subtitle={timelines.data ? `sur ${timelines.data.length.toLocaleString()} fichiers` : ''}
+        />
       </div>
 
+      {/* Cycle de vie des fichiers */}
+      <ChartCard
+        title="Cycle de vie des fichiers"
+        subtitle="Cliquer sur une categorie pour filtrer le tableau des modifications"
+      >
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {changeKinds.map((summary) => (
+            <button
+              key={summary.kind}
+              onClick={() => selectKind(kindFilter === summary.kind ? 'all' : summary.kind)}
+              className={`p-4 text-left rounded-lg border transition-colors ${
+                kindFilter === summary.kind
+                  ? 'border-blue-500 ring-2 ring-blue-500'
+                  : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              <ChangeKindBadge kind={summary.kind} />
+              <div className="mt-2 text-2xl font-bold text-gray-900 dark:text-white">
+                {summary.changeCount.toLocaleString()}
+              </div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                {formatTime(summary.timeSaved)} economise(s)
+              </div>
+            </button>
+          ))}
+        </div>
+        {structuralRecipes.length > 0 && (
+          <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+              A relire en priorite : recettes qui creent ou suppriment des fichiers
+            </p>
+            <ul className="space-y-1">
+              {structuralRecipes.map(({ recipe, kinds }) => (
+                <li key={recipe} className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <span className="truncate" title={recipe}>{recipe}</span>
+                  {kinds.map((kind) => (
+                    <ChangeKindBadge key={kind} kind={kind} />
+                  ))}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </ChartCard>
+
       {/* Graphique Types de fichiers modifies */}
       <ChartCard
         title="Types de fichiers modifies"
@@ -140,13 +272,91 @@ const FilesTab: React.FC<FilesTabProps> = ({ sourceResults, isLoading = false })
         )}
       </ChartCard>
 
+      {/* Répartition par dossier et module */}
+      <ChartCard
+        title="Repartition par dossier et module"
+        subtitle={rollup.data
+          ? `${rollup.data.moduleCount} module(s) Maven / Gradle detecte(s) - cliquer sur un dossier pour l'explorer`
+          : 'Modules Maven / Gradle et source sets'}
+      >
+        {rollup.error ? (
+          <p className="text-sm text-red-600 dark:text-red-400">{rollup.error.message}</p>
+        ) : !rollup.data ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex flex-wrap gap-2 text-xs">
+                {rollup.data.sourceSets.map((sourceSet) => (
+                  <span
+                    key={sourceSet.name ?? ''}
+                    className="px-2 py-1 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                  >
+                    {sourceSet.name ? `src/${sourceSet.name}` : 'Hors source set'} : {sourceSet.fileCount} fichier(s),{' '}
+                    {formatTime(sourceSet.timeSaved)}
+                  </span>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                {([['files', 'Fichiers'], ['timeSaved', 'Temps economise']] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => setRollupMetric(value)}
+                    className={`px-3 py-1 text-sm rounded-md border ${
+                      rollupMetric === value
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {rollupTreemapData.length > 0 ? (
+              <Treemap
+                data={rollupTreemapData}
+                height={400}
+                valueFormatter={rollupMetric === 'timeSaved' ? formatMinutes : undefined}
+              />
+            ) : (
+              <div className="flex items-center justify-center h-[400px] text-gray-500">
+                Aucune donnee disponible
+              </div>
+            )}
+            <DirectoryTreeTable root={rollup.data.root} />
+          </div>
+        )}
+      </ChartCard>
+
       {/* Tableau des fichiers */}
       <ChartCard
         title="Fichiers modifies"
-        subtitle={`${filteredData.length} fichiers`}
+        subtitle={view === 'rows'
+          ? `${filteredData.length} modifications (recette x fichier x cycle)`
+          : `${timelines.data?.length ?? 0} fichiers, renommages suivis`}
       >
-        {/* Recherche */}
-        <div className="mb-4">
+        {/* Vue par modification ou par fichier */}
+        <div className="mb-4 flex gap-2">
+          {([['rows', 'Par modification'], ['files', 'Par fichier']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setView(value)}
+              className={`px-3 py-1 text-sm rounded-md border ${
+                view === value
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Recherche et nature de changement */}
+        <div className="mb-4 flex flex-col sm:flex-row gap-2">
           <input
             type="text"
             placeholder="Rechercher un fichier..."
@@ -155,66 +365,100 @@ const FilesTab: React.FC<FilesTabProps> = ({ sourceResults, isLoading = false })
               setSearchTerm(e.target.value);
               setCurrentPage(1);
             }}
-            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
-        </div>
-
-        <div className="overflow-x-auto">
-          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
-            <thead className="bg-gray-50 dark:bg-gray-900">
-              <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                  Fichier
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                  Type de changement
-                </th>
-                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                  Temps economise
-                </th>
-              </tr>
-            </thead>
-            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-              {paginatedData.map((row, index) => (
-                <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-700">
-                  <td className="px-6 py-4 text-sm text-gray-900 dark:text-white max-w-xs truncate">
-                    {row.sourcePathAfter || row.sourcePathBefore || '-'}
-                  </td>
-                  <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400 max-w-xs truncate">
-                    {row.recipeChanges}
-                  </td>
-                  <td className="px-6 py-4 text-sm text-gray-900 dark:text-white text-right">
-                    {formatTime(row.estimatedTimeSaving)}
-                  </td>
-                </tr>
+          {view === 'rows' && (
+            <select
+              value={kindFilter}
+              onChange={(e) => selectKind(e.target.value as FileChangeKind | 'all')}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">Toutes les natures</option>
+              {changeKinds.map((summary) => (
+                <option key={summary.kind} value={summary.kind}>
+                  {FILE_CHANGE_KIND_LABELS[summary.kind]} ({summary.changeCount})
+                </option>
               ))}
-            </tbody>
-          </table>
+            </select>
+          )}
         </div>
 
-        {/* Pagination */}
-        {totalPages > 1 && (
-          <div className="mt-4 flex justify-between items-center">
-            <span className="text-sm text-gray-500">
-              Page {currentPage} sur {totalPages}
-            </span>
-            <div className="flex gap-2">
-              <button
-                onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
-                disabled={currentPage === 1}
-                className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50 dark:hover:bg-gray-600"
-              >
-                Precedent
-              </button>
-              <button
-                onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
-                disabled={currentPage === totalPages}
-                className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50 dark:hover:bg-gray-600"
-              >
-                Suivant
-              </button>
+        {view === 'files' ? (
+          timelines.error ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{timelines.error.message}</p>
+          ) : timelines.data ? (
+            <FileTimelineTable timelines={timelines.data} searchTerm={searchTerm} />
+          ) : (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
             </div>
+          )
+        ) : (
+          <>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-900">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Fichier
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Nature
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Type de changement
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Temps economise
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {paginatedData.map((row, index) => (
+                  <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <td className="px-6 py-4 text-sm text-gray-900 dark:text-white max-w-xs truncate">
+                      {row.sourcePathAfter || row.sourcePathBefore || '-'}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <ChangeKindBadge kind={dataProcessor.classifyFileChange(row)} />
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400 max-w-xs truncate">
+                      {row.recipeChanges}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900 dark:text-white text-right">
+                      {formatTime(row.estimatedTimeSaving)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
           </div>
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="mt-4 flex justify-between items-center">
+              <span className="text-sm text-gray-500">
+                Page {currentPage} sur {totalPages}
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+                  disabled={currentPage === 1}
+                  className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50 dark:hover:bg-gray-600"
+                >
+                  Precedent
+                </button>
+                <button
+                  onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
+                  disabled={currentPage === totalPages}
+                  className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-50 dark:hover:bg-gray-600"
+                >
+                  Suivant
+                </button>
+              </div>
+            </div>
+          )}
+          </>
         )}
       </ChartCard>
     </div>
@@ -0,0 +1,67 @@
+'use client';
+
+import React from 'react';
+import { FinancialMetrics } from '../types';
+import { dataProcessor } from '../lib/DataProcessor';
+import KPICard from './KPICard';
+
+interface FinancialSummaryProps {
+  financial: FinancialMetrics;
+  // Origine du temps économisé, affichée sous le montant
+  source: string;
+}
+
+const CoinIcon = () => (
+  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+  </svg>
+);
+
+const TrendingUpIcon = () => (
+  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
+  </svg>
+);
+
+const ScaleIcon = () => (
+  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 6l3 1m0 0l-3 9a5.002 5.002 0 006.001 0M6 7l3 9M6 7l6-2m6 2l3-1m-3 1l-3 9a5.002 5.002 0 006.001 0M18 7l3 9m-3-9l-6-2m0-2v2m0 16V5m0 16H9m3 0h3" />
+  </svg>
+);
+
+const FinancialSummary: React.FC<FinancialSummaryProps> = ({ financial, source }) => {
+  const format = (value: number) => dataProcessor.formatCurrency(value, financial.currency);
+
+  const payback = financial.paybackRatio === null
+    ? 'n/a'
+    : `x${dataProcessor.formatNumber(financial.paybackRatio, financial.paybackRatio >= 10 ? 0 : 1)}`;
+
+  const breakEven = financial.breakEvenMinutes < 1
+    ? 'moins d\'une minute'
+    : dataProcessor.formatDuration(financial.breakEvenMinutes * 60);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <KPICard
+        icon={<CoinIcon />}
+        value={format(financial.moneySaved)}
+        label="Montant economise"
+        subtitle={source}
+      />
+      <KPICard
+        icon={<TrendingUpIcon />}
+        value={format(financial.netSavings)}
+        label="Gain net"
+        subtitle={`calcul : ${format(financial.computeCost)}`}
+      />
+      <KPICard
+        icon={<ScaleIcon />}
+        value={payback}
+        label="Retour sur le cout de calcul"
+        subtitle={`point mort : ${breakEven} de travail`}
+      />
+    </div>
+  );
+};
+
+export default FinancialSummary;
@@ -0,0 +1,110 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { UsageInclusionField, UsageInclusionPreset, UsageInclusionRule, UsageReportEntry } from '../types';
+import { dataProcessor, USAGE_INCLUSION_PRESETS } from '../lib/DataProcessor';
+
+interface InclusionRuleSelectorProps {
+  rule: UsageInclusionRule;
+  onChange: (rule: UsageInclusionRule) => void;
+  // Lignes avant application de la règle
+  entries: UsageReportEntry[];
+  includedCount: number;
+}
+
+const FIELDS: UsageInclusionField[] = ['recipeRunState', 'commitState', 'type'];
+
+const InclusionRuleSelector: React.FC<InclusionRuleSelectorProps> = ({ rule, onChange, entries, includedCount }) => {
+  // Valeurs rencontrées pour chaque colonne, proposées dans la règle personnalisée
+  const valuesByField = useMemo(() => {
+    const result = {} as Record<UsageInclusionField, string[]>;
+    FIELDS.forEach(field => {
+      result[field] = Array.from(new Set(entries.map(entry => dataProcessor.getInclusionValue(entry, field)))).sort();
+    });
+    return result;
+  }, [entries]);
+
+  const handlePresetChange = (preset: UsageInclusionPreset) => {
+    if (preset !== 'custom') {
+      onChange(USAGE_INCLUSION_PRESETS[preset].rule);
+      return;
+    }
+
+    // La règle personnalisée part des valeurs incluses par la règle courante
+    const included = dataProcessor.applyInclusionRule(entries, rule);
+    onChange({
+      preset: 'custom',
+      predicates: FIELDS.map(field => ({
+        field,
+        operator: 'in',
+        values: Array.from(new Set(included.map(entry => dataProcessor.getInclusionValue(entry, field)))),
+      })),
+    });
+  };
+
+  const handleToggleValue = (field: UsageInclusionField, value: string) => {
+    onChange({
+      preset: 'custom',
+      predicates: rule.predicates.map(predicate => {
+        if (predicate.field !== field) return predicate;
+        const values = predicate.values.includes(value)
+          ? predicate.values.filter(current => current !== value)
+          : [...predicate.values, value];
+        return { ...predicate, values };
+      }),
+    });
+  };
+
+  const activeLabel = rule.preset === 'custom' ? 'Regle personnalisee' : USAGE_INCLUSION_PRESETS[rule.preset].label;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-4">
+        <label htmlFor="inclusion-select" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Executions incluses:
+        </label>
+        <select
+          id="inclusion-select"
+          value={rule.preset}
+          onChange={(e) => handlePresetChange(e.target.value as UsageInclusionPreset)}
+          className="block w-full max-w-xs pl-3 pr-10 py-2 text-base border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        >
+          {Object.entries(USAGE_INCLUSION_PRESETS).map(([preset, { label }]) => (
+            <option key={preset} value={preset}>
+              {label}
+            </option>
+          ))}
+          <option value="custom">Personnalisee</option>
+        </select>
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          {activeLabel} ({dataProcessor.describeInclusionRule(rule)}) - {includedCount} / {entries.length} lignes
+        </span>
+      </div>
+
+      {rule.preset === 'custom' && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {rule.predicates.map((predicate) => (
+            <fieldset key={predicate.field} className="border border-gray-200 dark:border-gray-700 rounded-md p-3">
+              <legend className="px-1 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                {predicate.field}
+              </legend>
+              {valuesByField[predicate.field].map((value) => (
+                <label key={value} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={predicate.values.includes(value)}
+                    onChange={() => handleToggleValue(predicate.field, value)}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  {value || '(vide)'}
+                </label>
+              ))}
+            </fieldset>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InclusionRuleSelector;
@@ -0,0 +1,80 @@
+'use client';
+
+import React from 'react';
+import { FileLoadProgress, LoadPhase } from '../types';
+
+interface LoadingProgressProps {
+  progress: Record<string, FileLoadProgress>;
+  onCancel?: () => void;
+}
+
+// Libellés des étapes de chargement
+const PHASE_LABELS: Record<LoadPhase, string> = {
+  download: 'Telechargement',
+  parse: 'Analyse',
+  done: 'Termine',
+};
+
+const LoadingProgress: React.FC<LoadingProgressProps> = ({ progress, onCancel }) => {
+  const files = Object.values(progress);
+
+  // Pourcentage d'avancement d'un fichier ; le téléchargement compte pour la première moitié
+  const getPercent = (fileProgress: FileLoadProgress): number => {
+    if (fileProgress.phase === 'done') return 100;
+    const ratio = fileProgress.total > 0 ? fileProgress.loaded / fileProgress.total : 0;
+    return Math.round((fileProgress.phase === 'download' ? ratio * 50 : 50 + ratio * 50));
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Chargement des donnees
+          </h3>
+        </div>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+          >
+            Annuler
+          </button>
+        )}
+      </div>
+
+      {files.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Preparation...</p>
+      ) : (
+        <ul className="space-y-3">
+          {files.map((fileProgress) => {
+            const percent = getPercent(fileProgress);
+            return (
+              <li key={fileProgress.file}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-gray-900 dark:text-white truncate">
+                    {fileProgress.file.split('/').pop()}
+                  </span>
+                  <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap ml-4">
+                    {PHASE_LABELS[fileProgress.phase]} - {percent}%
+                  </span>
+                </div>
+                <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                  <div
+                    className={`h-2 rounded-full transition-all ${
+                      fileProgress.phase === 'done' ? 'bg-green-500' : 'bg-blue-500'
+                    }`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LoadingProgress;
@@ -1,8 +1,13 @@
 'use client';
 
-import React, { useMemo } from 'react';
-import { RecipeRunStats, ROIMetrics, RecipePerformanceMetrics } from '../types';
+import React, { useMemo, useState } from 'react';
+import { RecipeRunStats, ROIMetrics, RecipePerformanceMetrics, ChangeTypeAggregation, RecipeOutlierFlag, RecipeOutlierKind } from '../types';
+import { ChangeTypeTaxonomyState } from '../hooks/useData';
+import { dataProcessor, RECIPE_OUTLIER_LABELS } from '../lib/DataProcessor';
 import KPICard from './KPICard';
+import FinancialSummary from './FinancialSummary';
+import ChangeTypeRulesEditor from './ChangeTypeRulesEditor';
+import PieChart from './PieChart';
 import ChartCard from './ChartCard';
 import Treemap from './Treemap';
 import NightingaleChart from './NightingaleChart';
@@ -11,6 +16,9 @@ interface OverviewTabProps {
   recipeStats: RecipeRunStats[];
   roiMetrics: ROIMetrics | null;
   enrichedStats: RecipePerformanceMetrics[];
+  changeAggregation?: ChangeTypeAggregation[] | null;
+  // Taxonomie des types de changement ; absente, la répartition n'est pas modifiable
+  changeTypes?: ChangeTypeTaxonomyState;
   isLoading?: boolean;
 }
 
@@ -33,12 +41,49 @@ const BeakerIcon = () => (
   </svg>
 );
 
+const OUTLIER_BADGE_CLASSES: Record<RecipeOutlierKind, string> = {
+  maxSpike: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  slowPerFile: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+  noChanges: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+};
+
+const OutlierBadge: React.FC<{ flag: RecipeOutlierFlag }> = ({ flag }) => (
+  <span className={`px-2 py-0.5 text-xs rounded-full whitespace-nowrap ${OUTLIER_BADGE_CLASSES[flag.kind]}`}>
+    {RECIPE_OUTLIER_LABELS[flag.kind]}
+    {flag.phase && ` (${flag.phase})`}
+  </span>
+);
+
 const OverviewTab: React.FC<OverviewTabProps> = ({
   recipeStats,
   roiMetrics,
   enrichedStats,
+  changeAggregation = null,
+  changeTypes,
   isLoading = false,
 }) => {
+  const [isEditingChangeTypes, setIsEditingChangeTypes] = useState(false);
+
+  // Anomalies de performance (pic max, temps par fichier, scans sans changement)
+  const outliers = useMemo(() => dataProcessor.detectRecipeOutliers(recipeStats), [recipeStats]);
+  const outliersByRecipe = useMemo(
+    () => new Map(outliers.map((outlier) => [outlier.recipe, outlier])),
+    [outliers]
+  );
+
+  // Temps économisé par type de changement, dans la couleur de sa catégorie
+  const changeTypeData = useMemo(() => {
+    return (changeAggregation ?? [])
+      .filter((aggregation) => aggregation.timeSaved > 0)
+      .map((aggregation) => ({
+        name: aggregation.changeType,
+        value: Math.round(aggregation.timeSaved / 60),
+        itemStyle: { color: aggregation.color },
+      }))
+      .sort((a, b) => b.value - a.value);
+  }, [changeAggregation]);
+
+
   // Préparer les données pour le graphique de distribution des temps
   const recipeTimeData = useMemo(() => {
     return recipeStats
@@ -82,6 +127,20 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
     return `${minutes}m ${secs}s`;
   };
 
+  // Explication d'une anomalie : valeur observée et référence
+  const describeOutlier = (flag: RecipeOutlierFlag, approximate: boolean): string => {
+    switch (flag.kind) {
+      case 'maxSpike':
+        return flag.reference > 0
+          ? `${flag.phase === 'scan' ? 'Scan' : 'Edit'} : max ${formatTimeMs(flag.value / 1000000)} contre un P99 de ${approximate ? '≈ ' : ''}${formatTimeMs(flag.reference / 1000000)} (x${Math.round(flag.value / flag.reference)})`
+          : `${flag.phase === 'scan' ? 'Scan' : 'Edit'} : max ${formatTimeMs(flag.value / 1000000)} avec un P99 nul`;
+      case 'slowPerFile':
+        return `${formatTimeMs(flag.value / 1000000)} par fichier contre ${formatTimeMs(flag.reference / 1000000)} en mediane`;
+      case 'noChanges':
+        return `${flag.value.toLocaleString()} fichiers scannes, aucun modifie`;
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -116,6 +175,16 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
         />
       </div>
 
+      {/* Valorisation financière (modèle de coût de config.json) */}
+      {roiMetrics && (
+        <FinancialSummary
+          financial={roiMetrics.financial}
+          source={roiMetrics.ratePerRepository
+            ? 'SourcesFileResults, taux par repository'
+            : 'SourcesFileResults, taux horaire par defaut'}
+        />
+      )}
+
       {/* Graphiques principaux */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <ChartCard
@@ -151,6 +220,83 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
         </ChartCard>
       </div>
 
+      {/* Répartition par type de changement (taxonomie modifiable) */}
+      <ChartCard
+        title="Temps economise par type de changement"
+        subtitle="En minutes, selon la taxonomie des types de changement"
+      >
+        <div className="space-y-4">
+          {changeTypes?.taxonomy && (
+            <div className="flex justify-end">
+              <button
+                onClick={() => setIsEditingChangeTypes(!isEditingChangeTypes)}
+                className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+              >
+                {isEditingChangeTypes ? 'Fermer l\'editeur' : 'Modifier les types de changement'}
+              </button>
+            </div>
+          )}
+          {isEditingChangeTypes && changeTypes?.taxonomy && (
+            <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-900">
+              <ChangeTypeRulesEditor
+                taxonomy={changeTypes.taxonomy}
+                isCustomized={changeTypes.isCustomized}
+                onSave={changeTypes.setTaxonomy}
+                onReset={changeTypes.resetTaxonomy}
+              />
+            </div>
+          )}
+          {changeTypeData.length > 0 ? (
+            <PieChart
+              data={changeTypeData}
+              height={350}
+              radius={['30%', '70%']}
+              tooltipFormatter={(params) => `${params.name}: ${params.value} min (${params.percent}%)`}
+              legendScrollable
+            />
+          ) : (
+            <div className="flex items-center justify-center h-[350px] text-gray-500">
+              Aucune donnee disponible
+            </div>
+          )}
+        </div>
+      </ChartCard>
+
+      {/* Anomalies de performance */}
+      <ChartCard
+        title="Hot spots"
+        subtitle="Recettes dont les temps ou le rendement sortent de l'ordinaire"
+      >
+        {outliers.length > 0 ? (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {outliers.map((outlier) => (
+              <li key={outlier.recipe} className="py-3 first:pt-0 last:pb-0">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-gray-900 dark:text-white truncate" title={outlier.recipe}>
+                    {outlier.recipe}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {formatTimeMs(outlier.totalExecutionTimeMs)} d&apos;execution
+                  </span>
+                </div>
+                <ul className="mt-1 space-y-1">
+                  {outlier.flags.map((flag, index) => (
+                    <li key={index} className="flex flex-wrap items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                      <OutlierBadge flag={flag} />
+                      {describeOutlier(flag, outlier.percentilesApproximate)}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="flex items-center justify-center h-24 text-gray-500">
+            Aucune anomalie detectee
+          </div>
+        )}
+      </ChartCard>
+
       {/* Tableau détaillé des performances */}
       <ChartCard
         title="Détails des performances"
@@ -180,8 +326,15 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
             <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
               {enrichedStats.slice(0, 20).map((row, index) => (
                 <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-700">
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white max-w-xs truncate">
-                    {row.recipe}
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white max-w-xs">
+                    <div className="truncate" title={row.recipe}>{row.recipe}</div>
+                    {outliersByRecipe.has(row.recipe) && (
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {outliersByRecipe.get(row.recipe)!.flags.map((flag, flagIndex) => (
+                          <OutlierBadge key={flagIndex} flag={flag} />
+                        ))}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white text-right">
                     {formatTimeMs(row.cumulativeScanningTime / 1000000)}
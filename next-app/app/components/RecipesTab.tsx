@@ -6,6 +6,7 @@ import KPICard from './KPICard';
 import ChartCard from './ChartCard';
 import BarChart from './BarChart';
 import PieChart from './PieChart';
+import SunburstChart, { SunburstData } from './SunburstChart';
 
 interface RecipesTabProps {
   recipeStats: RecipeRunStats[];
@@ -38,6 +39,35 @@ const ChartBarIcon = () => (
   </svg>
 );
 
+const ChevronIcon = ({ expanded }: { expanded: boolean }) => (
+  <svg
+    className={`w-4 h-4 transition-transform ${expanded ? 'rotate-90' : ''}`}
+    fill="none"
+    stroke="currentColor"
+    viewBox="0 0 24 24"
+  >
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+  </svg>
+);
+
+// Formater un temps économisé exprimé en secondes
+const formatSavedTime = (seconds: number): string => {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${Math.round(seconds % 60)}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+// Convertir la hiérarchie en données de sunburst, pondérées par le temps économisé cumulé
+const toSunburstData = (nodes: RecipeHierarchy[]): SunburstData[] =>
+  nodes
+    .filter((node) => node.rollup.totalTimeSaved > 0)
+    .map((node) => ({
+      name: node.name.split('.').pop() || node.name,
+      value: node.rollup.totalTimeSaved,
+      children: node.children.length > 0 ? toSunburstData(node.children) : undefined,
+    }));
+
 const RecipesTab: React.FC<RecipesTabProps> = ({
   recipeStats,
   hierarchy,
@@ -45,8 +75,43 @@ const RecipesTab: React.FC<RecipesTabProps> = ({
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
+  const [expandedRecipes, setExpandedRecipes] = useState<Set<string>>(new Set());
   const pageSize = 20;
 
+  // Lignes visibles de l'arbre : les enfants d'un nœud ne sont affichés que s'il est déplié
+  const visibleHierarchy = useMemo(() => {
+    const rows: RecipeHierarchy[] = [];
+    const visit = (nodes: RecipeHierarchy[]) => {
+      nodes.forEach((node) => {
+        rows.push(node);
+        if (expandedRecipes.has(node.name)) {
+          visit(node.children);
+        }
+      });
+    };
+    visit(hierarchy || []);
+    return rows;
+  }, [hierarchy, expandedRecipes]);
+
+  const hasNestedRecipes = useMemo(
+    () => (hierarchy || []).some((node) => node.children.length > 0),
+    [hierarchy]
+  );
+
+  const sunburstData = useMemo(() => toSunburstData(hierarchy || []), [hierarchy]);
+
+  const toggleRecipe = (name: string) => {
+    setExpandedRecipes((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
   // Filtrer les données par terme de recherche
   const filteredData = useMemo(() => {
     if (!searchTerm) return recipeStats;
@@ -287,6 +352,90 @@ const RecipesTab: React.FC<RecipesTabProps> = ({
         </ChartCard>
       </div>
 
+      {/* Hiérarchie des recettes */}
+      {hierarchy && hierarchy.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <ChartCard
+            title="Hiérarchie des recettes"
+            subtitle={hasNestedRecipes
+              ? 'Métriques cumulées de chaque recette et de ses sous-recettes'
+              : 'Aucune relation parent/enfant dans les données'}
+          >
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-900">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Recette
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Modifications
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Temps économisé
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Exécution
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                  {visibleHierarchy.map((node) => (
+                    <tr key={`${node.parent ?? ''}/${node.name}`} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-white max-w-xs">
+                        <div className="flex items-center gap-1" style={{ paddingLeft: `${node.depth * 1.25}rem` }}>
+                          {node.children.length > 0 ? (
+                            <button
+                              onClick={() => toggleRecipe(node.name)}
+                              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                              title={expandedRecipes.has(node.name) ? 'Replier' : 'Déplier'}
+                            >
+                              <ChevronIcon expanded={expandedRecipes.has(node.name)} />
+                            </button>
+                          ) : (
+                            <span className="w-4" />
+                          )}
+                          <span className="truncate" title={node.name}>
+                            {node.name.split('.').pop() || node.name}
+                          </span>
+                          {node.rollup.descendantCount > 0 && (
+                            <span className="text-xs text-gray-500 dark:text-gray-400">
+                              ({node.rollup.descendantCount})
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-white text-right">
+                        {node.rollup.changeCount}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-white text-right">
+                        {formatSavedTime(node.rollup.totalTimeSaved)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400 text-right">
+                        {formatTime(node.rollup.totalExecutionTimeMs)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </ChartCard>
+
+          <ChartCard
+            title="Répartition du temps économisé"
+            subtitle="Par recette et sous-recette (cliquer pour zoomer)"
+          >
+            {sunburstData.length > 0 ? (
+              <SunburstChart data={sunburstData} height={400} valueFormatter={formatSavedTime} />
+            ) : (
+              <div className="flex items-center justify-center h-[400px] text-gray-500">
+                Aucune donnée disponible
+              </div>
+            )}
+          </ChartCard>
+        </div>
+      )}
+
       {/* Tableau des recettes */}
       <ChartCard
         title="Détails des recettes"
@@ -348,7 +497,11 @@ const RecipesTab: React.FC<RecipesTabProps> = ({
                   <td className="px-6 py-4 text-sm text-gray-900 dark:text-white text-right">
                     {formatTime(row.cumulativeEditTime / 1000000)}
                   </td>
-                  <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400 text-right">
+                  <td
+                    className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400 text-right"
+                    title={row.percentilesApproximate ? `Approximatif : maximum des P99 de ${row.runCount} executions` : undefined}
+                  >
+                    {row.percentilesApproximate && '≈ '}
                     {formatTime(row.percentile99ScanningTime / 1000000)}
                   </td>
                 </tr>
@@ -0,0 +1,109 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { UsageReportEntry } from '../types';
+import { useRunTables } from '../hooks/useData';
+import { dataProcessor } from '../lib/DataProcessor';
+import FilesTab from './FilesTab';
+import RecipesTab from './RecipesTab';
+
+interface RunDetailsPanelProps {
+  // Ligne de l'historique des exécutions sélectionnée
+  run: UsageReportEntry;
+  onClose: () => void;
+}
+
+type RunDetailsView = 'files' | 'recipes';
+
+const RunDetailsPanel: React.FC<RunDetailsPanelProps> = ({ run, onClose }) => {
+  const [view, setView] = useState<RunDetailsView>('files');
+  const { data, isLoading, error } = useRunTables(run.runId, run.repositoryPath);
+
+  const hierarchy = useMemo(
+    () => data?.recipeStats ? dataProcessor.buildRecipeHierarchy(data.recipeStats, data.sourceResults ?? []) : [],
+    [data]
+  );
+
+  const hasTables = data !== null && (data.recipeStats !== null || data.sourceResults !== null);
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        </div>
+      );
+    }
+
+    if (error) {
+      return <p className="text-sm text-red-600 dark:text-red-400">{error.message}</p>;
+    }
+
+    if (!hasTables) {
+      return (
+        <div className="text-sm text-gray-500 dark:text-gray-400 space-y-1">
+          <p>Aucune table rattachee a cette execution</p>
+          <p>
+            Declarer les fichiers dans la cle <code>runs</code> du manifest, ou les deposer dans{' '}
+            <code className="break-all">data/runs/{run.runId}/{run.repositoryPath}/</code>
+          </p>
+        </div>
+      );
+    }
+
+    if (view === 'recipes') {
+      return data.recipeStats
+        ? <RecipesTab recipeStats={data.recipeStats} hierarchy={hierarchy} />
+        : <p className="text-sm text-gray-500 dark:text-gray-400">Aucune donnee RecipeRunStats pour cette execution</p>;
+    }
+
+    return data.sourceResults
+      ? <FilesTab sourceResults={data.sourceResults} />
+      : <p className="text-sm text-gray-500 dark:text-gray-400">Aucune donnee SourcesFileResults pour cette execution</p>;
+  };
+
+  const viewButtonClass = (active: boolean) =>
+    `px-3 py-1 text-sm rounded-md border ${
+      active
+        ? 'bg-blue-600 border-blue-600 text-white'
+        : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600'
+    }`;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-blue-200 dark:border-blue-900 space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Execution <span className="font-mono">{run.runId}</span>
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {run.recipeId} - {run.repositoryPath}
+            {data && ` - ${data.origin === 'manifest' ? 'tables declarees dans le manifest' : 'tables du dossier runs/'}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {hasTables && (
+            <>
+              <button onClick={() => setView('files')} className={viewButtonClass(view === 'files')}>
+                Fichiers
+              </button>
+              <button onClick={() => setView('recipes')} className={viewButtonClass(view === 'recipes')}>
+                Recettes
+              </button>
+            </>
+          )}
+          <button
+            onClick={onClose}
+            className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+          >
+            Fermer
+          </button>
+        </div>
+      </div>
+
+      {renderContent()}
+    </div>
+  );
+};
+
+export default RunDetailsPanel;
@@ -0,0 +1,259 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { UsageReportEntry, UsageFieldChange } from '../types';
+import { useSnapshotDiff, useUsageSnapshots } from '../hooks/useData';
+import { getAppConfig } from '../lib/AppConfig';
+import KPICard from './KPICard';
+import ChartCard from './ChartCard';
+
+interface SnapshotDiffTabProps {
+  // Jeu de données actif : la liste des snapshots est rechargée quand il change
+  datasetId: string | null;
+}
+
+const PlusIcon = () => (
+  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+  </svg>
+);
+
+const MinusIcon = () => (
+  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
+  </svg>
+);
+
+const SwitchIcon = () => (
+  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+  </svg>
+);
+
+const ClockIcon = () => (
+  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+  </svg>
+);
+
+// Libellé d'un snapshot : nom du fichier et date de l'export tirée du timestamp
+const formatSnapshotLabel = (filePath: string): string => {
+  const fileName = filePath.split('/').pop() ?? filePath;
+  const match = fileName.match(/usage-report-(\d+)\.csv$/);
+  return match ? `${new Date(parseInt(match[1], 10)).toLocaleString(getAppConfig().locale)} (${fileName})` : fileName;
+};
+
+// Variation signée (+12 min, -3)
+const formatDelta = (value: number, unit = ''): string =>
+  `${value > 0 ? '+' : ''}${Math.round(value).toLocaleString()}${unit}`;
+
+const formatChangeValue = (value: UsageFieldChange['before']): string =>
+  value === null || value === '' ? '(vide)' : String(value);
+
+const RunTable: React.FC<{ entries: UsageReportEntry[] }> = ({ entries }) => (
+  <div className="overflow-x-auto">
+    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+      <thead className="bg-gray-50 dark:bg-gray-900">
+        <tr>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Run</th>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Repository</th>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Etat</th>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Commit</th>
+          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Temps economise</th>
+        </tr>
+      </thead>
+      <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+        {entries.map((entry) => (
+          <tr key={`${entry.runId}::${entry.repositoryPath}`} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+            <td className="px-4 py-2 font-mono text-gray-900 dark:text-white">{entry.runId}</td>
+            <td className="px-4 py-2 text-gray-500 dark:text-gray-400 max-w-xs truncate">{entry.repositoryPath}</td>
+            <td className="px-4 py-2 text-gray-500 dark:text-gray-400">{entry.recipeRunState}</td>
+            <td className="px-4 py-2 text-gray-500 dark:text-gray-400">{entry.commitState ?? '-'}</td>
+            <td className="px-4 py-2 text-right text-gray-900 dark:text-white">{Math.round(entry.timeSavingsInMinutes)} min</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const SnapshotDiffTab: React.FC<SnapshotDiffTabProps> = ({ datasetId }) => {
+  const snapshots = useUsageSnapshots(datasetId);
+  const [beforeFile, setBeforeFile] = useState<string | null>(null);
+  const [afterFile, setAfterFile] = useState<string | null>(null);
+
+  // Par défaut : comparer les deux exports les plus récents
+  useEffect(() => {
+    const files = snapshots.data ?? [];
+    setBeforeFile(files.length >= 2 ? files[files.length - 2] : null);
+    setAfterFile(files.length >= 2 ? files[files.length - 1] : null);
+  }, [snapshots.data]);
+
+  const diff = useSnapshotDiff(beforeFile, afterFile);
+
+  if (snapshots.isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  const files = snapshots.data ?? [];
+  if (files.length < 2) {
+    return (
+      <div className="flex items-center justify-center h-64 text-gray-500">
+        Au moins deux snapshots usage-report sont necessaires pour une comparaison
+      </div>
+    );
+  }
+
+  const timeSavingsDelta = diff.data?.repositories.reduce((sum, delta) => sum + delta.timeSavingsDelta, 0) ?? 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Choix des snapshots */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 border border-gray-200 dark:border-gray-700">
+        <div className="flex flex-wrap items-center gap-4">
+          <label htmlFor="snapshot-before" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Reference:
+          </label>
+          <select
+            id="snapshot-before"
+            value={beforeFile ?? ''}
+            onChange={(e) => setBeforeFile(e.target.value)}
+            className="block w-full max-w-sm pl-3 pr-10 py-2 text-base border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            {files.map((file) => (
+              <option key={file} value={file}>{formatSnapshotLabel(file)}</option>
+            ))}
+          </select>
+          <label htmlFor="snapshot-after" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Comparer avec:
+          </label>
+          <select
+            id="snapshot-after"
+            value={afterFile ?? ''}
+            onChange={(e) => setAfterFile(e.target.value)}
+            className="block w-full max-w-sm pl-3 pr-10 py-2 text-base border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            {files.map((file) => (
+              <option key={file} value={file}>{formatSnapshotLabel(file)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {diff.isLoading && (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+        </div>
+      )}
+
+      {diff.error && (
+        <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 text-sm">
+          {diff.error.message}
+        </div>
+      )}
+
+      {diff.data && (
+        <>
+          {/* Synthèse */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <KPICard icon={<PlusIcon />} value={diff.data.added.length} label="Nouvelles executions" />
+            <KPICard icon={<MinusIcon />} value={diff.data.removed.length} label="Executions disparues" />
+            <KPICard
+              icon={<SwitchIcon />}
+              value={diff.data.changed.length}
+              label="Executions modifiees"
+              subtitle={`${diff.data.unchangedCount} inchangees`}
+            />
+            <KPICard icon={<ClockIcon />} value={formatDelta(timeSavingsDelta, ' min')} label="Temps economise" subtitle="variation" />
+          </div>
+
+          {/* Évolution par repository */}
+          <ChartCard title="Evolution par repository" subtitle={`${diff.data.repositories.length} repositories concernes`}>
+            {diff.data.repositories.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-900">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Repository</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Nouvelles</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Disparues</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Modifiees</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Temps economise</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Fichiers modifies</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                    {diff.data.repositories.map((delta) => (
+                      <tr key={delta.repositoryPath} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                        <td className="px-4 py-2 text-gray-900 dark:text-white max-w-xs truncate">{delta.repositoryPath}</td>
+                        <td className="px-4 py-2 text-right text-gray-500 dark:text-gray-400">{delta.newRuns}</td>
+                        <td className="px-4 py-2 text-right text-gray-500 dark:text-gray-400">{delta.vanishedRuns}</td>
+                        <td className="px-4 py-2 text-right text-gray-500 dark:text-gray-400">{delta.changedRuns}</td>
+                        <td className={`px-4 py-2 text-right ${delta.timeSavingsDelta < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                          {formatDelta(delta.timeSavingsDelta, ' min')}
+                        </td>
+                        <td className="px-4 py-2 text-right text-gray-900 dark:text-white">{formatDelta(delta.filesChangedDelta)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-center text-gray-500 py-8">Aucune difference entre les deux snapshots</div>
+            )}
+          </ChartCard>
+
+          {/* Exécutions modifiées */}
+          {diff.data.changed.length > 0 && (
+            <ChartCard title="Executions modifiees" subtitle="Etat, commit ou temps economise differents">
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-900">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Run</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Repository</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Changements</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                    {diff.data.changed.map((run) => (
+                      <tr key={`${run.after.runId}::${run.after.repositoryPath}`} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                        <td className="px-4 py-2 font-mono text-gray-900 dark:text-white">{run.after.runId}</td>
+                        <td className="px-4 py-2 text-gray-500 dark:text-gray-400 max-w-xs truncate">{run.after.repositoryPath}</td>
+                        <td className="px-4 py-2 text-gray-700 dark:text-gray-300">
+                          {run.changes.map((change) => (
+                            <div key={change.field}>
+                              <span className="font-medium">{change.field}</span> : {formatChangeValue(change.before)} &rarr; {formatChangeValue(change.after)}
+                            </div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </ChartCard>
+          )}
+
+          {diff.data.added.length > 0 && (
+            <ChartCard title="Nouvelles executions" subtitle="Absentes du snapshot de reference">
+              <RunTable entries={diff.data.added} />
+            </ChartCard>
+          )}
+
+          {diff.data.removed.length > 0 && (
+            <ChartCard title="Executions disparues" subtitle="Absentes du snapshot compare">
+              <RunTable entries={diff.data.removed} />
+            </ChartCard>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotDiffTab;
@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { RecipeStatsScope } from '../types';
+
+interface StatsScopeSelectorProps {
+  scope: RecipeStatsScope;
+  onChange: (scope: RecipeStatsScope) => void;
+  // Repositories dont des exécutions ont des tables rattachées
+  repositories: string[];
+  runCount: number;
+}
+
+// Préfixe des valeurs de la liste désignant un repository
+const REPOSITORY_PREFIX = 'repository:';
+
+const toValue = (scope: RecipeStatsScope): string =>
+  scope.kind === 'repository' ? `${REPOSITORY_PREFIX}${scope.repositoryPath}` : scope.kind;
+
+const fromValue = (value: string): RecipeStatsScope => {
+  if (value.startsWith(REPOSITORY_PREFIX)) {
+    return { kind: 'repository', repositoryPath: value.slice(REPOSITORY_PREFIX.length) };
+  }
+  return value === 'fleet' ? { kind: 'fleet' } : { kind: 'dataset' };
+};
+
+const StatsScopeSelector: React.FC<StatsScopeSelectorProps> = ({ scope, onChange, repositories, runCount }) => (
+  <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 border border-gray-200 dark:border-gray-700">
+    <div className="flex flex-wrap items-center gap-4">
+      <label htmlFor="stats-scope-select" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+        Perimetre:
+      </label>
+      <select
+        id="stats-scope-select"
+        value={toValue(scope)}
+        onChange={(e) => onChange(fromValue(e.target.value))}
+        className="block w-full max-w-sm pl-3 pr-10 py-2 text-base border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+      >
+        <option value="fleet">Toute la flotte ({runCount} executions)</option>
+        {repositories.map((repository) => (
+          <option key={repository} value={`${REPOSITORY_PREFIX}${repository}`}>
+            {repository}
+          </option>
+        ))}
+        <option value="dataset">Tables du jeu de donnees</option>
+      </select>
+      {scope.kind !== 'dataset' && (
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          Statistiques fusionnees par recette : sommes des compteurs et temps cumules, pire temps maximal, percentiles approximatifs
+        </span>
+      )}
+    </div>
+  </div>
+);
+
+export default StatsScopeSelector;
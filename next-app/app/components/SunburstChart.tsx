@@ -0,0 +1,104 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import * as echarts from 'echarts';
+
+export interface SunburstData {
+  name: string;
+  value: number;
+  children?: SunburstData[];
+}
+
+interface SunburstChartProps {
+  data: SunburstData[];
+  height?: number;
+  colors?: string[];
+  valueFormatter?: (value: number) => string;
+}
+
+const SunburstChart: React.FC<SunburstChartProps> = ({
+  data,
+  height = 400,
+  colors,
+  valueFormatter,
+}) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const chartInstance = useRef<echarts.ECharts | null>(null);
+
+  useEffect(() => {
+    if (!chartRef.current) return;
+
+    // Initialiser l'instance echarts
+    chartInstance.current = echarts.init(chartRef.current);
+
+    const option: echarts.EChartsOption = {
+      tooltip: {
+        trigger: 'item',
+        formatter: (params: any) => {
+          const value = typeof params.value === 'number' ? params.value : 0;
+          return `${params.name}: ${valueFormatter ? valueFormatter(value) : value.toLocaleString()}`;
+        },
+        backgroundColor: 'rgba(255, 255, 255, 0.95)',
+        borderColor: '#e5e7eb',
+        borderWidth: 1,
+        textStyle: {
+          color: '#374151',
+        },
+      },
+      color: colors || [
+        '#3b82f6',
+        '#10b981',
+        '#f59e0b',
+        '#ef4444',
+        '#8b5cf6',
+        '#ec4899',
+        '#06b6d4',
+        '#84cc16',
+      ],
+      series: [
+        {
+          type: 'sunburst',
+          data,
+          radius: ['15%', '90%'],
+          // Cliquer sur un secteur recentre le graphique sur ce sous-arbre
+          nodeClick: 'rootToNode',
+          sort: undefined,
+          label: {
+            rotate: 'radial',
+            color: '#ffffff',
+            fontSize: 11,
+            minAngle: 10,
+          },
+          itemStyle: {
+            borderColor: '#fff',
+            borderWidth: 2,
+          },
+        },
+      ],
+    };
+
+    chartInstance.current.setOption(option);
+
+    // Gérer le redimensionnement
+    const handleResize = () => {
+      chartInstance.current?.resize();
+    };
+
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      chartInstance.current?.dispose();
+    };
+  }, [data, height, colors, valueFormatter]);
+
+  return (
+    <div
+      ref={chartRef}
+      style={{ height: `${height}px`, width: '100%' }}
+      className="chart-container"
+    />
+  );
+};
+
+export default SunburstChart;
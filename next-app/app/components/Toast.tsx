@@ -0,0 +1,37 @@
+'use client';
+
+import React, { useEffect } from 'react';
+
+interface ToastProps {
+  message: string;
+  onClose: () => void;
+  // Durée d'affichage avant fermeture automatique (ms)
+  duration?: number;
+}
+
+const Toast: React.FC<ToastProps> = ({ message, onClose, duration = 5000 }) => {
+  useEffect(() => {
+    const timeout = setTimeout(onClose, duration);
+    return () => clearTimeout(timeout);
+  }, [message, onClose, duration]);
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 right-6 z-50 flex items-center gap-3 px-4 py-3 rounded-lg shadow-lg bg-gray-900 text-white text-sm dark:bg-gray-700"
+    >
+      <span>{message}</span>
+      <button
+        onClick={onClose}
+        className="text-gray-400 hover:text-white"
+        title="Fermer"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+export default Toast;
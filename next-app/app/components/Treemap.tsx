@@ -3,9 +3,11 @@
 import React, { useEffect, useRef } from 'react';
 import * as echarts from 'echarts';
 
-interface TreemapData {
+export interface TreemapData {
   name: string;
   value: number;
+  // Sous-niveaux : navigation par clic (zoom) et fil d'Ariane
+  children?: TreemapData[];
 }
 
 interface TreemapProps {
@@ -13,13 +15,27 @@ interface TreemapProps {
   title?: string;
   height?: number;
   colors?: string[];
+  // Formatage des valeurs (par defaut : nombre de fichiers dans l'infobulle, nombre brut dans les libelles)
+  valueFormatter?: (value: number) => string;
+  // Nombre de niveaux affiches a la fois pour les donnees imbriquees
+  leafDepth?: number;
 }
 
+// Conversion recursive pour echarts (les enfants vides sont omis)
+const toSeriesData = (items: TreemapData[]): echarts.TreemapSeriesOption['data'] =>
+  items.map(item => ({
+    name: item.name,
+    value: item.value,
+    children: item.children && item.children.length > 0 ? toSeriesData(item.children) : undefined,
+  }));
+
 const Treemap: React.FC<TreemapProps> = ({
   data,
   title,
   height = 400,
   colors,
+  valueFormatter,
+  leafDepth = 1,
 }) => {
   const chartRef = useRef<HTMLDivElement>(null);
   const chartInstance = useRef<echarts.ECharts | null>(null);
@@ -31,16 +47,19 @@ const Treemap: React.FC<TreemapProps> = ({
     chartInstance.current = echarts.init(chartRef.current);
 
     // Transform data for treemap
-    const treemapData = data.map(item => ({
-      name: item.name,
-      value: item.value,
-    }));
+    const treemapData = toSeriesData(data);
+    const isNested = data.some(item => item.children && item.children.length > 0);
 
     const option: echarts.EChartsOption = {
       tooltip: {
         trigger: 'item',
         formatter: (params: any) => {
-          return `${params.name}: ${params.value?.toLocaleString() || 0} fichiers`;
+          // Chemin complet du noeud pour les donnees imbriquees
+          const path = isNested && Array.isArray(params.treePathInfo)
+            ? (params.treePathInfo as { name: string }[]).slice(1).map(info => info.name).join(' / ')
+            : params.name;
+          const value = params.value || 0;
+          return `${path}: ${valueFormatter ? valueFormatter(value) : `${value.toLocaleString()} fichiers`}`;
         },
         backgroundColor: 'rgba(255, 255, 255, 0.95)',
         borderColor: '#e5e7eb',
@@ -57,10 +76,12 @@ const Treemap: React.FC<TreemapProps> = ({
           height: '90%',
           top: '5%',
           bottom: '5%',
+          leafDepth: isNested ? leafDepth : undefined,
           label: {
             show: true,
             formatter: (params: any) => {
-              return `${params.name}\n(${params.value?.toLocaleString() || 0})`;
+              const value = params.value || 0;
+              return `${params.name}\n(${valueFormatter ? valueFormatter(value) : value.toLocaleString()})`;
             },
             color: '#ffffff',
             fontSize: 12,
@@ -131,7 +152,7 @@ const Treemap: React.FC<TreemapProps> = ({
       window.removeEventListener('resize', handleResize);
       chartInstance.current?.dispose();
     };
-  }, [data, title, height, colors]);
+  }, [data, title, height, colors, valueFormatter, leafDepth]);
 
   return (
     <div
@@ -1,8 +1,13 @@
 'use client';
 
 import React, { useState, useMemo } from 'react';
-import { UsageReportEntry } from '../types';
+import { RunTablesDescriptor, UsageInclusionRule, UsageReportEntry, UsageReportMergeStats } from '../types';
 import KPICard from './KPICard';
+import FinancialSummary from './FinancialSummary';
+import InclusionRuleSelector from './InclusionRuleSelector';
+import RunDetailsPanel from './RunDetailsPanel';
+import { getAppConfig } from '../lib/AppConfig';
+import { dataProcessor } from '../lib/DataProcessor';
 import ChartCard from './ChartCard';
 import PieChart from './PieChart';
 import BarChart from './BarChart';
@@ -34,12 +39,63 @@ const LightningIcon = () => (
 
 interface UsageDashboardProps {
   data: UsageReportEntry[];
+  // Lignes avant application de la règle d'inclusion
+  rawData?: UsageReportEntry[];
+  // Fusion des snapshots usage-report par exécution
+  mergeStats?: UsageReportMergeStats | null;
+  inclusionRule?: UsageInclusionRule;
+  onInclusionRuleChange?: (rule: UsageInclusionRule) => void;
+  // Repository filtré (null : tous) ; sans ce prop, le filtre reste local au composant
+  repositoryFilter?: string | null;
+  onRepositoryFilterChange?: (repository: string | null) => void;
+  // Exécutions dont les tables sont déclarées dans le manifest
+  declaredRuns?: RunTablesDescriptor[];
   isLoading?: boolean;
 }
 
-const UsageDashboard: React.FC<UsageDashboardProps> = ({ data, isLoading = false }) => {
-  const [selectedRepo, setSelectedRepo] = useState<string>('all');
+const UsageDashboard: React.FC<UsageDashboardProps> = ({
+  data,
+  rawData,
+  mergeStats,
+  inclusionRule,
+  onInclusionRuleChange,
+  repositoryFilter,
+  onRepositoryFilterChange,
+  declaredRuns = [],
+  isLoading = false,
+}) => {
+  const [localRepositoryFilter, setLocalRepositoryFilter] = useState<string | null>(null);
+  const repository = repositoryFilter !== undefined ? repositoryFilter : localRepositoryFilter;
+  // Un repository absent des données (filtre de config.json, autre jeu de données) revient à tous
+  const selectedRepo = repository && data.some(entry => entry.repositoryPath === repository) ? repository : 'all';
+  const setSelectedRepo = (value: string) => {
+    const next = value === 'all' ? null : value;
+    setLocalRepositoryFilter(next);
+    onRepositoryFilterChange?.(next);
+  };
   const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
+  // Exécution dont les fichiers et statistiques de recettes sont affichés
+  const [openedRun, setOpenedRun] = useState<UsageReportEntry | null>(null);
+  const runDetailsRef = React.useRef<HTMLDivElement>(null);
+
+  const declaredRunKeys = useMemo(
+    () => new Set(declaredRuns.map(run => `${run.runId}::${run.repositoryPath}`)),
+    [declaredRuns]
+  );
+
+  const isOpenedRun = (entry: UsageReportEntry): boolean =>
+    openedRun !== null && openedRun.runId === entry.runId && openedRun.repositoryPath === entry.repositoryPath;
+
+  const handleOpenRun = (entry: UsageReportEntry) => {
+    setOpenedRun(isOpenedRun(entry) ? null : entry);
+  };
+
+  // Amener le détail de l'exécution à l'écran
+  React.useEffect(() => {
+    if (openedRun) {
+      runDetailsRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  }, [openedRun]);
 
   const getRowSelectionId = React.useCallback(
     (entry: UsageReportEntry): string =>
@@ -47,10 +103,21 @@ const UsageDashboard: React.FC<UsageDashboardProps> = ({ data, isLoading = false
     [],
   );
 
-  // Initialize selectedRows with all runIds when data changes
+  // Lignes déjà connues : la sélection de l'utilisateur est conservée quand des données s'ajoutent
+  const knownRowIdsRef = React.useRef<Set<string>>(new Set());
+
+  // Sélectionner les nouvelles lignes quand les données changent, sans toucher aux lignes existantes
   React.useEffect(() => {
-    const allRowIds = new Set(data.map(getRowSelectionId));
-    setSelectedRows(allRowIds);
+    const rowIds = data.map(getRowSelectionId);
+    const currentRowIds = new Set(rowIds);
+    const knownRowIds = knownRowIdsRef.current;
+
+    setSelectedRows(prev => {
+      const updatedSelection = new Set(Array.from(prev).filter(rowId => currentRowIds.has(rowId)));
+      rowIds.filter(rowId => !knownRowIds.has(rowId)).forEach(rowId => updatedSelection.add(rowId));
+      return updatedSelection;
+    });
+    knownRowIdsRef.current = currentRowIds;
   }, [data, getRowSelectionId]);
 
   // Handle select all
@@ -138,6 +205,9 @@ const UsageDashboard: React.FC<UsageDashboardProps> = ({ data, isLoading = false
     };
   }, [selectedEntries]);
 
+  // Valorisation financiere, au taux horaire de chaque repository / equipe
+  const financial = useMemo(() => dataProcessor.calculateUsageFinancialMetrics(selectedEntries), [selectedEntries]);
+
   // Preparer les donnees pour le graphique camembert (fichiers modifies par repository)
   const filesByRepoData = useMemo(() => {
     const repoFilesMap = new Map<string, number>();
@@ -187,7 +257,7 @@ const UsageDashboard: React.FC<UsageDashboardProps> = ({ data, isLoading = false
   // Formater la date
   const formatDate = (dateStr: string): string => {
     try {
-      return new Date(dateStr).toLocaleDateString('fr-FR', {
+      return new Date(dateStr).toLocaleDateString(getAppConfig().locale, {
         year: 'numeric',
         month: 'short',
         day: 'numeric',
@@ -226,7 +296,26 @@ const UsageDashboard: React.FC<UsageDashboardProps> = ({ data, isLoading = false
               </option>
             ))}
           </select>
+          {mergeStats && (
+            <span
+              className="ml-auto text-sm text-gray-500 dark:text-gray-400"
+              title="Une execution presente dans plusieurs snapshots n'est comptee qu'une fois (version la plus recente)"
+            >
+              {mergeStats.mergedCount} executions distinctes / {mergeStats.rawCount} lignes brutes
+              ({mergeStats.snapshotCount} snapshot(s))
+            </span>
+          )}
         </div>
+        {inclusionRule && onInclusionRuleChange && (
+          <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <InclusionRuleSelector
+              rule={inclusionRule}
+              onChange={onInclusionRuleChange}
+              entries={rawData ?? data}
+              includedCount={data.length}
+            />
+          </div>
+        )}
       </div>
 
       {/* Cartes KPI */}
@@ -257,6 +346,8 @@ const UsageDashboard: React.FC<UsageDashboardProps> = ({ data, isLoading = false
         />
       </div>
 
+      <FinancialSummary financial={financial} source="usage report" />
+
       {/* Graphique camembert */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <ChartCard
@@ -367,12 +458,20 @@ const UsageDashboard: React.FC<UsageDashboardProps> = ({ data, isLoading = false
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                   Runtime
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Snapshots
+                </th>
               </tr>
             </thead>
             <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
               {displayedData.map((row, index) => (
-                <tr key={index} className="hover:bg-gray-50 dark:hover:bg-gray-700">
-                  <td className="px-4 py-4 whitespace-nowrap">
+                <tr
+                  key={index}
+                  onClick={() => handleOpenRun(row)}
+                  title="Afficher les fichiers et recettes de cette execution"
+                  className={`cursor-pointer ${isOpenedRun(row) ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                >
+                  <td className="px-4 py-4 whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
                     <input
                       type="checkbox"
                       checked={selectedRows.has(getRowSelectionId(row))}
@@ -384,6 +483,12 @@ const UsageDashboard: React.FC<UsageDashboardProps> = ({ data, isLoading = false
                     {formatDate(row.recipeRunCreatedAt)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400 max-w-xs truncate">
+                    {declaredRunKeys.has(`${row.runId}::${row.repositoryPath}`) && (
+                      <span
+                        className="inline-block w-2 h-2 mr-2 rounded-full bg-blue-500"
+                        title="Tables declarees dans le manifest"
+                      />
+                    )}
                     {row.recipeId}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400 max-w-xs truncate">
@@ -413,6 +518,12 @@ const UsageDashboard: React.FC<UsageDashboardProps> = ({ data, isLoading = false
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                     {Math.round(row.recipeRunInMilliseconds / 1000)}s
                   </td>
+                  <td
+                    className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400"
+                    title={row.snapshots?.map((file) => file.split('/').pop()).join('\n')}
+                  >
+                    {row.snapshots?.length ?? 1}
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -428,6 +539,13 @@ const UsageDashboard: React.FC<UsageDashboardProps> = ({ data, isLoading = false
           </div>
         )}
       </ChartCard>
+
+      {/* Fichiers et statistiques de recettes de l'exécution sélectionnée */}
+      {openedRun && (
+        <div ref={runDetailsRef}>
+          <RunDetailsPanel run={openedRun} onClose={() => setOpenedRun(null)} />
+        </div>
+      )}
     </div>
   );
 };
@@ -2,15 +2,29 @@
 export { default as KPICard } from './KPICard';
 export { default as Tabs, type TabItem } from './Tabs';
 export { default as ChartCard } from './ChartCard';
+export { default as FileDropZone } from './FileDropZone';
+export { default as LoadingProgress } from './LoadingProgress';
+export { default as Toast } from './Toast';
+export { default as DiagnosticsPanel, hasDiagnosticIssues } from './DiagnosticsPanel';
 
 // Composants de graphiques (utilisant echarts)
 export { default as PieChart } from './PieChart';
 export { default as BarChart } from './BarChart';
+export { default as SunburstChart } from './SunburstChart';
 
 // Composants pour l'onglet Usage
 export { default as UsageDashboard } from './UsageDashboard';
+export { default as InclusionRuleSelector } from './InclusionRuleSelector';
+export { default as StatsScopeSelector } from './StatsScopeSelector';
+export { default as RunDetailsPanel } from './RunDetailsPanel';
+export { default as FinancialSummary } from './FinancialSummary';
 
 // Composants pour les autres onglets
 export { default as OverviewTab } from './OverviewTab';
+export { default as ChangeTypeRulesEditor } from './ChangeTypeRulesEditor';
 export { default as FilesTab } from './FilesTab';
+export { default as FileTimelineTable } from './FileTimelineTable';
+export { default as DirectoryTreeTable } from './DirectoryTreeTable';
 export { default as RecipesTab } from './RecipesTab';
+export { default as DataTablesTab } from './DataTablesTab';
+export { default as SnapshotDiffTab } from './SnapshotDiffTab';
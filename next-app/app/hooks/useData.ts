@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { 
   RecipeRunStats, 
   SourceFileResults, 
@@ -8,10 +8,48 @@ import {
   ROIMetrics,
   RecipePerformanceMetrics,
   ChangeTypeAggregation,
-  RecipeHierarchy 
+  RecipeHierarchy,
+  LocalDataset,
+  LocalDataMode,
+  FileLoadProgress,
+  GenericDataTable,
+  DatasetDescriptor,
+  LocalImportResult,
+  FileDiagnostics,
+  UsageInclusionRule,
+  UsageReportMergeStats,
+  UsageSnapshotDiff,
+  AppConfig,
+  RunTables,
+  RunTablesDescriptor,
+  RecipeStatsScope,
+  ChangeTypeTaxonomy,
+  FileChangeTimeline,
+  DirectoryRollup
 } from '../types';
 import { dataLoader, DataLoader } from '../lib/DataLoader';
-import { dataProcessor, DataProcessor } from '../lib/DataProcessor';
+import { dataProcessor, DataProcessor, DEFAULT_USAGE_INCLUSION_RULE, USAGE_INCLUSION_PRESETS } from '../lib/DataProcessor';
+import { dataWorkerClient, isAbortError } from '../lib/DataWorkerClient';
+import { DataSource } from '../lib/DataSource';
+import { getAppConfig, loadAppConfig } from '../lib/AppConfig';
+import { loadFileChangeTypeTaxonomy, readSavedChangeTypeTaxonomy, saveChangeTypeTaxonomy } from '../lib/ChangeTypeTaxonomy';
+import { AggregationOperation, AggregationOptions, AggregationResults } from '../workers/protocol';
+
+// Intervalle de consultation du manifest en mode live
+const LIVE_POLL_INTERVAL_MS = 30000;
+
+// Snapshots attribués aux lignes usage-report qui n'indiquent pas leur fichier d'origine
+const BUNDLED_SNAPSHOT_LABEL = 'donnees chargees';
+const LOCAL_SNAPSHOT_LABEL = 'fichiers importes';
+
+/**
+ * Nouvelles exécutions chargées par le mode live
+ */
+export interface LiveUpdate {
+  newRunCount: number;
+  files: string[];
+  loadedAt: number;
+}
 
 /**
  * État de chargement des données
@@ -24,8 +62,9 @@ export interface UseDataState<T> {
 
 /**
  * Hook pour charger et traiter les données OpenRewrite
+ * Sans dataSource, la source est choisie d'après l'URL et config.json (voir DataLoader.getDataSource)
  */
-export function useData() {
+export function useData(dataSource?: DataSource) {
   const [recipeStats, setRecipeStats] = useState<UseDataState<RecipeRunStats[]>>({
     data: null,
     isLoading: true,
@@ -44,46 +83,362 @@ export function useData() {
     error: null
   });
 
-  const loadData = useCallback(async () => {
-    // Clear cache and reset loading states
-    dataLoader.clearCache();
-    setRecipeStats(prev => ({ ...prev, isLoading: true, error: null }));
-    setSourceResults(prev => ({ ...prev, isLoading: true, error: null }));
-    setUsageReport(prev => ({ ...prev, isLoading: true, error: null }));
+  const [localSession, setLocalSession] = useState<LocalDataset | null>(null);
+  const [localMode, setLocalMode] = useState<LocalDataMode>('merge');
+
+  // Règle d'inclusion des lignes d'usage report (par défaut : celle de config.json)
+  const [inclusionRule, setInclusionRule] = useState<UsageInclusionRule>(DEFAULT_USAGE_INCLUSION_RULE);
+  // Règle courante, lue par le mode live sans relancer son intervalle
+  const inclusionRuleRef = useRef(inclusionRule);
+  inclusionRuleRef.current = inclusionRule;
+  // Repository filtré dans l'onglet usage (null : tous), présélectionné par config.json
+  const [repositoryFilter, setRepositoryFilter] = useState<string | null>(null);
+  const defaultFiltersAppliedRef = useRef(false);
+
+  // Jeux de données déclarés dans le manifest et jeu de données affiché
+  const [datasets, setDatasets] = useState<DatasetDescriptor[]>([]);
+  // Source des fichiers, connue après le premier chargement (côté navigateur)
+  const [activeSource, setActiveSource] = useState<DataSource | null>(null);
+  const [activeDatasetId, setActiveDatasetId] = useState<string | null>(null);
+  // Exécutions dont les tables sont déclarées dans le manifest (clé runs)
+  const [declaredRuns, setDeclaredRuns] = useState<RunTablesDescriptor[]>([]);
+  // Tables chargées de ces exécutions, et périmètre choisi (null : la flotte si elle existe)
+  const [fleetRuns, setFleetRuns] = useState<RunTables[]>([]);
+  const [selectedStatsScope, setStatsScope] = useState<RecipeStatsScope | null>(null);
+
+  // Progression du chargement par fichier
+  const [progress, setProgress] = useState<Record<string, FileLoadProgress>>({});
+  // Bilan de chargement des fichiers du jeu de données actif
+  const [fileDiagnostics, setFileDiagnostics] = useState<FileDiagnostics[]>([]);
+  // Fusion des snapshots usage-report (lignes brutes / exécutions distinctes)
+  const [usageMergeStats, setUsageMergeStats] = useState<UsageReportMergeStats | null>(null);
+
+  // Mode live : consultation périodique du manifest et ajout des nouveaux usage reports
+  const [liveMode, setLiveMode] = useState(false);
+  const [liveUpdate, setLiveUpdate] = useState<LiveUpdate | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const handleProgress = useCallback((fileProgress: FileLoadProgress) => {
+    setProgress(prev => ({ ...prev, [fileProgress.file]: fileProgress }));
+  }, []);
+
+  /**
+   * Charge les données du jeu de données actif
+   * En arrière-plan (background), les données affichées restent en place jusqu'à l'arrivée des nouvelles :
+   * ni écran de chargement, ni remise à zéro des onglets et des filtres
+   */
+  const loadData = useCallback(async (clearCache: boolean, background: boolean = false) => {
+    // Annuler un chargement encore en cours
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    // Le cache est isolé par jeu de données : il n'est vidé que sur rechargement explicite
+    if (clearCache) {
+      dataLoader.clearCache();
+    }
+    if (!background) {
+      setProgress({});
+      setRecipeStats(prev => ({ ...prev, isLoading: true, error: null }));
+      setSourceResults(prev => ({ ...prev, isLoading: true, error: null }));
+      setUsageReport(prev => ({ ...prev, isLoading: true, error: null }));
+    }
+
+    const options = { signal: controller.signal, onProgress: background ? undefined : handleProgress };
 
     try {
+      const config = await loadAppConfig();
+      // Les filtres de config.json ne s'appliquent qu'à l'ouverture, pas aux rechargements
+      if (!defaultFiltersAppliedRef.current) {
+        defaultFiltersAppliedRef.current = true;
+        setInclusionRule(USAGE_INCLUSION_PRESETS[config.defaultFilters.inclusionPreset].rule);
+        setRepositoryFilter(config.defaultFilters.repository);
+      }
+      setActiveSource(await dataLoader.getDataSource());
+      const manifest = await dataLoader.getManifest();
+      const dataset = await dataLoader.getActiveDataset();
+      setDatasets(manifest.datasets);
+      setDeclaredRuns(manifest.runs);
+      setActiveDatasetId(dataset.id);
+
       // Load all data in parallel
-      const [stats, results, report] = await Promise.all([
-        dataLoader.loadRecipeRunStats(),
-        dataLoader.loadSourceFileResults(),
-        dataLoader.loadAllUsageReports()
+      const [stats, results, report, fleet] = await Promise.all([
+        dataLoader.loadRecipeRunStats(undefined, options),
+        dataLoader.loadSourceFileResults(undefined, options),
+        dataLoader.loadAllUsageReports(options),
+        manifest.runs.length > 0 ? dataLoader.loadFleetTables(options) : Promise.resolve([])
       ]);
 
       setRecipeStats({ data: stats, isLoading: false, error: null });
       setSourceResults({ data: results, isLoading: false, error: null });
       setUsageReport({ data: report, isLoading: false, error: null });
+      setFleetRuns(fleet);
+      setUsageMergeStats(await dataLoader.getUsageReportMergeStats());
     } catch (error) {
+      // Un chargement annulé au profit d'un nouveau ne doit pas modifier l'état
+      if (abortControllerRef.current !== controller) return;
+
+      if (isAbortError(error)) {
+        // Annulation par l'utilisateur : les données précédentes sont conservées
+        setRecipeStats(prev => ({ ...prev, isLoading: false }));
+        setSourceResults(prev => ({ ...prev, isLoading: false }));
+        setUsageReport(prev => ({ ...prev, isLoading: false }));
+        return;
+      }
+
+      if (background) {
+        // Rafraîchissement en arrière-plan : les données déjà affichées restent valables
+        console.warn('Rafraichissement des donnees impossible, donnees affichees conservees:', error);
+        return;
+      }
+
       const errorObj = error instanceof Error ? error : new Error(String(error));
       setRecipeStats(prev => ({ ...prev, isLoading: false, error: errorObj }));
       setSourceResults(prev => ({ ...prev, isLoading: false, error: errorObj }));
       setUsageReport(prev => ({ ...prev, isLoading: false, error: errorObj }));
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        // Renseigné aussi en cas d'échec : c'est là que le bilan est le plus utile
+        setFileDiagnostics(await dataLoader.getDiagnostics());
+      }
     }
+  }, [handleProgress]);
+
+  /**
+   * Annule le chargement en cours
+   */
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
   }, []);
 
   useEffect(() => {
-    loadData();
+    if (dataSource) {
+      dataLoader.setDataSource(dataSource);
+    }
+    loadData(false);
+    return () => abortControllerRef.current?.abort();
+  }, [loadData, dataSource]);
+
+  // Données servies par le cache persistant puis modifiées sur le serveur : rafraîchir l'affichage en place
+  // (un chargement en cours est relancé tel quel, avec son écran de progression)
+  useEffect(() => dataLoader.onRevalidated(() => {
+    loadData(false, abortControllerRef.current === null);
+  }), [loadData]);
+
+  // Mode live : seuls les nouveaux usage reports sont chargés, l'état affiché n'est pas réinitialisé
+  useEffect(() => {
+    if (!liveMode) return;
+
+    let controller: AbortController | null = null;
+    const poll = async () => {
+      // Un chargement complet est en cours : il inclura les nouveaux fichiers
+      if (abortControllerRef.current || controller) return;
+      controller = new AbortController();
+
+      try {
+        const result = await dataLoader.loadNewUsageReports(inclusionRuleRef.current, { signal: controller.signal });
+        if (result.files.length === 0) return;
+
+        const manifest = await dataLoader.getManifest();
+        setDatasets(manifest.datasets);
+        setUsageReport({ data: result.usageReport, isLoading: false, error: null });
+        setUsageMergeStats(await dataLoader.getUsageReportMergeStats());
+        setFileDiagnostics(await dataLoader.getDiagnostics());
+        setLiveUpdate({ newRunCount: result.newRunCount, files: result.files, loadedAt: Date.now() });
+      } catch (error) {
+        if (!isAbortError(error)) {
+          console.warn('Mode live : consultation du manifest impossible', error);
+        }
+      } finally {
+        controller = null;
+      }
+    };
+
+    const interval = setInterval(poll, LIVE_POLL_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      controller?.abort();
+    };
+  }, [liveMode]);
+
+  const dismissLiveUpdate = useCallback(() => setLiveUpdate(null), []);
+
+  /**
+   * Recharge les données en vidant le cache
+   */
+  const reload = useCallback(() => loadData(true), [loadData]);
+
+  /**
+   * Affiche un autre jeu de données du manifest
+   */
+  const selectDataset = useCallback((datasetId: string) => {
+    dataLoader.setActiveDataset(datasetId);
+    loadData(false);
   }, [loadData]);
 
+  /**
+   * Importe des fichiers locaux : les CSV s'ajoutent à la session locale déjà chargée,
+   * chaque exécution d'une archive ZIP devient un jeu de données sélectionnable
+   */
+  const loadLocalFiles = useCallback(async (files: File[]): Promise<LocalImportResult> => {
+    const isZip = (file: File) => file.name.toLowerCase().endsWith('.zip');
+    const csvFiles = files.filter(file => !isZip(file));
+
+    let runs: DatasetDescriptor[] = [];
+    for (const archive of files.filter(isZip)) {
+      runs = runs.concat(await dataLoader.importZipArchive(archive, { onProgress: handleProgress }));
+    }
+    if (runs.length > 0) {
+      // Afficher la première exécution importée ; les autres restent accessibles dans l'en-tête
+      selectDataset(runs[0].id);
+    }
+
+    if (csvFiles.length === 0) {
+      return { dataset: null, runs };
+    }
+
+    const dataset = await dataLoader.loadLocalFiles(csvFiles, { onProgress: handleProgress });
+    setLocalSession(prev => prev
+      ? {
+          recipeStats: [...prev.recipeStats, ...dataset.recipeStats],
+          sourceResults: [...prev.sourceResults, ...dataset.sourceResults],
+          usageReport: [...prev.usageReport, ...dataset.usageReport],
+          dataTables: [...prev.dataTables, ...dataset.dataTables],
+          files: [...prev.files, ...dataset.files]
+        }
+      : dataset);
+    return { dataset, runs };
+  }, [handleProgress, selectDataset]);
+
+  const clearLocalSession = useCallback(() => {
+    setLocalSession(null);
+  }, []);
+
+  // Combiner les données embarquées et la session locale selon le mode choisi
+  const combined = useMemo(() => {
+    if (!localSession) {
+      return {
+        recipeStats: recipeStats.data,
+        sourceResults: sourceResults.data,
+        usageReport: usageReport.data
+      };
+    }
+
+    // Les usage reports importés sont fusionnés par exécution avec les snapshots déjà chargés :
+    // une exécution présente des deux côtés n'est comptée qu'une fois
+    const localSnapshot = { file: LOCAL_SNAPSHOT_LABEL, order: 1, entries: localSession.usageReport };
+
+    if (localMode === 'replace') {
+      return {
+        recipeStats: localSession.recipeStats,
+        sourceResults: localSession.sourceResults,
+        usageReport: dataProcessor.mergeUsageSnapshots([localSnapshot])
+      };
+    }
+
+    return {
+      recipeStats: [...(recipeStats.data || []), ...localSession.recipeStats],
+      sourceResults: [...(sourceResults.data || []), ...localSession.sourceResults],
+      usageReport: dataProcessor.mergeUsageSnapshots([
+        { file: BUNDLED_SNAPSHOT_LABEL, order: 0, entries: usageReport.data || [] },
+        localSnapshot
+      ])
+    };
+  }, [recipeStats.data, sourceResults.data, usageReport.data, localSession, localMode]);
+
+  // Bilan de fusion incluant les usage reports importés
+  const combinedMergeStats = useMemo<UsageReportMergeStats | null>(() => {
+    if (!localSession || !combined.usageReport) return usageMergeStats;
+
+    const localSnapshotCount = localSession.files.filter(file => file.kind === 'usageReport').length;
+    const loaded = localMode === 'merge' ? usageMergeStats : null;
+    return {
+      snapshotCount: (loaded?.snapshotCount ?? 0) + localSnapshotCount,
+      rawCount: (loaded?.rawCount ?? 0) + localSession.usageReport.length,
+      mergedCount: combined.usageReport.length
+    };
+  }, [usageMergeStats, localSession, localMode, combined.usageReport]);
+
+  // Repositories dont au moins une exécution a des tables rattachées
+  const fleetRepositories = useMemo(
+    () => Array.from(new Set(fleetRuns.map(run => run.repositoryPath))).sort(),
+    [fleetRuns]
+  );
+
+  // Un repository absent de la flotte (autre manifest) ramène au périmètre automatique
+  const statsScope = useMemo<RecipeStatsScope>(() => {
+    const automatic: RecipeStatsScope = fleetRuns.length > 0 ? { kind: 'fleet' } : { kind: 'dataset' };
+    if (selectedStatsScope?.kind === 'repository' && !fleetRepositories.includes(selectedStatsScope.repositoryPath)) {
+      return automatic;
+    }
+    return selectedStatsScope ?? automatic;
+  }, [selectedStatsScope, fleetRepositories, fleetRuns]);
+
+  // Statistiques de recettes et fichiers du périmètre : la session locale ne concerne que le jeu de données
+  const scopedRunTables = useMemo(
+    () => dataProcessor.selectScopedRunTables(fleetRuns, statsScope),
+    [fleetRuns, statsScope]
+  );
+  const scoped = scopedRunTables ?? combined;
+
+  const includedUsageReport = useMemo(
+    () => combined.usageReport ? dataProcessor.applyInclusionRule(combined.usageReport, inclusionRule) : null,
+    [combined.usageReport, inclusionRule]
+  );
+
+  // Bilan de chargement complété des exécutions écartées par la règle d'inclusion, fichier par fichier
+  const diagnostics = useMemo(() => {
+    const files = localSession
+      ? fileDiagnostics.concat(localSession.files.map(file => file.diagnostics))
+      : fileDiagnostics;
+    const exclusions = combined.usageReport
+      ? dataProcessor.countInclusionExclusions(combined.usageReport, inclusionRule)
+      : {};
+    return files.map(file => file.kind === 'usageReport'
+      ? { ...file, excludedByRule: exclusions[file.file] ?? 0 }
+      : file);
+  }, [fileDiagnostics, localSession, combined.usageReport, inclusionRule]);
+
   const isLoading = recipeStats.isLoading || sourceResults.isLoading || usageReport.isLoading;
   const error = recipeStats.error || sourceResults.error || usageReport.error;
 
   return {
-    recipeStats: recipeStats.data,
-    sourceResults: sourceResults.data,
-    usageReport: usageReport.data,
+    recipeStats: scoped.recipeStats,
+    sourceResults: scoped.sourceResults,
+    // Exécutions du périmètre (null : jeu de données), pour le taux horaire par repository
+    scopedRuns: scopedRunTables?.runs ?? null,
+    usageReport: includedUsageReport,
+    rawUsageReport: combined.usageReport,
+    usageMergeStats: combinedMergeStats,
+    inclusionRule,
+    setInclusionRule,
+    repositoryFilter,
+    setRepositoryFilter,
+    liveMode,
+    setLiveMode,
+    liveUpdate,
+    dismissLiveUpdate,
     isLoading,
     error,
-    reload: loadData
+    progress,
+    diagnostics,
+    reload,
+    cancel,
+    dataSource: activeSource,
+    datasets,
+    activeDatasetId,
+    declaredRuns,
+    fleetRepositories,
+    fleetRunCount: fleetRuns.length,
+    statsScope,
+    setStatsScope,
+    selectDataset,
+    localSession,
+    localMode,
+    setLocalMode,
+    loadLocalFiles,
+    clearLocalSession
   };
 }
 
@@ -92,7 +447,8 @@ export function useData() {
  */
 export function useROIMetrics(
   recipeStats: RecipeRunStats[] | null, 
-  sourceResults: SourceFileResults[] | null
+  sourceResults: SourceFileResults[] | null,
+  runs: RunTables[] | null = null
 ): UseDataState<ROIMetrics> {
   const [state, setState] = useState<UseDataState<ROIMetrics>>({
     data: null,
@@ -107,7 +463,7 @@ export function useROIMetrics(
     }
 
     try {
-      const metrics = dataProcessor.calculateROIMetrics(recipeStats, sourceResults);
+      const metrics = dataProcessor.calculateROIMetrics(recipeStats, sourceResults, runs);
       setState({ data: metrics, isLoading: false, error: null });
     } catch (error) {
       setState({ 
@@ -116,11 +472,40 @@ export function useROIMetrics(
         error: error instanceof Error ? error : new Error(String(error)) 
       });
     }
-  }, [recipeStats, sourceResults]);
+  }, [recipeStats, sourceResults, runs]);
 
   return state;
 }
 
+/**
+ * Lance une agrégation dans le worker et met à jour l'état du hook
+ * Retourne la fonction de nettoyage de l'effet, qui annule le calcul devenu obsolète
+ */
+function runInWorker<O extends AggregationOperation>(
+  operation: O,
+  recipeStats: RecipeRunStats[],
+  sourceResults: SourceFileResults[],
+  setState: (state: UseDataState<AggregationResults[O]>) => void,
+  aggregationOptions: AggregationOptions = {}
+): () => void {
+  const controller = new AbortController();
+  setState({ data: null, isLoading: true, error: null });
+
+  dataWorkerClient
+    .aggregate(operation, recipeStats, sourceResults, aggregationOptions, { signal: controller.signal })
+    .then(data => setState({ data, isLoading: false, error: null }))
+    .catch(error => {
+      if (isAbortError(error)) return;
+      setState({
+        data: null,
+        isLoading: false,
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+    });
+
+  return () => controller.abort();
+}
+
 /**
  * Hook pour enrichir les statistiques des recettes
  */
@@ -140,16 +525,7 @@ export function useEnrichedRecipeStats(
       return;
     }
 
-    try {
-      const enriched = dataProcessor.enrichRecipeStats(recipeStats, sourceResults);
-      setState({ data: enriched, isLoading: false, error: null });
-    } catch (error) {
-      setState({ 
-        data: null, 
-        isLoading: false, 
-        error: error instanceof Error ? error : new Error(String(error)) 
-      });
-    }
+    return runInWorker('enrichRecipeStats', recipeStats, sourceResults, setState);
   }, [recipeStats, sourceResults]);
 
   return state;
@@ -160,7 +536,8 @@ export function useEnrichedRecipeStats(
  */
 export function useChangeTypeAggregation(
   recipeStats: RecipeRunStats[] | null, 
-  sourceResults: SourceFileResults[] | null
+  sourceResults: SourceFileResults[] | null,
+  taxonomy: ChangeTypeTaxonomy | null
 ): UseDataState<ChangeTypeAggregation[]> {
   const [state, setState] = useState<UseDataState<ChangeTypeAggregation[]>>({
     data: null,
@@ -173,18 +550,59 @@ export function useChangeTypeAggregation(
       setState({ data: null, isLoading: false, error: null });
       return;
     }
+    // Attente du chargement de la taxonomie
+    if (!taxonomy) return;
 
-    try {
-      const aggregation = dataProcessor.aggregateByChangeType(recipeStats, sourceResults);
-      setState({ data: aggregation, isLoading: false, error: null });
-    } catch (error) {
-      setState({ 
-        data: null, 
-        isLoading: false, 
-        error: error instanceof Error ? error : new Error(String(error)) 
-      });
+    return runInWorker('aggregateByChangeType', recipeStats, sourceResults, setState, { changeTypes: taxonomy });
+  }, [recipeStats, sourceResults, taxonomy]);
+
+  return state;
+}
+
+/**
+ * Hook pour regrouper les changements par fichier (chronologie, renommages)
+ */
+export function useFileTimelines(
+  sourceResults: SourceFileResults[] | null
+): UseDataState<FileChangeTimeline[]> {
+  const [state, setState] = useState<UseDataState<FileChangeTimeline[]>>({
+    data: null,
+    isLoading: true,
+    error: null
+  });
+
+  useEffect(() => {
+    if (!sourceResults) {
+      setState({ data: null, isLoading: false, error: null });
+      return;
     }
-  }, [recipeStats, sourceResults]);
+
+    return runInWorker('buildFileTimelines', [], sourceResults, setState);
+  }, [sourceResults]);
+
+  return state;
+}
+
+/**
+ * Hook pour regrouper les fichiers modifiés par dossier, module et source set
+ */
+export function useDirectoryRollup(
+  sourceResults: SourceFileResults[] | null
+): UseDataState<DirectoryRollup> {
+  const [state, setState] = useState<UseDataState<DirectoryRollup>>({
+    data: null,
+    isLoading: true,
+    error: null
+  });
+
+  useEffect(() => {
+    if (!sourceResults) {
+      setState({ data: null, isLoading: false, error: null });
+      return;
+    }
+
+    return runInWorker('buildDirectoryRollup', [], sourceResults, setState);
+  }, [sourceResults]);
 
   return state;
 }
@@ -266,15 +684,207 @@ export function useTimeSeries(
   return state;
 }
 
+/**
+ * Hook pour lister les tables de données déclarées dans le manifest
+ */
+export function useDataTableList(): UseDataState<string[]> {
+  const [state, setState] = useState<UseDataState<string[]>>({
+    data: null,
+    isLoading: true,
+    error: null
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    dataLoader.listDataTables()
+      .then(files => {
+        if (!cancelled) setState({ data: files, isLoading: false, error: null });
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setState({
+            data: null,
+            isLoading: false,
+            error: error instanceof Error ? error : new Error(String(error))
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return state;
+}
+
+/**
+ * Hook pour charger une table de données générique
+ * Le chargement d'une table précédente est annulé lorsque filePath change
+ */
+export function useDataTable(filePath: string | null): UseDataState<GenericDataTable> {
+  const [state, setState] = useState<UseDataState<GenericDataTable>>({
+    data: null,
+    isLoading: false,
+    error: null
+  });
+
+  useEffect(() => {
+    if (!filePath) {
+      setState({ data: null, isLoading: false, error: null });
+      return;
+    }
+
+    const controller = new AbortController();
+    setState({ data: null, isLoading: true, error: null });
+
+    dataLoader.loadDataTable(filePath, { signal: controller.signal })
+      .then(data => setState({ data, isLoading: false, error: null }))
+      .catch(error => {
+        if (isAbortError(error)) return;
+        setState({
+          data: null,
+          isLoading: false,
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      });
+
+    return () => controller.abort();
+  }, [filePath]);
+
+  return state;
+}
+
+/**
+ * Hook pour lister les snapshots usage-report du jeu de données actif
+ * datasetId ne sert qu'à relancer la liste quand le jeu de données change
+ */
+export function useUsageSnapshots(datasetId: string | null): UseDataState<string[]> {
+  const [state, setState] = useState<UseDataState<string[]>>({
+    data: null,
+    isLoading: true,
+    error: null
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    setState({ data: null, isLoading: true, error: null });
+
+    dataLoader.listUsageReports()
+      .then(files => {
+        if (!cancelled) setState({ data: files, isLoading: false, error: null });
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setState({
+            data: null,
+            isLoading: false,
+            error: error instanceof Error ? error : new Error(String(error))
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [datasetId]);
+
+  return state;
+}
+
+/**
+ * Hook pour comparer deux snapshots usage-report
+ * Les deux fichiers sont chargés sans fusion ni règle d'inclusion : chaque export est comparé tel quel
+ */
+export function useSnapshotDiff(
+  beforeFile: string | null,
+  afterFile: string | null
+): UseDataState<UsageSnapshotDiff> {
+  const [state, setState] = useState<UseDataState<UsageSnapshotDiff>>({
+    data: null,
+    isLoading: false,
+    error: null
+  });
+
+  useEffect(() => {
+    if (!beforeFile || !afterFile) {
+      setState({ data: null, isLoading: false, error: null });
+      return;
+    }
+
+    const controller = new AbortController();
+    setState({ data: null, isLoading: true, error: null });
+
+    Promise.all([
+      dataLoader.loadUsageReport(beforeFile, { signal: controller.signal }),
+      dataLoader.loadUsageReport(afterFile, { signal: controller.signal })
+    ])
+      .then(([before, after]) => setState({
+        data: dataProcessor.diffUsageSnapshots(before, after),
+        isLoading: false,
+        error: null
+      }))
+      .catch(error => {
+        if (isAbortError(error)) return;
+        setState({
+          data: null,
+          isLoading: false,
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      });
+
+    return () => controller.abort();
+  }, [beforeFile, afterFile]);
+
+  return state;
+}
+
 /**
  * Hook combiné qui retourne toutes les données et métriques calculées
  */
-export function useAllData() {
-  const { recipeStats, sourceResults, usageReport, isLoading, error, reload } = useData();
+export function useAllData(dataSource?: DataSource) {
+  const {
+    recipeStats,
+    sourceResults,
+    scopedRuns,
+    usageReport,
+    rawUsageReport,
+    usageMergeStats,
+    inclusionRule,
+    setInclusionRule,
+    repositoryFilter,
+    setRepositoryFilter,
+    liveMode,
+    setLiveMode,
+    liveUpdate,
+    dismissLiveUpdate,
+    isLoading,
+    error,
+    progress,
+    diagnostics,
+    reload,
+    cancel,
+    dataSource: activeSource,
+    datasets,
+    activeDatasetId,
+    declaredRuns,
+    fleetRepositories,
+    fleetRunCount,
+    statsScope,
+    setStatsScope,
+    selectDataset,
+    localSession,
+    localMode,
+    setLocalMode,
+    loadLocalFiles,
+    clearLocalSession
+  } = useData(dataSource);
   
-  const roiMetrics = useROIMetrics(recipeStats, sourceResults);
+  const roiMetrics = useROIMetrics(recipeStats, sourceResults, scopedRuns);
   const enrichedStats = useEnrichedRecipeStats(recipeStats, sourceResults);
-  const changeAggregation = useChangeTypeAggregation(recipeStats, sourceResults);
+  const changeTypes = useChangeTypeTaxonomy();
+  const changeAggregation = useChangeTypeAggregation(recipeStats, sourceResults, changeTypes.taxonomy);
   const hierarchy = useRecipeHierarchy(recipeStats, sourceResults);
   const timeSeries = useTimeSeries(sourceResults);
 
@@ -297,20 +907,169 @@ export function useAllData() {
     recipeStats,
     sourceResults,
     usageReport,
+    rawUsageReport,
+    usageMergeStats,
     
     // Computed metrics
     roiMetrics: roiMetrics.data,
     enrichedStats: enrichedStats.data,
     changeAggregation: changeAggregation.data,
+    changeTypes,
     hierarchy: hierarchy.data,
     timeSeries: timeSeries.data,
     
     // States
     isLoading,
     isCalculating,
+    progress,
+    diagnostics,
     error: error || calculationError,
     
+    // Source des fichiers et jeux de données du manifest
+    dataSource: activeSource,
+    datasets,
+    activeDatasetId,
+    declaredRuns,
+    fleetRepositories,
+    fleetRunCount,
+    statsScope,
+    setStatsScope,
+
+    // Session locale (fichiers importés)
+    localSession,
+    localMode,
+
+    // Règle d'inclusion des usage reports et repository filtré
+    inclusionRule,
+    repositoryFilter,
+
+    // Mode live
+    liveMode,
+    liveUpdate,
+    
     // Actions
-    reload
+    reload,
+    cancel,
+    selectDataset,
+    setInclusionRule,
+    setRepositoryFilter,
+    setLiveMode,
+    dismissLiveUpdate,
+    setLocalMode,
+    loadLocalFiles,
+    clearLocalSession
   };
 }
+
+/**
+ * Hook pour charger les tables rattachées à une exécution (runId + repositoryPath)
+ * Sans exécution sélectionnée, rien n'est chargé
+ */
+export function useRunTables(
+  runId: string | null,
+  repositoryPath: string | null
+): UseDataState<RunTables> {
+  const [state, setState] = useState<UseDataState<RunTables>>({
+    data: null,
+    isLoading: false,
+    error: null
+  });
+
+  useEffect(() => {
+    if (!runId || !repositoryPath) {
+      setState({ data: null, isLoading: false, error: null });
+      return;
+    }
+
+    const controller = new AbortController();
+    setState({ data: null, isLoading: true, error: null });
+
+    dataLoader.loadRunTables(runId, repositoryPath, { signal: controller.signal })
+      .then(data => setState({ data, isLoading: false, error: null }))
+      .catch(error => {
+        if (isAbortError(error)) return;
+        setState({
+          data: null,
+          isLoading: false,
+          error: error instanceof Error ? error : new Error(String(error))
+        });
+      });
+
+    return () => controller.abort();
+  }, [runId, repositoryPath]);
+
+  return state;
+}
+
+/**
+ * Hook exposant la configuration d'exécution (config.json)
+ * La configuration par défaut est retournée tant que le fichier n'est pas chargé
+ */
+export function useAppConfig(): AppConfig {
+  const [config, setConfig] = useState<AppConfig>(getAppConfig);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAppConfig().then(loaded => {
+      if (!cancelled) setConfig(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return config;
+}
+
+/**
+ * Taxonomie des types de changement et ses modifications
+ */
+export interface ChangeTypeTaxonomyState {
+  /** Taxonomie appliquée (null pendant le chargement) */
+  taxonomy: ChangeTypeTaxonomy | null;
+  /** La taxonomie a été modifiée dans l'interface (enregistrée dans le navigateur) */
+  isCustomized: boolean;
+  setTaxonomy: (taxonomy: ChangeTypeTaxonomy) => void;
+  /** Revient à la taxonomie de change-types.json */
+  resetTaxonomy: () => void;
+}
+
+/**
+ * Hook pour la taxonomie des types de changement : modifications enregistrées dans le navigateur,
+ * sinon change-types.json, sinon la taxonomie par défaut
+ */
+export function useChangeTypeTaxonomy(): ChangeTypeTaxonomyState {
+  const [taxonomy, setTaxonomyState] = useState<ChangeTypeTaxonomy | null>(null);
+  const [isCustomized, setIsCustomized] = useState(false);
+
+  useEffect(() => {
+    const saved = readSavedChangeTypeTaxonomy();
+    if (saved) {
+      setTaxonomyState(saved);
+      setIsCustomized(true);
+      return;
+    }
+
+    let cancelled = false;
+    loadFileChangeTypeTaxonomy().then(loaded => {
+      if (!cancelled) setTaxonomyState(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const setTaxonomy = useCallback((next: ChangeTypeTaxonomy) => {
+    saveChangeTypeTaxonomy(next);
+    setTaxonomyState(next);
+    setIsCustomized(true);
+  }, []);
+
+  const resetTaxonomy = useCallback(() => {
+    saveChangeTypeTaxonomy(null);
+    setIsCustomized(false);
+    loadFileChangeTypeTaxonomy().then(setTaxonomyState);
+  }, []);
+
+  return { taxonomy, isCustomized, setTaxonomy, resetTaxonomy };
+}
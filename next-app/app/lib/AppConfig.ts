@@ -0,0 +1,143 @@
+import { AppConfig, CostModel } from '../types';
+
+// Chemin de l'application (basePath de next.config.js), où se trouve config.json
+export const APP_BASE_PATH = process.env.NEXT_PUBLIC_BASE_PATH ?? '';
+
+/**
+ * Configuration utilisée quand config.json est absent ou incomplet
+ */
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  dataBaseUrl: null,
+  dataFiles: {
+    manifest: '/data/manifest.json',
+    recipeRunStats: 'org.openrewrite.table.RecipeRunStats.csv',
+    sourceFileResults: 'org.openrewrite.table.SourcesFileResults.csv',
+    fallbackUsageReport: null
+  },
+  defaultTab: 'usage',
+  locale: 'fr-FR',
+  currency: 'EUR',
+  defaultFilters: {
+    repository: null,
+    inclusionPreset: 'committed'
+  },
+  costModel: {
+    hourlyRate: 75,
+    computeCostPerHour: 2,
+    repositoryRates: {},
+    teamRates: {}
+  }
+};
+
+const INCLUSION_PRESETS: AppConfig['defaultFilters']['inclusionPreset'][] = ['committed', 'finished', 'all'];
+
+let configPromise: Promise<AppConfig> | null = null;
+let loadedConfig: AppConfig = DEFAULT_APP_CONFIG;
+
+/**
+ * Complète une configuration partielle avec les valeurs par défaut ; les valeurs invalides sont ignorées
+ */
+export function normalizeAppConfig(raw: unknown): AppConfig {
+  // Objet JSON (ni tableau ni null), à défaut un objet vide : chaque champ est vérifié ensuite
+  const asRecord = (value: unknown): Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+  const text = (value: unknown, fallback: string): string =>
+    typeof value === 'string' && value.trim() !== '' ? value : fallback;
+  const textOrNull = (value: unknown, fallback: string | null): string | null =>
+    value === null ? null : typeof value === 'string' && value.trim() !== '' ? value : fallback;
+
+  const nonNegative = (value: unknown, fallback: number): number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+  const rates = (value: unknown): Record<string, number> => {
+    const result: Record<string, number> = {};
+    Object.entries(asRecord(value)).forEach(([key, rate]) => {
+      if (key.trim() !== '' && typeof rate === 'number' && Number.isFinite(rate) && rate >= 0) {
+        result[key.replace(/\/+$/, '')] = rate;
+      }
+    });
+    return result;
+  };
+
+  const defaults = DEFAULT_APP_CONFIG;
+  const config = asRecord(raw);
+  const dataFiles = asRecord(config.dataFiles);
+  const defaultFilters = asRecord(config.defaultFilters);
+  const costModel = asRecord(config.costModel);
+  const inclusionPreset = INCLUSION_PRESETS.find(preset => preset === defaultFilters.inclusionPreset);
+
+  return {
+    dataBaseUrl: textOrNull(config.dataBaseUrl, defaults.dataBaseUrl),
+    dataFiles: {
+      manifest: text(dataFiles.manifest, defaults.dataFiles.manifest),
+      recipeRunStats: text(dataFiles.recipeRunStats, defaults.dataFiles.recipeRunStats),
+      sourceFileResults: text(dataFiles.sourceFileResults, defaults.dataFiles.sourceFileResults),
+      fallbackUsageReport: textOrNull(dataFiles.fallbackUsageReport, defaults.dataFiles.fallbackUsageReport)
+    },
+    defaultTab: text(config.defaultTab, defaults.defaultTab),
+    locale: text(config.locale, defaults.locale),
+    currency: text(config.currency, defaults.currency).toUpperCase(),
+    defaultFilters: {
+      repository: textOrNull(defaultFilters.repository, defaults.defaultFilters.repository),
+      inclusionPreset: inclusionPreset ?? defaults.defaultFilters.inclusionPreset
+    },
+    costModel: {
+      hourlyRate: nonNegative(costModel.hourlyRate, defaults.costModel.hourlyRate),
+      computeCostPerHour: nonNegative(costModel.computeCostPerHour, defaults.costModel.computeCostPerHour),
+      repositoryRates: rates(costModel.repositoryRates),
+      teamRates: rates(costModel.teamRates)
+    }
+  };
+}
+
+/**
+ * Taux horaire applicable à un repository : taux du repository, sinon celui de l'équipe
+ * dont le préfixe est le plus long, sinon le taux par défaut
+ */
+export function resolveHourlyRate(repositoryPath: string | null, costModel: CostModel): number {
+  if (!repositoryPath) return costModel.hourlyRate;
+
+  const repositoryRate = costModel.repositoryRates[repositoryPath];
+  if (repositoryRate !== undefined) return repositoryRate;
+
+  let bestPrefix = '';
+  Object.keys(costModel.teamRates).forEach(prefix => {
+    const matches = repositoryPath === prefix || repositoryPath.startsWith(`${prefix}/`);
+    if (matches && prefix.length > bestPrefix.length) {
+      bestPrefix = prefix;
+    }
+  });
+
+  return bestPrefix ? costModel.teamRates[bestPrefix] : costModel.hourlyRate;
+}
+
+/**
+ * Charge config.json une seule fois ; en cas d'absence ou d'erreur, la configuration par défaut est utilisée
+ */
+export function loadAppConfig(): Promise<AppConfig> {
+  if (!configPromise) {
+    configPromise = fetch(`${APP_BASE_PATH}/config.json`, { cache: 'no-cache' })
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Erreur HTTP: ${response.status} pour config.json`);
+        }
+        return response.json();
+      })
+      .catch(error => {
+        console.warn('config.json non trouve, utilisation de la configuration par defaut:', error);
+        return null;
+      })
+      .then(raw => {
+        loadedConfig = normalizeAppConfig(raw);
+        return loadedConfig;
+      });
+  }
+  return configPromise;
+}
+
+/**
+ * Configuration courante : celle de config.json une fois chargé, sinon la configuration par défaut
+ * Les données n'étant chargées qu'après la configuration, les composants qui les affichent voient config.json
+ */
+export function getAppConfig(): AppConfig {
+  return loadedConfig;
+}
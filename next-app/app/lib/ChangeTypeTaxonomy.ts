@@ -0,0 +1,234 @@
+import { ChangeTypeCategory, ChangeTypeMatch, ChangeTypeRule, ChangeTypeTaxonomy } from '../types';
+import { APP_BASE_PATH } from './AppConfig';
+
+/**
+ * Taxonomie utilisée sans change-types.json : reprend les anciennes heuristiques sur le nom des recettes
+ */
+export const DEFAULT_CHANGE_TYPE_TAXONOMY: ChangeTypeTaxonomy = {
+  categories: [
+    { name: 'Migration', color: '#3b82f6' },
+    { name: 'Import Organization', color: '#8b5cf6' },
+    { name: 'String Formatting', color: '#ec4899' },
+    { name: 'Composite', color: '#64748b' },
+    { name: 'Security', color: '#ef4444' },
+    { name: 'Testing', color: '#10b981' },
+    { name: 'Logging', color: '#f59e0b' },
+    { name: 'Other', color: '#9ca3af' }
+  ],
+  rules: [
+    { match: 'glob', pattern: '*migrate*', category: 'Migration' },
+    { match: 'glob', pattern: '*OrderImports*', category: 'Import Organization' },
+    { match: 'glob', pattern: '*StringFormatted*', category: 'String Formatting' },
+    { match: 'glob', pattern: '*CompositeRecipe*', category: 'Composite' },
+    { match: 'glob', pattern: '*security*', category: 'Security' },
+    { match: 'glob', pattern: '*junit*', category: 'Testing' },
+    { match: 'glob', pattern: '*logging*', category: 'Logging' }
+  ],
+  packageFallback: true,
+  defaultCategory: 'Other'
+};
+
+export const CHANGE_TYPE_MATCHES: { value: ChangeTypeMatch; label: string }[] = [
+  { value: 'glob', label: 'Glob' },
+  { value: 'regex', label: 'Regex' },
+  { value: 'recipe', label: 'Recette' }
+];
+
+// Couleurs des catégories sans couleur déclarée (catégories issues du package notamment)
+const FALLBACK_COLORS = ['#0ea5e9', '#14b8a6', '#84cc16', '#eab308', '#f97316', '#a855f7', '#d946ef', '#f43f5e', '#06b6d4', '#22c55e'];
+
+const TAXONOMY_FILE = '/change-types.json';
+const STORAGE_KEY = 'rewrite-datatables-viewer:change-types';
+
+let fileTaxonomyPromise: Promise<ChangeTypeTaxonomy> | null = null;
+
+/**
+ * Couleur stable dérivée du nom de la catégorie
+ */
+function fallbackColor(name: string): string {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) | 0;
+  }
+  return FALLBACK_COLORS[Math.abs(hash) % FALLBACK_COLORS.length];
+}
+
+/**
+ * Objet JSON (ni tableau ni null), dont les champs restent à vérifier un par un
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isChangeTypeMatch(value: unknown): value is ChangeTypeMatch {
+  return CHANGE_TYPE_MATCHES.some(match => match.value === value);
+}
+
+/**
+ * Traduit un motif glob en expression régulière sur le nom complet
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Message d'erreur d'une règle invalide (null si la règle est utilisable)
+ */
+export function validateChangeTypeRule(rule: ChangeTypeRule): string | null {
+  if (rule.pattern.trim() === '') return 'Motif vide';
+  if (rule.category.trim() === '') return 'Categorie manquante';
+  if (rule.match === 'regex') {
+    try {
+      new RegExp(rule.pattern);
+    } catch (error) {
+      return `Expression reguliere invalide : ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Complète une taxonomie partielle ; les règles invalides sont ignorées et
+ * les catégories citées par une règle mais non déclarées reçoivent une couleur
+ */
+export function normalizeChangeTypeTaxonomy(raw: unknown): ChangeTypeTaxonomy {
+  const defaults = DEFAULT_CHANGE_TYPE_TAXONOMY;
+  if (!isRecord(raw)) return defaults;
+
+  const isColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-fA-F]{6}$/.test(value);
+  const categories = new Map<string, ChangeTypeCategory>();
+  const addCategory = (name: string, color?: unknown) => {
+    if (!categories.has(name)) {
+      categories.set(name, { name, color: isColor(color) ? color : fallbackColor(name) });
+    }
+  };
+
+  const rawCategories: unknown[] = Array.isArray(raw.categories) ? raw.categories : defaults.categories;
+  rawCategories.forEach(category => {
+    if (isRecord(category) && typeof category.name === 'string' && category.name.trim() !== '') {
+      addCategory(category.name.trim(), category.color);
+    }
+  });
+
+  const rules: ChangeTypeRule[] = [];
+  const rawRules: unknown[] = Array.isArray(raw.rules) ? raw.rules : defaults.rules;
+  rawRules.forEach(candidate => {
+    if (!isRecord(candidate) || !isChangeTypeMatch(candidate.match)) return;
+    if (typeof candidate.pattern !== 'string' || typeof candidate.category !== 'string') return;
+
+    const rule: ChangeTypeRule = { match: candidate.match, pattern: candidate.pattern, category: candidate.category.trim() };
+    const error = validateChangeTypeRule(rule);
+    if (error) {
+      console.warn(`Regle de type de changement ignoree (${rule.pattern}) : ${error}`);
+      return;
+    }
+    rules.push(rule);
+    addCategory(rule.category);
+  });
+
+  const defaultCategory = typeof raw.defaultCategory === 'string' && raw.defaultCategory.trim() !== ''
+    ? raw.defaultCategory.trim()
+    : defaults.defaultCategory;
+  addCategory(defaultCategory);
+
+  return {
+    categories: Array.from(categories.values()),
+    rules,
+    packageFallback: typeof raw.packageFallback === 'boolean' ? raw.packageFallback : defaults.packageFallback,
+    defaultCategory
+  };
+}
+
+/**
+ * Fonction de classement d'une recette : nom de la recette, puis ses recettes parentes (de la plus proche à la racine)
+ */
+export type ChangeTypeClassifier = (recipe: string, ancestors?: string[]) => ChangeTypeCategory;
+
+/**
+ * Prépare le classement des recettes selon la taxonomie (expressions compilées une seule fois)
+ */
+export function compileChangeTypeTaxonomy(taxonomy: ChangeTypeTaxonomy): ChangeTypeClassifier {
+  const colors = new Map(taxonomy.categories.map(category => [category.name, category.color]));
+  const categoryOf = (name: string): ChangeTypeCategory => ({ name, color: colors.get(name) ?? fallbackColor(name) });
+
+  const matchers = taxonomy.rules
+    .filter(rule => validateChangeTypeRule(rule) === null)
+    .map(rule => {
+      const category = categoryOf(rule.category);
+      if (rule.match === 'recipe') {
+        return (recipe: string, ancestors: string[]) =>
+          recipe === rule.pattern || ancestors.includes(rule.pattern) ? category : null;
+      }
+      const expression = rule.match === 'glob' ? globToRegExp(rule.pattern) : new RegExp(rule.pattern);
+      return (recipe: string) => expression.test(recipe) ? category : null;
+    });
+
+  return (recipe, ancestors = []) => {
+    if (!recipe) return categoryOf(taxonomy.defaultCategory);
+
+    for (const matcher of matchers) {
+      const category = matcher(recipe, ancestors);
+      if (category) return category;
+    }
+
+    // Avant-dernier segment du nom de package
+    const parts = recipe.split('.');
+    if (taxonomy.packageFallback && parts.length > 2 && parts[parts.length - 2]) {
+      return categoryOf(parts[parts.length - 2]);
+    }
+    return categoryOf(taxonomy.defaultCategory);
+  };
+}
+
+/**
+ * Taxonomie de change-types.json (à côté de config.json), à défaut la taxonomie par défaut
+ */
+export function loadFileChangeTypeTaxonomy(): Promise<ChangeTypeTaxonomy> {
+  if (!fileTaxonomyPromise) {
+    fileTaxonomyPromise = fetch(`${APP_BASE_PATH}${TAXONOMY_FILE}`, { cache: 'no-cache' })
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Erreur HTTP: ${response.status} pour change-types.json`);
+        }
+        return response.json();
+      })
+      .then(raw => normalizeChangeTypeTaxonomy(raw))
+      .catch(error => {
+        console.warn('change-types.json non trouve, utilisation de la taxonomie par defaut:', error);
+        return DEFAULT_CHANGE_TYPE_TAXONOMY;
+      });
+  }
+  return fileTaxonomyPromise;
+}
+
+/**
+ * Taxonomie modifiée dans l'interface et conservée dans le navigateur (null si aucune)
+ */
+export function readSavedChangeTypeTaxonomy(): ChangeTypeTaxonomy | null {
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    return saved ? normalizeChangeTypeTaxonomy(JSON.parse(saved)) : null;
+  } catch (error) {
+    console.warn('Taxonomie enregistree illisible, ignoree:', error);
+    return null;
+  }
+}
+
+/**
+ * Conserve la taxonomie modifiée dans le navigateur ; null revient à celle de change-types.json
+ */
+export function saveChangeTypeTaxonomy(taxonomy: ChangeTypeTaxonomy | null): void {
+  try {
+    if (taxonomy) {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(taxonomy));
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('Impossible d\'enregistrer la taxonomie:', error);
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Enregistrement CSV produit par le tokenizer
+ */
+export interface CsvRecord {
+  /** Valeurs des champs, guillemets retirés et échappements résolus */
+  fields: string[];
+  /** Numéro de ligne (base 1) où commence l'enregistrement */
+  line: number;
+}
+
+/**
+ * Erreur levée pour un enregistrement CSV mal formé
+ * Porte la position exacte (ligne et colonne, base 1) du problème
+ */
+export class CsvParseError extends Error {
+  public readonly line: number;
+  public readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} (ligne ${line}, colonne ${column})`);
+    this.name = 'CsvParseError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+// États de l'automate de lecture
+type TokenizerState =
+  | 'fieldStart'     // Début d'un champ
+  | 'unquoted'       // Dans un champ sans guillemets
+  | 'quoted'         // Dans un champ entre guillemets
+  | 'quoteInQuoted'  // Guillemet lu dans un champ entre guillemets (fin de champ ou "" échappé)
+  | 'afterCR';       // Retour chariot lu, en attente d'un éventuel \n
+
+/**
+ * Tokenizer CSV conforme à la RFC 4180, utilisable en flux (chunk par chunk)
+ *
+ * Gère les champs multi-lignes entre guillemets, les fins de ligne CRLF/LF/CR,
+ * le BOM UTF-8 en début de flux et les guillemets échappés ("").
+ *
+ * @example
+ * const tokenizer = new CsvTokenizer();
+ * const records = [...tokenizer.push(chunk1), ...tokenizer.push(chunk2), ...tokenizer.end()];
+ */
+export class CsvTokenizer {
+  private readonly delimiter: string;
+  private state: TokenizerState = 'fieldStart';
+  private field = '';
+  private fields: string[] = [];
+  private isStartOfStream = true;
+
+  // Position courante dans le flux
+  private line = 1;
+  private column = 0;
+  private previousWasCR = false;
+  // Position de début de l'enregistrement et du champ entre guillemets en cours
+  private recordLine = 1;
+  private quoteLine = 1;
+  private quoteColumn = 1;
+
+  constructor(delimiter: string = ',') {
+    this.delimiter = delimiter;
+  }
+
+  /**
+   * Ajoute un morceau de texte et retourne les enregistrements complets qu'il termine
+   */
+  public push(chunk: string): CsvRecord[] {
+    const records: CsvRecord[] = [];
+    let start = 0;
+
+    if (this.isStartOfStream && chunk.length > 0) {
+      this.isStartOfStream = false;
+      if (chunk.charCodeAt(0) === 0xfeff) {
+        start = 1;
+      }
+    }
+
+    for (let i = start; i < chunk.length; i++) {
+      this.consume(chunk[i], records);
+    }
+
+    return records;
+  }
+
+  /**
+   * Termine le flux et retourne le dernier enregistrement éventuel
+   */
+  public end(): CsvRecord[] {
+    const records: CsvRecord[] = [];
+
+    switch (this.state) {
+      case 'quoted':
+        throw new CsvParseError('Guillemet ouvrant sans guillemet fermant', this.quoteLine, this.quoteColumn);
+      case 'afterCR':
+        this.state = 'fieldStart';
+        break;
+      case 'fieldStart':
+        // Flux terminé par un séparateur : un dernier champ vide reste à émettre
+        if (this.fields.length > 0) {
+          this.endRecord(records);
+        }
+        break;
+      default:
+        this.endRecord(records);
+    }
+
+    return records;
+  }
+
+  private consume(char: string, records: CsvRecord[]): void {
+    if (this.state === 'afterCR') {
+      this.state = 'fieldStart';
+      if (char === '\n') {
+        // Seconde moitié d'un CRLF : la ligne a déjà été comptée sur le \r
+        this.previousWasCR = false;
+        return;
+      }
+    }
+
+    this.advance(char);
+
+    switch (this.state) {
+      case 'fieldStart':
+        if (char === '"') {
+          this.state = 'quoted';
+          this.quoteLine = this.line;
+          this.quoteColumn = this.column;
+        } else if (char === this.delimiter) {
+          this.endField();
+        } else if (char === '\n' || char === '\r') {
+          this.endLine(char, records);
+        } else {
+          this.field += char;
+          this.state = 'unquoted';
+        }
+        break;
+
+      case 'unquoted':
+        if (char === this.delimiter) {
+          this.endField();
+          this.state = 'fieldStart';
+        } else if (char === '\n' || char === '\r') {
+          this.endLine(char, records);
+        } else if (char === '"') {
+          throw new CsvParseError('Guillemet inattendu dans un champ sans guillemets', this.line, this.column);
+        } else {
+          this.field += char;
+        }
+        break;
+
+      case 'quoted':
+        if (char === '"') {
+          this.state = 'quoteInQuoted';
+        } else {
+          this.field += char;
+        }
+        break;
+
+      case 'quoteInQuoted':
+        if (char === '"') {
+          // Guillemet échappé
+          this.field += '"';
+          this.state = 'quoted';
+        } else if (char === this.delimiter) {
+          this.endField();
+          this.state = 'fieldStart';
+        } else if (char === '\n' || char === '\r') {
+          this.endLine(char, records);
+        } else {
+          throw new CsvParseError('Caractère inattendu après un guillemet fermant', this.line, this.column);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Met à jour la position courante ; les sauts de ligne dans un champ entre guillemets comptent aussi
+   */
+  private advance(char: string): void {
+    if (char === '\n' && this.previousWasCR) {
+      this.previousWasCR = false;
+      return;
+    }
+    this.previousWasCR = char === '\r';
+
+    if (char === '\n' || char === '\r') {
+      this.line++;
+      this.column = 0;
+    } else {
+      this.column++;
+    }
+  }
+
+  private endField(): void {
+    this.fields.push(this.field);
+    this.field = '';
+  }
+
+  private endLine(char: string, records: CsvRecord[]): void {
+    this.endRecord(records);
+    this.state = char === '\r' ? 'afterCR' : 'fieldStart';
+  }
+
+  private endRecord(records: CsvRecord[]): void {
+    this.endField();
+
+    // Les lignes vides ne produisent pas d'enregistrement
+    const isEmptyLine = this.fields.length === 1 && this.fields[0] === '';
+    if (!isEmptyLine) {
+      records.push({ fields: this.fields, line: this.recordLine });
+    }
+
+    this.fields = [];
+    this.recordLine = this.line;
+  }
+}
+
+/**
+ * Parse un texte CSV complet en en-têtes et lignes indexées par en-tête
+ *
+ * Les enregistrements plus courts que l'en-tête sont complétés par des chaînes vides ;
+ * un enregistrement plus long lève une CsvParseError plutôt que de décaler les colonnes.
+ */
+export function parseCSVText(text: string): { headers: string[]; rows: Record<string, string>[] } {
+  const tokenizer = new CsvTokenizer();
+  const records = [...tokenizer.push(text), ...tokenizer.end()];
+  return buildRows(records);
+}
+
+/**
+ * Construit les lignes indexées par en-tête à partir des enregistrements
+ */
+export function buildRows(records: CsvRecord[]): { headers: string[]; rows: Record<string, string>[] } {
+  if (records.length === 0) return { headers: [], rows: [] };
+
+  const headers = records[0].fields.map(header => header.trim());
+  const rows: Record<string, string>[] = [];
+
+  for (let i = 1; i < records.length; i++) {
+    const { fields, line } = records[i];
+    if (fields.length > headers.length) {
+      throw new CsvParseError(
+        `Enregistrement avec ${fields.length} champs pour ${headers.length} colonnes d'en-tête`,
+        line,
+        1
+      );
+    }
+
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      row[header] = fields[index] ?? '';
+    });
+    rows.push(row);
+  }
+
+  return { headers, rows };
+}
@@ -1,17 +1,85 @@
-import { RecipeRunStats, SourceFileResults, UsageReportEntry } from '../types';
+import {
+  RecipeRunStats,
+  SourceFileResults,
+  UsageReportEntry,
+  DataTableKind,
+  DataTableRowTypes,
+  LocalDataset,
+  LoadOptions,
+  GenericDataTable,
+  DataManifest,
+  DatasetDescriptor,
+  FileDiagnostics,
+  TableDiagnostics,
+  UsageReportMergeStats,
+  UsageReportSnapshot,
+  UsageInclusionRule,
+  AppConfig,
+  ParsedTable,
+  RunTables,
+  RunTablesDescriptor
+} from '../types';
+import { dataWorkerClient, isAbortError } from './DataWorkerClient';
+import { tableParser } from './TableParser';
+import { readZipEntries } from './ZipReader';
+import { persistentCache, hashText } from './PersistentCache';
+import { DataSource, UploadedFilesDataSource, createDataSourceFromParams } from './DataSource';
+import { loadAppConfig } from './AppConfig';
+import { dataProcessor } from './DataProcessor';
 
-// Base path pour les fichiers de donnees
-const BASE_PATH = '/rewrite-datatables-viewer';
+// Identifiant du jeu de données unique d'un manifest v1
+const DEFAULT_DATASET_ID = 'default';
+
+// Préfixe des chemins des fichiers extraits d'archives importées (servis depuis la mémoire)
+const UPLOAD_PATH_PREFIX = '/upload';
+
+// Nom des dossiers d'exécution écrits par rewrite (ex : 2026-03-02_07-40-30-123)
+const RUN_FOLDER_PATTERN = /^(\d{4}-\d{2}-\d{2})_(\d{2})-(\d{2})-(\d{2})(?:-(\d{3}))?$/;
+
+// Dossier des tables rattachées à une exécution : runs/<runId>/<repositoryPath>/
+const RUN_TABLES_FOLDER = 'runs';
+
+// Clé du manifest dans le cache persistant (consultation hors ligne)
+const MANIFEST_CACHE_KEY = 'manifest';
 
 /**
  * Service responsable du chargement et parsing des fichiers CSV OpenRewrite
- * Utilise fetch pour charger les fichiers CSV
+ * Les fichiers sont lus depuis la DataSource active ; le parsing est délégué au Web Worker.
+ * Les fichiers parsés sont conservés dans IndexedDB (PersistentCache) et revalidés en arrière-plan.
  */
 export class DataLoader {
   private static instance: DataLoader;
   
   // Cache pour éviter de recharger les données
-  private cache: Map<string, unknown[]> = new Map();
+  // Les clés sont préfixées par l'identifiant du jeu de données actif
+  private cache: Map<string, unknown> = new Map();
+
+  // Manifest normalisé, chargé une seule fois jusqu'au prochain clearCache
+  private manifestPromise: Promise<DataManifest> | null = null;
+
+  // Jeu de données sélectionné (null : le premier du manifest)
+  private activeDatasetId: string | null = null;
+
+  // Exécutions importées depuis des archives ZIP, ajoutées aux jeux de données du manifest
+  private registeredDatasets: DatasetDescriptor[] = [];
+
+  // Source des fichiers de données (null : déterminée au premier chargement d'après l'URL et config.json)
+  private dataSource: DataSource | null = null;
+
+  // Fichiers importés (archives ZIP), consultés avant la source active
+  private uploads = new UploadedFilesDataSource();
+
+  // Bilan du dernier chargement de chaque fichier, clés préfixées comme celles du cache
+  private diagnostics: Map<string, FileDiagnostics> = new Map();
+
+  // Compteurs du cache persistant : lectures servies, lectures manquées, entrées mises à jour par revalidation
+  private persistentStats = { hits: 0, misses: 0, updates: 0 };
+
+  // Revalidations en cours, par clé persistante
+  private revalidating: Set<string> = new Set();
+
+  // Abonnés prévenus lorsqu'une revalidation a remplacé des données déjà affichées
+  private revalidationListeners: Set<() => void> = new Set();
 
   private constructor() {}
 
@@ -23,216 +91,560 @@ export class DataLoader {
   }
 
   /**
-   * Parse une chaîne CSV en tableau de colonnes
+   * Source des fichiers de données
+   * Par défaut, choisie d'après les paramètres d'URL (?source=http&baseUrl=...), sinon d'après
+   * le dataBaseUrl de config.json, sinon les fichiers embarqués
    */
-  private parseCSV(text: string): Record<string, string>[] {
-    const lines = text.trim().split('\n');
-    if (lines.length === 0) return [];
+  public async getDataSource(): Promise<DataSource> {
+    if (!this.dataSource) {
+      const config = await loadAppConfig();
+      // Une source fixée entre-temps (setDataSource) est prioritaire
+      if (!this.dataSource) {
+        const params = new URLSearchParams(typeof window !== 'undefined' ? window.location.search : '');
+        this.dataSource = createDataSourceFromParams(params, config, this.uploads);
+      }
+    }
+    return this.dataSource;
+  }
 
-    // Parser l'en-tête
-    const headers = this.parseCSVLine(lines[0]);
-    
-    // Parser chaque ligne
-    const data: Record<string, string>[] = [];
-    for (let i = 1; i < lines.length; i++) {
-      const values = this.parseCSVLine(lines[i]);
-      if (values.length > 0) {
-        const row: Record<string, string> = {};
-        headers.forEach((header, index) => {
-          row[header] = values[index] || '';
+  /**
+   * Remplace la source des fichiers de données ; le cache mémoire et le manifest sont réinitialisés
+   */
+  public setDataSource(dataSource: DataSource): void {
+    this.dataSource = dataSource;
+    this.clearCache();
+  }
+
+  /**
+   * Source qui sert un chemin : fichiers importés d'abord, puis source active
+   */
+  private async sourceFor(filePath: string): Promise<DataSource> {
+    return this.uploads.has(filePath) ? this.uploads : this.getDataSource();
+  }
+
+  /**
+   * Fichier attendu mais pas (encore) importé, alors que la source active ne contient que les fichiers importés
+   * (?source=upload) : la table correspondante est vide, ce n'est pas une erreur
+   */
+  private async isMissingUpload(filePath: string): Promise<boolean> {
+    const source = await this.sourceFor(filePath);
+    return source instanceof UploadedFilesDataSource && !source.has(filePath);
+  }
+
+  /**
+   * Lit le contenu texte d'un fichier en notifiant la progression
+   */
+  private async fetchText(
+    filePath: string,
+    options: LoadOptions = {}
+  ): Promise<{ text: string; etag: string | null }> {
+    const file = await (await this.sourceFor(filePath)).readText(filePath, options);
+    // Sans ETag transmis, une source ne peut pas répondre "non modifié"
+    return file ?? { text: '', etag: null };
+  }
+
+  /**
+   * Charge un fichier parsé depuis le cache persistant, à défaut depuis le réseau
+   * Une entrée trouvée est retournée immédiatement puis revalidée en arrière-plan
+   */
+  private async loadPersisted<T>(
+    filePath: string,
+    persistentKey: string,
+    parse: (text: string, options: LoadOptions) => Promise<T>,
+    options: LoadOptions
+  ): Promise<T> {
+    // Fichiers importés ou source en mémoire : rien à persister
+    const source = await this.sourceFor(filePath);
+    if (!source.persistent) {
+      const { text } = await this.fetchText(filePath, options);
+      return parse(text, options);
+    }
+
+    // Les entrées persistantes sont isolées par source
+    const sourceKey = `${source.id}:${persistentKey}`;
+    const cached = await persistentCache.get<T>(sourceKey);
+    if (cached) {
+      this.persistentStats.hits++;
+      options.onProgress?.({ file: filePath, phase: 'done', loaded: 1, total: 1 });
+      void this.revalidate(filePath, sourceKey, cached.validator, parse);
+      return cached.value;
+    }
+
+    this.persistentStats.misses++;
+    const { text, etag } = await this.fetchText(filePath, options);
+    const value = await parse(text, options);
+    void persistentCache.set(sourceKey, value, etag ?? hashText(text));
+    return value;
+  }
+
+  /**
+   * Vérifie qu'une entrée du cache persistant est à jour et la remplace sinon
+   * En cas de changement, le cache mémoire est vidé et les abonnés sont prévenus ;
+   * hors ligne, l'entrée existante reste utilisée.
+   */
+  private async revalidate<T>(
+    filePath: string,
+    persistentKey: string,
+    validator: string,
+    parse: (text: string, options: LoadOptions) => Promise<T>
+  ): Promise<void> {
+    if (this.revalidating.has(persistentKey)) return;
+    this.revalidating.add(persistentKey);
+
+    try {
+      const file = await (await this.sourceFor(filePath)).readText(filePath, {
+        etag: validator.startsWith('hash:') ? null : validator
+      });
+      if (!file) return;
+
+      const nextValidator = file.etag ?? hashText(file.text);
+      if (nextValidator === validator) return;
+
+      await persistentCache.set(persistentKey, await parse(file.text, {}), nextValidator);
+      this.persistentStats.updates++;
+      this.cache.clear();
+      this.revalidationListeners.forEach(listener => listener());
+    } catch (error) {
+      console.warn(`Revalidation impossible pour ${filePath}, données en cache conservées:`, error);
+    } finally {
+      this.revalidating.delete(persistentKey);
+    }
+  }
+
+  /**
+   * S'abonne aux revalidations ayant remplacé des données du cache persistant
+   * Retourne la fonction de désabonnement
+   */
+  public onRevalidated(listener: () => void): () => void {
+    this.revalidationListeners.add(listener);
+    return () => {
+      this.revalidationListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Charge un fichier CSV et le convertit dans le type de la table indiquée
+   */
+  private async fetchTable<K extends DataTableKind>(
+    filePath: string,
+    kind: K,
+    options: LoadOptions = {}
+  ): Promise<DataTableRowTypes[K][]> {
+    if (await this.isMissingUpload(filePath)) {
+      return [];
+    }
+
+    const diagnosticsKey = await this.scopedCacheKey(filePath);
+
+    try {
+      const parsed = await this.loadPersisted(filePath, `${kind}:${filePath}`, async (text, parseOptions) => {
+        const table = await dataWorkerClient.parse(text, kind, {
+          signal: parseOptions.signal,
+          onProgress: (loaded, total) => parseOptions.onProgress?.({ file: filePath, phase: 'parse', loaded, total })
+        });
+        parseOptions.onProgress?.({ file: filePath, phase: 'done', loaded: text.length, total: text.length });
+        return table;
+      }, options);
+
+      this.diagnostics.set(diagnosticsKey, { file: filePath, kind, error: null, ...parsed.diagnostics });
+      return parsed.rows as DataTableRowTypes[K][];
+    } catch (error) {
+      if (!isAbortError(error)) {
+        this.diagnostics.set(diagnosticsKey, {
+          file: filePath,
+          kind,
+          error: error instanceof Error ? error.message : String(error),
+          ...this.emptyDiagnostics()
         });
-        data.push(row);
       }
+      throw error;
     }
-    
-    return data;
+  }
+
+  private emptyDiagnostics(): TableDiagnostics {
+    return {
+      rowsRead: 0,
+      rowsKept: 0,
+      dropped: {},
+      missingHeaders: [],
+      unknownHeaders: [],
+      invalidNumbers: {},
+      schemaVersion: null,
+      aliasedHeaders: {}
+    };
   }
 
   /**
-   * Parse une ligne CSV en tenant compte des guillemets
+   * Charge un fichier JSON
    */
-  private parseCSVLine(line: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        if (inQuotes && line[i + 1] === '"') {
-          current += '"';
-          i++;
-        } else {
-          inQuotes = !inQuotes;
-        }
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
+  private async fetchJSON(filePath: string): Promise<unknown> {
+    const { text } = await this.fetchText(filePath);
+    return JSON.parse(text);
+  }
+
+  /**
+   * Charge le manifest et le normalise ; un manifest absent équivaut à un manifest v1 vide
+   * Les exécutions importées depuis des archives ZIP sont ajoutées à la liste des jeux de données
+   */
+  public async getManifest(): Promise<DataManifest> {
+    if (!this.manifestPromise) {
+      this.manifestPromise = this.loadManifest();
+    }
+    const manifest = await this.manifestPromise;
+    return { ...manifest, datasets: manifest.datasets.concat(this.registeredDatasets) };
+  }
+
+  /**
+   * Lit le manifest déclaré dans config.json ; hors ligne, la dernière copie connue est utilisée
+   */
+  private async loadManifest(): Promise<DataManifest> {
+    const config = await loadAppConfig();
+    const source = await this.getDataSource();
+    const manifestKey = `${source.id}:${MANIFEST_CACHE_KEY}`;
+
+    let raw: unknown = null;
+    try {
+      raw = await this.fetchJSON(config.dataFiles.manifest);
+      if (source.persistent) {
+        void persistentCache.set(manifestKey, raw, MANIFEST_CACHE_KEY);
+      }
+    } catch (error) {
+      // Hors ligne : dernier manifest connu
+      const cached = source.persistent ? await persistentCache.get<unknown>(manifestKey) : null;
+      if (cached) {
+        console.warn('Manifest inaccessible, utilisation de la copie en cache:', error);
+        raw = cached.value;
       } else {
-        current += char;
+        console.warn('Manifest non trouve, utilisation des fichiers par defaut:', error);
       }
     }
-    
-    result.push(current.trim());
-    return result;
+    return this.normalizeManifest(raw, config);
   }
 
   /**
-   * Charge un fichier CSV depuis le chemin donné
+   * Sélectionne le jeu de données utilisé par les chargements suivants
    */
-  private async fetchCSV(filePath: string): Promise<Record<string, string>[]> {
-    // Add timestamp to bypass browser cache
-    const separator = filePath.includes('?') ? '&' : '?';
-    const url = `${BASE_PATH}${filePath}${separator}_t=${Date.now()}`;
-    
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Erreur HTTP: ${response.status} pour ${filePath}`);
+  public setActiveDataset(datasetId: string | null): void {
+    this.activeDatasetId = datasetId;
+  }
+
+  /**
+   * Retourne le jeu de données actif (le premier du manifest si aucun n'est sélectionné)
+   */
+  public async getActiveDataset(): Promise<DatasetDescriptor> {
+    const manifest = await this.getManifest();
+    return manifest.datasets.find(dataset => dataset.id === this.activeDatasetId) ?? manifest.datasets[0];
+  }
+
+  /**
+   * Convertit un manifest v1 ({ usageReports }) ou v2 ({ version: 2, datasets }) en DataManifest
+   * Les tables non déclarées prennent les noms de fichiers de config.json
+   */
+  private normalizeManifest(raw: unknown, config: AppConfig): DataManifest {
+    const { recipeRunStats, sourceFileResults } = config.dataFiles;
+    const asRecord = (value: unknown): Record<string, unknown> =>
+      value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+    const asList = (value: unknown): string[] =>
+      Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+    const asPath = (value: unknown): string | null => typeof value === 'string' && value !== '' ? value : null;
+    const asLabel = (value: unknown): string | null =>
+      (typeof value === 'string' && value !== '') || typeof value === 'number' ? String(value) : null;
+
+    const manifest = asRecord(raw);
+
+    // Tables par exécution : valables pour tous les jeux de données
+    const runs = (Array.isArray(manifest.runs) ? manifest.runs : [])
+      .map(asRecord)
+      .flatMap((run): RunTablesDescriptor[] => {
+        const { runId, repositoryPath } = run;
+        if (typeof runId !== 'string' || typeof repositoryPath !== 'string') return [];
+        return [{
+          runId,
+          repositoryPath,
+          recipeRunStats: asPath(run.recipeRunStats),
+          sourceFileResults: asPath(run.sourceFileResults)
+        }];
+      });
+
+    const datasets = Array.isArray(manifest.datasets) ? manifest.datasets.map(asRecord) : [];
+    if (datasets.length > 0) {
+      return {
+        version: 2,
+        datasets: datasets.map((dataset, index): DatasetDescriptor => {
+          const tables = asRecord(dataset.tables);
+          const project = asLabel(dataset.project) ?? `dataset-${index + 1}`;
+          const runTimestamp = typeof dataset.runTimestamp === 'string' || typeof dataset.runTimestamp === 'number'
+            ? dataset.runTimestamp
+            : null;
+          const datasetRecipeRunStats = asPath(tables.recipeRunStats) ?? recipeRunStats;
+          const datasetSourceFileResults = asPath(tables.sourceFileResults) ?? sourceFileResults;
+          const dataTables = asList(tables.dataTables);
+          return {
+            id: asLabel(dataset.id) ?? `${project}-${runTimestamp ?? index}`,
+            name: asLabel(dataset.name),
+            project,
+            runTimestamp,
+            tables: {
+              recipeRunStats: datasetRecipeRunStats,
+              sourceFileResults: datasetSourceFileResults,
+              usageReports: asList(tables.usageReports),
+              dataTables: dataTables.length > 0 ? dataTables : [datasetRecipeRunStats, datasetSourceFileResults]
+            }
+          };
+        }),
+        runs
+      };
     }
-    const text = await response.text();
-    return this.parseCSV(text);
+
+    return {
+      version: 1,
+      datasets: [{
+        id: DEFAULT_DATASET_ID,
+        name: null,
+        project: 'default',
+        runTimestamp: null,
+        tables: {
+          recipeRunStats,
+          sourceFileResults,
+          usageReports: asList(manifest.usageReports),
+          dataTables: asList(manifest.dataTables).length > 0 ? asList(manifest.dataTables) : [recipeRunStats, sourceFileResults]
+        }
+      }],
+      runs
+    };
   }
 
   /**
-   * Charge un fichier JSON
+   * Chemin d'un fichier du manifest : relatif à /data sauf s'il commence par /
    */
-  private async fetchJSON(filePath: string): Promise<any> {
-    const separator = filePath.includes('?') ? '&' : '?';
-    const url = `${BASE_PATH}${filePath}${separator}_t=${Date.now()}`;
-    
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Erreur HTTP: ${response.status} pour ${filePath}`);
+  private resolveDataPath(file: string): string {
+    return file.startsWith('/') ? file : `/data/${file}`;
+  }
+
+  /**
+   * Clé de cache isolée par jeu de données
+   */
+  private async scopedCacheKey(key: string): Promise<string> {
+    const dataset = await this.getActiveDataset();
+    return `${dataset.id}:${key}`;
+  }
+
+  /**
+   * Charge les tables RecipeRunStats et SourcesFileResults d'une exécution (runId + repositoryPath)
+   * Les fichiers déclarés dans la clé runs du manifest sont prioritaires ; à défaut, ceux du dossier
+   * runs/<runId>/<repositoryPath>/ sont utilisés s'ils existent.
+   */
+  public async loadRunTables(
+    runId: string,
+    repositoryPath: string,
+    options: LoadOptions = {}
+  ): Promise<RunTables> {
+    const cacheKey = await this.scopedCacheKey(`run-tables-${runId}::${repositoryPath}`);
+    if (this.cache.has(cacheKey)) {
+      return this.cache.get(cacheKey) as RunTables;
+    }
+
+    const manifest = await this.getManifest();
+    const declared = manifest.runs.find(run => run.runId === runId && run.repositoryPath === repositoryPath);
+
+    let runTables: RunTables;
+    if (declared) {
+      // Fichiers déclarés : une erreur de chargement est remontée
+      runTables = {
+        runId,
+        repositoryPath,
+        origin: 'manifest',
+        recipeStats: declared.recipeRunStats
+          ? await this.fetchTable(this.resolveDataPath(declared.recipeRunStats), 'recipeRunStats', options)
+          : null,
+        sourceResults: declared.sourceFileResults
+          ? await this.fetchTable(this.resolveDataPath(declared.sourceFileResults), 'sourceFileResults', options)
+          : null
+      };
+    } else {
+      const { dataFiles } = await loadAppConfig();
+      const folder = `/data/${RUN_TABLES_FOLDER}/${runId}/${repositoryPath}`;
+      runTables = {
+        runId,
+        repositoryPath,
+        origin: 'convention',
+        recipeStats: await this.fetchOptionalTable(`${folder}/${dataFiles.recipeRunStats}`, 'recipeRunStats', options),
+        sourceResults: await this.fetchOptionalTable(`${folder}/${dataFiles.sourceFileResults}`, 'sourceFileResults', options)
+      };
+    }
+
+    this.cache.set(cacheKey, runTables);
+    return runTables;
+  }
+
+  /**
+   * Charge les tables de toutes les exécutions déclarées dans le manifest (clé runs)
+   * Une exécution dont les fichiers sont illisibles est ignorée : l'échec apparaît dans les diagnostics
+   */
+  public async loadFleetTables(options: LoadOptions = {}): Promise<RunTables[]> {
+    const manifest = await this.getManifest();
+    const results = await Promise.all(manifest.runs.map(run =>
+      this.loadRunTables(run.runId, run.repositoryPath, options).catch(error => {
+        if (isAbortError(error)) throw error;
+        console.warn(`Tables de l'exécution ${run.runId} (${run.repositoryPath}) ignorées:`, error);
+        return null;
+      })
+    ));
+    return results.filter((runTables): runTables is RunTables => runTables !== null);
+  }
+
+  /**
+   * Charge une table dont l'absence est normale : null si le fichier n'a pas pu être lu
+   * L'échec n'est pas conservé dans les diagnostics
+   */
+  private async fetchOptionalTable<K extends DataTableKind>(
+    filePath: string,
+    kind: K,
+    options: LoadOptions
+  ): Promise<DataTableRowTypes[K][] | null> {
+    try {
+      return await this.fetchTable(filePath, kind, options);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn(`Table d'exécution ignorée (${filePath}):`, error);
+      this.diagnostics.delete(await this.scopedCacheKey(filePath));
+      return null;
     }
-    return response.json();
   }
 
   /**
    * Charge et parse le fichier RecipeRunStats.csv
+   * Sans filePath, le fichier déclaré par le jeu de données actif est utilisé
    */
-  public async loadRecipeRunStats(filePath: string = '/data/org.openrewrite.table.RecipeRunStats.csv'): Promise<RecipeRunStats[]> {
-    const cacheKey = `recipe-stats-${filePath}`;
+  public async loadRecipeRunStats(
+    filePath?: string,
+    options: LoadOptions = {}
+  ): Promise<RecipeRunStats[]> {
+    const datasetPath = (await this.getActiveDataset()).tables.recipeRunStats;
+    if (!filePath && !datasetPath) return [];
+
+    const path = filePath ?? this.resolveDataPath(datasetPath!);
+    const cacheKey = await this.scopedCacheKey(`recipe-stats-${path}`);
     
     if (this.cache.has(cacheKey)) {
       return this.cache.get(cacheKey) as RecipeRunStats[];
     }
 
     try {
-      const csvData = await this.fetchCSV(filePath);
+      const parsedData = await this.fetchTable(path, 'recipeRunStats', options);
       
-      // Ignore la première ligne si c'est une description
-      const dataRows = csvData.filter((_, index) => index > 0 || !this.isDescriptionRow(csvData[0]));
-      
-      const parsedData: RecipeRunStats[] = dataRows.map(row => {
-        return {
-          recipe: this.parseString(row['The recipe']),
-          sourceFileCount: this.parseNumber(row['Source file count']),
-          sourceFileChangedCount: this.parseNumber(row['Source file changed count']),
-          cumulativeScanningTime: this.parseNumber(row['Cumulative scanning time (ns)']),
-          percentile99ScanningTime: this.parseNumber(row['99th percentile scanning time (ns)']),
-          maxScanningTime: this.parseNumber(row['Max scanning time (ns)']),
-          cumulativeEditTime: this.parseNumber(row['Cumulative edit time (ns)']),
-          percentile99EditTime: this.parseNumber(row['99th percentile edit time (ns)']),
-          maxEditTime: this.parseNumber(row['Max edit time (ns)']),
-        };
-      }).filter(item => item.recipe && item.recipe.trim() !== '');
-
       this.cache.set(cacheKey, parsedData);
       return parsedData;
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Erreur lors du chargement des données RecipeRunStats:', error);
-      throw new Error(`Impossible de charger les données depuis ${filePath}: ${error}`);
+      throw new Error(`Impossible de charger les données depuis ${path}: ${error}`);
     }
   }
 
   /**
    * Charge et parse le fichier SourcesFileResults.csv
+   * Sans filePath, le fichier déclaré par le jeu de données actif est utilisé
    */
-  public async loadSourceFileResults(filePath: string = '/data/org.openrewrite.table.SourcesFileResults.csv'): Promise<SourceFileResults[]> {
-    const cacheKey = `source-results-${filePath}`;
+  public async loadSourceFileResults(
+    filePath?: string,
+    options: LoadOptions = {}
+  ): Promise<SourceFileResults[]> {
+    const datasetPath = (await this.getActiveDataset()).tables.sourceFileResults;
+    if (!filePath && !datasetPath) return [];
+
+    const path = filePath ?? this.resolveDataPath(datasetPath!);
+    const cacheKey = await this.scopedCacheKey(`source-results-${path}`);
     
     if (this.cache.has(cacheKey)) {
       return this.cache.get(cacheKey) as SourceFileResults[];
     }
 
     try {
-      const csvData = await this.fetchCSV(filePath);
+      const parsedData = await this.fetchTable(path, 'sourceFileResults', options);
       
-      // Ignore la première ligne si c'est une description
-      const dataRows = csvData.filter((_, index) => index > 0 || !this.isDescriptionRow(csvData[0]));
-      
-      const parsedData: SourceFileResults[] = dataRows.map(row => {
-        return {
-          sourcePathBefore: this.parseStringOrNull(row['Source path before the run']),
-          sourcePathAfter: this.parseStringOrNull(row['Source path after the run']),
-          recipeChanges: this.parseString(row['Recipe that made changes']),
-          estimatedTimeSaving: this.parseNumber(row['Estimated time saving']),
-          cycle: this.parseNumber(row['Cycle']),
-        };
-      }).filter(item => item.recipeChanges && item.recipeChanges.trim() !== '');
-
       this.cache.set(cacheKey, parsedData);
       return parsedData;
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Erreur lors du chargement des données SourceFileResults:', error);
-      throw new Error(`Impossible de charger les données depuis ${filePath}: ${error}`);
+      throw new Error(`Impossible de charger les données depuis ${path}: ${error}`);
     }
   }
 
   /**
    * Charge et parse le fichier usage-report le plus récent basé sur le timestamp dans le nom de fichier
    * Si un filePath spécifique est fourni, il sera utilisé (pour la compatibilité arrière).
-   * Sinon, le fichier le plus récent sera chargé depuis le manifest.
+   * Sinon, le fichier le plus récent du jeu de données actif sera chargé.
    */
-  public async loadUsageReport(filePath: string = '/data/usage-report.csv'): Promise<UsageReportEntry[]> {
-    // Si le filePath est celui par défaut, nous chargeons le plus récent
-    if (filePath === '/data/usage-report.csv') {
-      return this.loadMostRecentUsageReport();
+  public async loadUsageReport(
+    filePath?: string,
+    options: LoadOptions = {}
+  ): Promise<UsageReportEntry[]> {
+    // Sans filePath, nous chargeons le plus récent
+    if (!filePath) {
+      return this.loadMostRecentUsageReport(options);
     }
     
     // Sinon, nous chargeons le fichier spécifié (comportement original)
-    const cacheKey = `usage-report-${filePath}`;
+    const cacheKey = await this.scopedCacheKey(`usage-report-${filePath}`);
     
     if (this.cache.has(cacheKey)) {
       return this.cache.get(cacheKey) as UsageReportEntry[];
     }
     
     try {
-      const csvData = await this.fetchCSV(filePath);
-      return this.parseUsageReportData(csvData, cacheKey);
+      const parsedData = await this.fetchTable(filePath, 'usageReport', options);
+      this.cache.set(cacheKey, parsedData);
+      return parsedData;
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Erreur lors du chargement des données usage-report:', error);
       throw new Error(`Impossible de charger les données depuis ${filePath}: ${error}`);
     }
   }
 
+  /**
+   * Usage report de secours déclaré dans config.json (null : aucun)
+   */
+  private async fallbackUsageReportPath(): Promise<string | null> {
+    const fallback = (await loadAppConfig()).dataFiles.fallbackUsageReport;
+    return fallback ? this.resolveDataPath(fallback) : null;
+  }
+
   /**
    * Charge le fichier usage-report le plus récent basé sur le timestamp dans le nom de fichier
    * Le fichier avec le timestamp le plus élevé est considéré comme le plus récent
    */
-  private async loadMostRecentUsageReport(): Promise<UsageReportEntry[]> {
-    const cacheKey = 'usage-report-most-recent';
+  private async loadMostRecentUsageReport(options: LoadOptions = {}): Promise<UsageReportEntry[]> {
+    const cacheKey = await this.scopedCacheKey('usage-report-most-recent');
     
     if (this.cache.has(cacheKey)) {
       return this.cache.get(cacheKey) as UsageReportEntry[];
     }
     
     try {
-      // Charger le manifest pour obtenir la liste des fichiers
-      const manifest = await this.fetchJSON('/data/manifest.json');
+      const dataset = await this.getActiveDataset();
+      const usageReports = dataset.tables.usageReports;
+
+      // Une exécution importée sans usage report n'utilise pas le fichier par défaut
+      if (usageReports.length === 0 && dataset.id !== DEFAULT_DATASET_ID) {
+        this.cache.set(cacheKey, []);
+        return [];
+      }
       
-      if (!manifest || !manifest.usageReports || manifest.usageReports.length === 0) {
-        // Si le manifest n'existe pas ou est vide, utiliser le fichier par défaut
-        console.warn('Manifest non trouvé ou vide, utilisation du fichier par défaut');
-        const csvData = await this.fetchCSV('/data/usage-report-1772437230910.csv');
-        const parsedData = this.parseUsageReportData(csvData, '');
+      if (usageReports.length === 0) {
+        // Si le manifest n'existe pas ou est vide, utiliser le fichier de secours de config.json
+        const fallbackPath = await this.fallbackUsageReportPath();
+        const parsedData = fallbackPath ? await this.fetchTable(fallbackPath, 'usageReport', options) : [];
+        if (fallbackPath) {
+          console.warn('Manifest non trouvé ou vide, utilisation du fichier par défaut');
+        }
         this.cache.set(cacheKey, parsedData);
         return parsedData;
       }
       
       // Trouver le fichier avec le timestamp le plus élevé
-      const usageReports = manifest.usageReports;
       let mostRecentFile = usageReports[0];
       let maxTimestamp = 0;
       
@@ -249,18 +661,20 @@ export class DataLoader {
       }
       
       // Charger le fichier le plus récent
-      const filePath = `/data/${mostRecentFile}`;
-      const csvData = await this.fetchCSV(filePath);
-      const parsedData = this.parseUsageReportData(csvData, '');
+      const parsedData = await this.fetchTable(this.resolveDataPath(mostRecentFile), 'usageReport', options);
       
       this.cache.set(cacheKey, parsedData);
       return parsedData;
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Erreur lors du chargement du usage report le plus récent:', error);
-      // En cas d'erreur, essayer de charger le fichier par défaut
+      // En cas d'erreur, essayer de charger le fichier de secours
+      const fallbackPath = await this.fallbackUsageReportPath();
+      if (!fallbackPath) {
+        throw new Error(`Impossible de charger les données usage-report: ${error}`);
+      }
       try {
-        const csvData = await this.fetchCSV('/data/usage-report-1772437230910.csv');
-        const parsedData = this.parseUsageReportData(csvData, '');
+        const parsedData = await this.fetchTable(fallbackPath, 'usageReport', options);
         this.cache.set(cacheKey, parsedData);
         return parsedData;
       } catch (fallbackError) {
@@ -271,46 +685,47 @@ export class DataLoader {
   }
 
   /**
-   * Charge tous les fichiers usage-report-<timestamp>.csv et combine les donnees
+   * Charge tous les fichiers usage-report-<timestamp>.csv du jeu de données actif et combine les donnees
    */
-  public async loadAllUsageReports(): Promise<UsageReportEntry[]> {
-    const cacheKey = 'usage-report-all';
+  public async loadAllUsageReports(options: LoadOptions = {}): Promise<UsageReportEntry[]> {
+    const cacheKey = await this.scopedCacheKey('usage-report-all');
 
     if (this.cache.has(cacheKey)) {
       return this.cache.get(cacheKey) as UsageReportEntry[];
     }
 
     try {
-      let usageReportFiles: string[] = [];
-
-      // Charger le manifest pour obtenir la liste des fichiers
-      try {
-        const manifest = await this.fetchJSON('/data/manifest.json');
-        if (manifest && manifest.usageReports) {
-          usageReportFiles = manifest.usageReports.map((filename: string) => `/data/${filename}`);
-        }
-      } catch (e) {
-        // Si le manifest n'existe pas, utiliser le fichier par defaut
-        console.warn('Manifest non trouve, utilisation du fichier par defaut');
-      }
+      const dataset = await this.getActiveDataset();
+      let usageReportFiles = dataset.tables.usageReports.map(filename => this.resolveDataPath(filename));
 
-      // Si aucun fichier dans le manifest, utiliser le fichier par defaut
-      if (usageReportFiles.length === 0) {
-        usageReportFiles = ['/data/usage-report-1772437230910.csv'];
+      // Si aucun fichier dans le manifest, utiliser le fichier de secours (manifest v1 uniquement)
+      if (usageReportFiles.length === 0 && dataset.id === DEFAULT_DATASET_ID) {
+        const fallbackPath = await this.fallbackUsageReportPath();
+        usageReportFiles = fallbackPath ? [fallbackPath] : [];
       }
 
-      const allData: UsageReportEntry[] = [];
+      const snapshots: UsageReportSnapshot[] = [];
 
-      for (const filePath of usageReportFiles) {
+      for (let index = 0; index < usageReportFiles.length; index++) {
+        const filePath = usageReportFiles[index];
         try {
-          const csvData = await this.fetchCSV(filePath);
-          const parsedData = this.parseUsageReportData(csvData, '');
-          allData.push(...parsedData);
+          // Chaque snapshot reste en cache : le mode live ne télécharge que les nouveaux fichiers
+          const parsedData = await this.loadUsageReport(filePath, options);
+          snapshots.push({ file: filePath, order: this.snapshotOrder(filePath, index), entries: parsedData });
         } catch (error) {
-          // Ignorer les fichiers non trouves
+          if (isAbortError(error)) throw error;
+          // Un fichier manquant n'empêche pas d'afficher les autres : l'échec apparaît dans les diagnostics
+          console.warn(`Usage report ignoré (${filePath}):`, error);
         }
       }
 
+      const allData = dataProcessor.mergeUsageSnapshots(snapshots);
+      const mergeStats: UsageReportMergeStats = {
+        snapshotCount: snapshots.length,
+        rawCount: snapshots.reduce((sum, snapshot) => sum + snapshot.entries.length, 0),
+        mergedCount: allData.length
+      };
+
       // Trier par date de creation (plus recent en premier)
       allData.sort((a, b) => {
         const dateA = new Date(a.recipeRunCreatedAt || '').getTime();
@@ -319,6 +734,7 @@ export class DataLoader {
       });
 
       this.cache.set(cacheKey, allData);
+      this.cache.set(await this.scopedCacheKey('usage-report-merge-stats'), mergeStats);
       return allData;
     } catch (error) {
       console.error('Erreur lors du chargement de tous les usage reports:', error);
@@ -327,68 +743,77 @@ export class DataLoader {
   }
 
   /**
-   * Parse les données usage-report CSV
+   * Relit le manifest et charge uniquement les usage reports apparus depuis le dernier chargement
+   * (mode live). Les snapshots déjà chargés sont repris du cache ; files est vide si rien n'a changé.
+   * newRunCount compte les exécutions fusionnées retenues par la règle d'inclusion qui n'étaient pas affichées :
+   * un snapshot recoupant les précédents ou des exécutions écartées par la règle ne sont pas comptés.
    */
-  private parseUsageReportData(csvData: Record<string, string>[], cacheKey: string): UsageReportEntry[] {
-    const parsedData: UsageReportEntry[] = csvData.map(row => {
-      return {
-        runId: this.parseString(row['runId']),
-        recipeId: this.parseString(row['recipeId']),
-        organizationId: this.parseString(row['organizationId']),
-        recipeRunState: this.parseString(row['recipeRunState']),
-        repositoryOrigin: this.parseString(row['repositoryOrigin']),
-        repositoryPath: this.parseString(row['repositoryPath']),
-        repositoryBranch: this.parseString(row['repositoryBranch']),
-        recipeRunUserEmail: this.parseString(row['recipeRunUserEmail']),
-        errorMarkers: this.parseNumber(row['errorMarkers']),
-        warningMarkers: this.parseNumber(row['warningMarkers']),
-        infoMarkers: this.parseNumber(row['infoMarkers']),
-        debugMarkers: this.parseNumber(row['debugMarkers']),
-        totalFilesResults: this.parseNumber(row['totalFilesResults']),
-        totalFilesSearched: this.parseNumber(row['totalFilesSearched']),
-        totalFilesChanges: this.parseNumber(row['totalFilesChanges']),
-        timeSavingsInMinutes: this.parseNumber(row['timeSavingsInMinutes']),
-        astLoadInMilliseconds: this.parseNumber(row['astLoadInMilliseconds']),
-        recipeRunInMilliseconds: this.parseNumber(row['recipeRunInMilliseconds']),
-        dependencyResolutionInMilliseconds: this.parseNumber(row['dependencyResolutionInMilliseconds']),
-        recipeRunCreatedAt: this.parseString(row['recipeRunCreatedAt']),
-        recipeRunUpdatedAt: this.parseString(row['recipeRunUpdatedAt']),
-        stack: this.parseString(row['stack']),
-        priority: this.parseString(row['priority']),
-        commitId: this.parseStringOrNull(row['commitId']),
-        type: this.parseStringOrNull(row['type']),
-        commitState: this.parseStringOrNull(row['commitState']),
-        commitUserEmail: this.parseStringOrNull(row['commitUserEmail']),
-        commitModifiedAt: this.parseStringOrNull(row['commitModifiedAt'])
-      };
-    }).filter(item => {
-      if (!item.runId || !item.recipeId) {
-        return false;
-      }
+  public async loadNewUsageReports(inclusionRule: UsageInclusionRule, options: LoadOptions = {}): Promise<{
+    files: string[];
+    usageReport: UsageReportEntry[];
+    newRunCount: number;
+  }> {
+    const previous = await this.getActiveDataset();
+    const knownFiles = new Set(previous.tables.usageReports);
+    const allKey = await this.scopedCacheKey('usage-report-all');
+    const previousReport = (this.cache.get(allKey) as UsageReportEntry[] | undefined) ?? [];
 
-      const commitState = (item.commitState || '').trim().toUpperCase();
-      return commitState === 'COMPLETED';
-    });
+    this.manifestPromise = null;
+    const dataset = await this.getActiveDataset();
+    const files = dataset.id === previous.id
+      ? dataset.tables.usageReports.filter(file => !knownFiles.has(file))
+      : [];
 
-    if (cacheKey) {
-      this.cache.set(cacheKey, parsedData);
+    if (files.length === 0) {
+      return { files, usageReport: await this.loadAllUsageReports(options), newRunCount: 0 };
     }
-    return parsedData;
+
+    this.cache.delete(allKey);
+    const usageReport = await this.loadAllUsageReports(options);
+    return { files, usageReport, newRunCount: dataProcessor.countNewRuns(previousReport, usageReport, inclusionRule) };
+  }
+
+  /**
+   * Liste les snapshots usage-report du jeu de données actif, du plus ancien au plus récent
+   */
+  public async listUsageReports(): Promise<string[]> {
+    const dataset = await this.getActiveDataset();
+    return dataset.tables.usageReports
+      .map((filename, index) => ({ filePath: this.resolveDataPath(filename), index }))
+      .sort((a, b) => this.snapshotOrder(a.filePath, a.index) - this.snapshotOrder(b.filePath, b.index))
+      .map(({ filePath }) => filePath);
+  }
+
+  /**
+   * Bilan de la fusion des usage reports du jeu de données actif (null avant loadAllUsageReports)
+   */
+  public async getUsageReportMergeStats(): Promise<UsageReportMergeStats | null> {
+    const stats = this.cache.get(await this.scopedCacheKey('usage-report-merge-stats'));
+    return (stats as UsageReportMergeStats | undefined) ?? null;
+  }
+
+  /**
+   * Ordre chronologique d'un snapshot : timestamp du nom usage-report-<timestamp>.csv,
+   * à défaut sa position dans le manifest
+   */
+  private snapshotOrder(filePath: string, index: number): number {
+    const match = filePath.match(/usage-report-(\d+)\.csv$/);
+    return match ? parseInt(match[1], 10) : index;
   }
 
   /**
    * Charge tous les fichiers de données disponibles
    */
-  public async loadAllData(): Promise<{
+  public async loadAllData(options: LoadOptions = {}): Promise<{
     recipeStats: RecipeRunStats[];
     sourceResults: SourceFileResults[];
     usageReport: UsageReportEntry[];
   }> {
     try {
       const [recipeStats, sourceResults, usageReport] = await Promise.all([
-        this.loadRecipeRunStats(),
-        this.loadSourceFileResults(),
-        this.loadUsageReport()
+        this.loadRecipeRunStats(undefined, options),
+        this.loadSourceFileResults(undefined, options),
+        this.loadUsageReport(undefined, options)
       ]);
 
       return {
@@ -403,99 +828,258 @@ export class DataLoader {
   }
 
   /**
-   * Vide le cache et force le rechargement
+   * Bilan de chargement des fichiers du jeu de données actif : lignes lues, conservées,
+   * écartées (par motif), colonnes manquantes ou inconnues et fichiers en échec
    */
-  public clearCache(): void {
-    this.cache.clear();
+  public async getDiagnostics(): Promise<FileDiagnostics[]> {
+    const prefix = await this.scopedCacheKey('');
+    return Array.from(this.diagnostics.entries())
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([, diagnostics]) => diagnostics);
   }
 
   /**
-   * Vérifie si une ligne est une ligne de description (en-tête explicatif)
+   * Liste les tables de données du jeu de données actif pour la vue générique
+   * Les fichiers sont déclarés dans la clé dataTables du manifest
    */
-  private isDescriptionRow(row: Record<string, string>): boolean {
-    if (!row) return false;
-    
-    // Recherche des mots-clés indiquant une description
-    const firstValue = Object.values(row)[0];
-    if (!firstValue) return false;
-    
-    const descriptionKeywords = [
-      'The recipe whose stats are being measured',
-      'The source path of the file before the run',
-      'measured both individually',
-      'null when'
-    ];
-    
-    return descriptionKeywords.some(keyword => 
-      firstValue.toLowerCase().includes(keyword.toLowerCase())
-    );
+  public async listDataTables(): Promise<string[]> {
+    const dataset = await this.getActiveDataset();
+    const files = dataset.tables.dataTables.map(filename => this.resolveDataPath(filename));
+    const missing = await Promise.all(files.map(file => this.isMissingUpload(file)));
+    return files.filter((_, index) => !missing[index]);
   }
 
   /**
-   * Parse une chaîne de caractères en gérant les quotes et espaces
+   * Charge une table de données OpenRewrite quelconque (org.openrewrite.*.table.*)
+   * Les colonnes sont documentées par la ligne de description et typées d'après leur contenu
    */
-  private parseString(value: string | undefined): string {
-    if (value === null || value === undefined) return '';
-    
-    let str = value.trim();
-    
-    // Supprime les guillemets de début et fin si présents
-    if ((str.startsWith('"') && str.endsWith('"')) || 
-        (str.startsWith("'") && str.endsWith("'"))) {
-      str = str.slice(1, -1);
+  public async loadDataTable(filePath: string, options: LoadOptions = {}): Promise<GenericDataTable> {
+    const cacheKey = await this.scopedCacheKey(`data-table-${filePath}`);
+
+    if (this.cache.has(cacheKey)) {
+      return this.cache.get(cacheKey) as GenericDataTable;
+    }
+
+    try {
+      const table = await this.loadPersisted(filePath, `dataTable:${filePath}`, async (text, parseOptions) => {
+        const parsed = await dataWorkerClient.parseGeneric(text, filePath, {
+          signal: parseOptions.signal,
+          onProgress: (loaded, total) => parseOptions.onProgress?.({ file: filePath, phase: 'parse', loaded, total })
+        });
+        parseOptions.onProgress?.({ file: filePath, phase: 'done', loaded: text.length, total: text.length });
+        return parsed;
+      }, options);
+
+      this.cache.set(cacheKey, table);
+      return table;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Erreur lors du chargement de la table de données:', error);
+      throw new Error(`Impossible de charger les données depuis ${filePath}: ${error}`);
     }
-    
-    return str;
   }
 
   /**
-   * Parse une chaîne en retournant null si vide ou "null"
+   * Charge des fichiers CSV fournis par l'utilisateur (glisser-déposer ou sélecteur)
+   * Le type de chaque fichier est détecté depuis sa ligne d'en-tête
    */
-  private parseStringOrNull(value: string | undefined): string | null {
-    const parsed = this.parseString(value);
-    return parsed === '' || parsed.toLowerCase() === 'null' ? null : parsed;
+  public async loadLocalFiles(files: File[], options: LoadOptions = {}): Promise<LocalDataset> {
+    const dataset: LocalDataset = {
+      recipeStats: [],
+      sourceResults: [],
+      usageReport: [],
+      dataTables: [],
+      files: []
+    };
+
+    for (const file of files) {
+      const text = await file.text();
+      let parsed: ParsedTable;
+      try {
+        parsed = await dataWorkerClient.parse(text, undefined, {
+          signal: options.signal,
+          onProgress: (loaded, total) => options.onProgress?.({ file: file.name, phase: 'parse', loaded, total })
+        });
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        // Fichier reconnu mais incomplet (colonnes obligatoires manquantes) : signalé sans bloquer les autres
+        const kind = tableParser.detectTextType(text);
+        dataset.files.push({
+          name: file.name,
+          kind,
+          rowCount: 0,
+          diagnostics: {
+            file: file.name,
+            kind,
+            error: error instanceof Error ? error.message : String(error),
+            ...this.emptyDiagnostics()
+          }
+        });
+        continue;
+      }
+
+      if (parsed.kind === 'recipeRunStats') {
+        dataset.recipeStats = dataset.recipeStats.concat(parsed.rows);
+      } else if (parsed.kind === 'sourceFileResults') {
+        dataset.sourceResults = dataset.sourceResults.concat(parsed.rows);
+      } else if (parsed.kind === 'usageReport') {
+        // Fichier d'origine conservé pour la fusion avec les snapshots déjà chargés
+        dataset.usageReport = dataset.usageReport.concat(parsed.rows.map(entry => ({ ...entry, snapshots: [file.name] })));
+      } else {
+        // Table non reconnue : conservée telle quelle pour la vue générique
+        const table = await dataWorkerClient.parseGeneric(text, file.name, { signal: options.signal });
+        dataset.dataTables.push(table);
+        dataset.files.push({
+          name: file.name,
+          kind: null,
+          rowCount: table.rows.length,
+          diagnostics: {
+            file: file.name,
+            kind: null,
+            error: null,
+            ...parsed.diagnostics,
+            rowsKept: table.rows.length,
+            dropped: {}
+          }
+        });
+        continue;
+      }
+
+      dataset.files.push({
+        name: file.name,
+        kind: parsed.kind,
+        rowCount: parsed.rows.length,
+        diagnostics: { file: file.name, kind: parsed.kind, error: null, ...parsed.diagnostics }
+      });
+    }
+
+    return dataset;
   }
 
   /**
-   * Parse un nombre en gérant les formats scientifiques et les erreurs
+   * Importe une archive ZIP d'un ou plusieurs dossiers d'exécution rewrite
+   * (target/rewrite/datatables/<timestamp>/...). Chaque dossier contenant des CSV est
+   * enregistré comme un jeu de données distinct, sélectionnable comme ceux du manifest.
    */
-  private parseNumber(value: string | undefined): number {
-    if (value === null || value === undefined || value === '') return 0;
-    
-    // Conversion en chaîne et nettoyage
-    let str = value.trim();
-    
-    // Supprime les guillemets si présents
-    if ((str.startsWith('"') && str.endsWith('"')) || 
-        (str.startsWith("'") && str.endsWith("'"))) {
-      str = str.slice(1, -1).trim();
+  public async importZipArchive(file: File, options: LoadOptions = {}): Promise<DatasetDescriptor[]> {
+    const archiveName = file.name.replace(/\.zip$/i, '');
+    const entries = readZipEntries(await file.arrayBuffer())
+      .filter(entry => entry.path.toLowerCase().endsWith('.csv'));
+
+    if (entries.length === 0) {
+      throw new Error(`Aucun fichier CSV dans l'archive ${file.name}`);
     }
-    
-    // Gestion des valeurs vides ou "null"
-    if (str === '' || str.toLowerCase() === 'null') return 0;
-    
-    // Parse le nombre (gère automatiquement la notation scientifique)
-    const parsed = parseFloat(str);
-    
-    return isNaN(parsed) ? 0 : parsed;
+
+    // Regrouper les CSV par dossier : un dossier correspond à une exécution
+    const folders = new Map<string, typeof entries>();
+    entries.forEach(entry => {
+      const folder = entry.path.includes('/') ? entry.path.slice(0, entry.path.lastIndexOf('/')) : '';
+      folders.set(folder, (folders.get(folder) ?? []).concat(entry));
+    });
+
+    const decoder = new TextDecoder();
+    const runs: DatasetDescriptor[] = [];
+
+    for (const [folder, folderEntries] of Array.from(folders.entries())) {
+      const segments = folder.split('/').filter(segment => segment !== '');
+      const runFolder = segments[segments.length - 1] ?? null;
+      // Le projet est le dossier qui contient target/, à défaut le nom de l'archive
+      const targetIndex = segments.indexOf('target');
+      const project = targetIndex > 0 ? segments[targetIndex - 1] : archiveName;
+
+      const tables: DatasetDescriptor['tables'] = {
+        recipeRunStats: null,
+        sourceFileResults: null,
+        usageReports: [],
+        dataTables: []
+      };
+
+      for (const entry of folderEntries) {
+        const virtualPath = `${UPLOAD_PATH_PREFIX}/${archiveName}/${entry.path}`;
+        const text = decoder.decode(await entry.read());
+        this.uploads.setFile(virtualPath, text);
+        options.onProgress?.({ file: virtualPath, phase: 'done', loaded: text.length, total: text.length });
+
+        const kind = tableParser.detectTextType(text);
+        if (kind === 'recipeRunStats' && !tables.recipeRunStats) {
+          tables.recipeRunStats = virtualPath;
+        } else if (kind === 'sourceFileResults' && !tables.sourceFileResults) {
+          tables.sourceFileResults = virtualPath;
+        } else if (kind === 'usageReport') {
+          tables.usageReports.push(virtualPath);
+        }
+        if (kind !== 'usageReport') {
+          tables.dataTables.push(virtualPath);
+        }
+      }
+
+      const match = runFolder?.match(RUN_FOLDER_PATTERN);
+      runs.push({
+        id: `upload:${archiveName}/${folder}`,
+        name: null,
+        project,
+        runTimestamp: match
+          ? `${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5] ?? '000'}`
+          : runFolder,
+        tables
+      });
+    }
+
+    // Une nouvelle importation de la même archive remplace les exécutions précédentes
+    const runIds = new Set(runs.map(run => run.id));
+    this.registeredDatasets = this.registeredDatasets
+      .filter(dataset => !runIds.has(dataset.id))
+      .concat(runs);
+    runIds.forEach(id => {
+      Array.from(this.cache.keys())
+        .filter(key => key.startsWith(`${id}:`))
+        .forEach(key => this.cache.delete(key));
+      Array.from(this.diagnostics.keys())
+        .filter(key => key.startsWith(`${id}:`))
+        .forEach(key => this.diagnostics.delete(key));
+    });
+
+    return runs;
+  }
+
+  /**
+   * Vide le cache mémoire et force le rechargement
+   * Le cache persistant est conservé (consultation hors ligne) mais revalidé à chaque lecture
+   */
+  public clearCache(): void {
+    this.cache.clear();
+    this.diagnostics.clear();
+    this.manifestPromise = null;
+  }
+
+  /**
+   * Vide le cache persistant (IndexedDB) en plus du cache mémoire
+   */
+  public async clearPersistentCache(): Promise<void> {
+    this.clearCache();
+    await persistentCache.clear();
   }
 
   /**
    * Récupère les statistiques de cache
+   * persistent : lectures servies par IndexedDB (hits), chargées depuis le réseau (misses)
+   * et entrées remplacées après revalidation (updates)
    */
   public getCacheStats(): {
     size: number;
     keys: string[];
     totalItems: number;
+    persistent: { hits: number; misses: number; updates: number };
   } {
     const keys = Array.from(this.cache.keys());
     const totalItems = Array.from(this.cache.values())
-      .reduce((sum, arr) => sum + (Array.isArray(arr) ? arr.length : 0), 0);
+      .reduce<number>((sum, arr) => sum + (Array.isArray(arr) ? arr.length : 0), 0);
 
     return {
       size: this.cache.size,
       keys,
-      totalItems
+      totalItems,
+      persistent: { ...this.persistentStats }
     };
   }
 }
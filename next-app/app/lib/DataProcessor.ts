@@ -5,8 +5,105 @@ import {
   RecipePerformanceMetrics, 
   ChangeTypeAggregation,
   RecipeHierarchy,
-  TimeUnit 
+  RecipeRollupMetrics,
+  TimeUnit,
+  UsageReportEntry,
+  UsageInclusionField,
+  UsageInclusionPreset,
+  UsageInclusionRule,
+  UsageReportSnapshot,
+  UsageDiffField,
+  UsageFieldChange,
+  UsageSnapshotDiff,
+  RepositoryDelta,
+  RunTables,
+  RecipeStatsScope,
+  CostModel,
+  FinancialMetrics,
+  ChangeTypeTaxonomy,
+  FileChangeTimeline,
+  DirectoryRollup,
+  DirectoryRollupNode,
+  FileChangeKind,
+  FileChangeKindSummary,
+  RecipeOutlier,
+  RecipeOutlierFlag,
+  RecipeOutlierKind
 } from '../types';
+import { getAppConfig, resolveHourlyRate } from './AppConfig';
+import { compileChangeTypeTaxonomy, DEFAULT_CHANGE_TYPE_TAXONOMY } from './ChangeTypeTaxonomy';
+
+/**
+ * Règles d'inclusion prédéfinies des lignes d'usage report
+ */
+export const USAGE_INCLUSION_PRESETS: Record<Exclude<UsageInclusionPreset, 'custom'>, { label: string; rule: UsageInclusionRule }> = {
+  committed: {
+    label: 'Commits termines uniquement',
+    rule: { preset: 'committed', predicates: [{ field: 'commitState', operator: 'in', values: ['COMPLETED'] }] }
+  },
+  finished: {
+    label: 'Toutes les executions terminees',
+    rule: { preset: 'finished', predicates: [{ field: 'recipeRunState', operator: 'notIn', values: ['QUEUED', 'RUNNING'] }] }
+  },
+  all: {
+    label: 'Tout',
+    rule: { preset: 'all', predicates: [] }
+  }
+};
+
+export const DEFAULT_USAGE_INCLUSION_RULE = USAGE_INCLUSION_PRESETS.committed.rule;
+
+/**
+ * Libellés des natures de changement de fichier, dans l'ordre d'affichage
+ */
+export const FILE_CHANGE_KIND_LABELS: Record<FileChangeKind, string> = {
+  added: 'Ajoutes',
+  deleted: 'Supprimes',
+  moved: 'Deplaces',
+  modified: 'Modifies'
+};
+
+/**
+ * Seuils de détection des anomalies de performance des recettes
+ */
+export const RECIPE_OUTLIER_THRESHOLDS = {
+  /** Rapport max / p99 à partir duquel un seul fichier domine le temps de la recette */
+  maxToP99Ratio: 10,
+  /** Temps max minimal (ns) pour signaler un pic : les durées plus courtes sont du bruit */
+  minSpikeTime: 100_000_000,
+  /** Score z robuste (médiane / MAD, en échelle log) du temps moyen par fichier */
+  perFileZScore: 3.5,
+  /** Nombre minimal de recettes pour comparer les temps moyens par fichier */
+  minRecipesForComparison: 4,
+  /** Nombre de fichiers scannés à partir duquel une recette sans changement est signalée */
+  minScannedFiles: 100
+};
+
+/**
+ * Libellés des anomalies de performance
+ */
+export const RECIPE_OUTLIER_LABELS: Record<RecipeOutlierKind, string> = {
+  maxSpike: 'Pic max',
+  slowPerFile: 'Lente par fichier',
+  noChanges: 'Aucun changement'
+};
+
+// Fichiers de build qui signalent un module Maven / Gradle
+const BUILD_FILES = ['pom.xml', 'build.gradle', 'build.gradle.kts'];
+// Dossiers de langage d'un source set Maven / Gradle (src/<source set>/<langage>)
+const SOURCE_SET_FOLDERS = ['java', 'kotlin', 'groovy', 'scala', 'resources', 'webapp'];
+// Sources JVM : sous src/, elles signalent un module même hors de la disposition src/<source set>/<langage>
+const JVM_SOURCE_EXTENSIONS = ['.java', '.kt', '.groovy', '.scala'];
+
+/**
+ * Seuils à partir desquels un fichier est signalé comme point chaud dans sa chronologie
+ */
+export const FILE_HOTSPOT_THRESHOLDS = {
+  /** Nombre de recettes distinctes */
+  recipes: 3,
+  /** Nombre de cycles distincts */
+  cycles: 2
+};
 
 /**
  * Service responsable du traitement et calcul des métriques sur les données OpenRewrite
@@ -25,10 +122,14 @@ export class DataProcessor {
 
   /**
    * Calcule les métriques ROI globales
+   * runs : tables par exécution dont proviennent les données ; elles portent le repository et donc son taux horaire.
+   * Sans elles (tables du jeu de données), le taux horaire par défaut est utilisé.
    */
   public calculateROIMetrics(
     recipeStats: RecipeRunStats[], 
-    sourceResults: SourceFileResults[]
+    sourceResults: SourceFileResults[],
+    runs: RunTables[] | null = null,
+    costModel: CostModel = getAppConfig().costModel
   ): ROIMetrics {
     // Calcul du temps total économisé (en secondes)
     const totalTimeSaved = sourceResults.reduce((sum, result) => sum + result.estimatedTimeSaving, 0);
@@ -58,6 +159,14 @@ export class DataProcessor {
     // Impact moyen par fichier
     const impactPerFile = uniqueFilesChanged > 0 ? totalTimeSaved / uniqueFilesChanged : 0;
 
+    // Les tables SourcesFileResults ne portent pas le repository : il est connu par exécution
+    const moneySaved = runs
+      ? runs.reduce((sum, run) => {
+        const runTimeSaved = (run.sourceResults ?? []).reduce((total, result) => total + result.estimatedTimeSaving, 0);
+        return sum + (runTimeSaved / 3600) * resolveHourlyRate(run.repositoryPath, costModel);
+      }, 0)
+      : (totalTimeSaved / 3600) * costModel.hourlyRate;
+
     return {
       totalTimeSaved,
       totalExecutionTime,
@@ -65,7 +174,54 @@ export class DataProcessor {
       efficiency,
       impactPerFile,
       totalFilesProcessed,
-      totalFilesChanged: uniqueFilesChanged
+      totalFilesChanged: uniqueFilesChanged,
+      financial: this.calculateFinancialMetrics(
+        moneySaved,
+        totalExecutionTime / 3600,
+        costModel,
+        totalTimeSaved > 0 ? moneySaved / (totalTimeSaved / 3600) : undefined
+      ),
+      ratePerRepository: runs !== null
+    };
+  }
+
+  /**
+   * Valorisation financière des lignes d'usage report (timeSavingsInMinutes, recipeRunInMilliseconds)
+   * Le taux horaire de chaque ligne est celui de son repository ou de son équipe
+   */
+  public calculateUsageFinancialMetrics(
+    entries: UsageReportEntry[],
+    costModel: CostModel = getAppConfig().costModel
+  ): FinancialMetrics {
+    const moneySaved = entries.reduce(
+      (sum, entry) => sum + (entry.timeSavingsInMinutes / 60) * resolveHourlyRate(entry.repositoryPath, costModel),
+      0
+    );
+    const runtimeHours = entries.reduce((sum, entry) => sum + entry.recipeRunInMilliseconds, 0) / 3_600_000;
+    const hoursSaved = entries.reduce((sum, entry) => sum + entry.timeSavingsInMinutes, 0) / 60;
+
+    return this.calculateFinancialMetrics(moneySaved, runtimeHours, costModel, hoursSaved > 0 ? moneySaved / hoursSaved : undefined);
+  }
+
+  /**
+   * Gain net et rentabilité à partir du montant économisé et de la durée d'exécution (en heures)
+   * averageRate : taux horaire moyen pondéré, pour exprimer le point mort en minutes développeur
+   */
+  private calculateFinancialMetrics(
+    moneySaved: number,
+    runtimeHours: number,
+    costModel: CostModel,
+    averageRate: number = costModel.hourlyRate
+  ): FinancialMetrics {
+    const computeCost = runtimeHours * costModel.computeCostPerHour;
+
+    return {
+      currency: getAppConfig().currency,
+      moneySaved,
+      computeCost,
+      netSavings: moneySaved - computeCost,
+      paybackRatio: computeCost > 0 ? moneySaved / computeCost : null,
+      breakEvenMinutes: averageRate > 0 ? (computeCost / averageRate) * 60 : 0
     };
   }
 
@@ -111,13 +267,152 @@ export class DataProcessor {
   }
 
   /**
-   * Agrège les données par type de changement
+   * Détecte les anomalies de performance des recettes : pic du temps max par rapport au p99,
+   * temps moyen par fichier aberrant parmi les recettes, fichiers scannés sans aucun changement.
+   * Les recettes signalées sont triées par nombre d'anomalies puis par temps d'exécution.
+   */
+  public detectRecipeOutliers(
+    recipeStats: RecipeRunStats[],
+    thresholds: typeof RECIPE_OUTLIER_THRESHOLDS = RECIPE_OUTLIER_THRESHOLDS
+  ): RecipeOutlier[] {
+    const totalTime = (stats: RecipeRunStats) => stats.cumulativeScanningTime + stats.cumulativeEditTime;
+
+    // Temps moyen par fichier comparé en échelle log (distribution très asymétrique)
+    const perFile = recipeStats
+      .filter(stats => stats.sourceFileCount > 0 && totalTime(stats) > 0)
+      .map(stats => ({ recipe: stats.recipe, average: totalTime(stats) / stats.sourceFileCount }));
+    const logAverages = perFile.map(entry => Math.log10(entry.average));
+    const median = (values: number[]) => this.calculateDistributionStats(values).median;
+    const logMedian = median(logAverages);
+    const mad = median(logAverages.map(value => Math.abs(value - logMedian)));
+    const slowRecipes = new Map<string, number>();
+    if (perFile.length >= thresholds.minRecipesForComparison && mad > 0) {
+      perFile.forEach((entry, index) => {
+        // Score z robuste : 0.6745 ramène la MAD à l'écart type d'une loi normale
+        const zScore = 0.6745 * (logAverages[index] - logMedian) / mad;
+        if (zScore > thresholds.perFileZScore) {
+          slowRecipes.set(entry.recipe, entry.average);
+        }
+      });
+    }
+
+    const spike = (phase: 'scan' | 'edit', max: number, p99: number): RecipeOutlierFlag | null => {
+      // Sans p99 mesuré, le rapport max / p99 n'a pas de sens : pas de verdict
+      if (max < thresholds.minSpikeTime || p99 <= 0) return null;
+      if (max < p99 * thresholds.maxToP99Ratio) return null;
+      return { kind: 'maxSpike', phase, value: max, reference: p99 };
+    };
+
+    return recipeStats
+      .map(stats => {
+        const flags: RecipeOutlierFlag[] = [];
+
+        const scanSpike = spike('scan', stats.maxScanningTime, stats.percentile99ScanningTime);
+        if (scanSpike) flags.push(scanSpike);
+        const editSpike = spike('edit', stats.maxEditTime, stats.percentile99EditTime);
+        if (editSpike) flags.push(editSpike);
+
+        const average = slowRecipes.get(stats.recipe);
+        if (average !== undefined) {
+          flags.push({ kind: 'slowPerFile', phase: null, value: average, reference: Math.pow(10, logMedian) });
+        }
+
+        if (stats.sourceFileCount >= thresholds.minScannedFiles && stats.sourceFileChangedCount === 0) {
+          flags.push({ kind: 'noChanges', phase: null, value: stats.sourceFileCount, reference: thresholds.minScannedFiles });
+        }
+
+        return {
+          recipe: stats.recipe,
+          flags,
+          totalExecutionTimeMs: totalTime(stats) / 1_000_000,
+          percentilesApproximate: stats.percentilesApproximate ?? false
+        };
+      })
+      .filter(outlier => outlier.flags.length > 0)
+      .sort((a, b) => b.flags.length - a.flags.length || b.totalExecutionTimeMs - a.totalExecutionTimeMs);
+  }
+
+  /**
+   * Fusionne les RecipeRunStats de plusieurs exécutions (repositories) par recette
+   * Les compteurs et temps cumulés sont additionnés, les maxima conservent la pire valeur.
+   * Les percentiles ne peuvent pas être recalculés sans les mesures individuelles : le maximum
+   * des percentiles de chaque exécution est retenu (borne haute) et signalé comme approximatif.
+   */
+  public mergeRecipeRunStats(runs: RecipeRunStats[][]): RecipeRunStats[] {
+    const merged = new Map<string, RecipeRunStats>();
+
+    runs.forEach(stats => stats.forEach(row => {
+      const current = merged.get(row.recipe);
+      if (!current) {
+        merged.set(row.recipe, { ...row, runCount: row.runCount ?? 1 });
+        return;
+      }
+
+      current.sourceFileCount += row.sourceFileCount;
+      current.sourceFileChangedCount += row.sourceFileChangedCount;
+      current.cumulativeScanningTime += row.cumulativeScanningTime;
+      current.cumulativeEditTime += row.cumulativeEditTime;
+      current.maxScanningTime = Math.max(current.maxScanningTime, row.maxScanningTime);
+      current.maxEditTime = Math.max(current.maxEditTime, row.maxEditTime);
+      current.percentile99ScanningTime = Math.max(current.percentile99ScanningTime, row.percentile99ScanningTime);
+      current.percentile99EditTime = Math.max(current.percentile99EditTime, row.percentile99EditTime);
+      current.runCount = (current.runCount ?? 1) + (row.runCount ?? 1);
+      current.percentilesApproximate = true;
+    }));
+
+    return Array.from(merged.values());
+  }
+
+  /**
+   * Tables des exécutions comprises dans un périmètre (flotte entière ou un repository)
+   * Retourne null pour le périmètre du jeu de données, qui n'utilise pas les tables par exécution
+   */
+  public selectScopedRunTables(
+    runs: RunTables[],
+    scope: RecipeStatsScope
+  ): { recipeStats: RecipeRunStats[]; sourceResults: SourceFileResults[]; runs: RunTables[] } | null {
+    if (scope.kind === 'dataset') return null;
+
+    const selected = scope.kind === 'repository'
+      ? runs.filter(run => run.repositoryPath === scope.repositoryPath)
+      : runs;
+
+    return {
+      recipeStats: this.mergeRecipeRunStats(selected.map(run => run.recipeStats ?? [])),
+      sourceResults: selected.reduce<SourceFileResults[]>((all, run) => all.concat(run.sourceResults ?? []), []),
+      runs: selected
+    };
+  }
+
+  /**
+   * Agrège les données par type de changement, selon la taxonomie fournie
    */
   public aggregateByChangeType(
     recipeStats: RecipeRunStats[], 
-    sourceResults: SourceFileResults[]
+    sourceResults: SourceFileResults[],
+    taxonomy: ChangeTypeTaxonomy = DEFAULT_CHANGE_TYPE_TAXONOMY
   ): ChangeTypeAggregation[] {
+    const classify = compileChangeTypeTaxonomy(taxonomy);
+
+    // Recettes parentes connues par les SourcesFileResults, pour les règles sur les recettes déclaratives
+    const parentOf = new Map<string, string>();
+    sourceResults.forEach(result => {
+      if (result.parentRecipe && result.parentRecipe !== result.recipeChanges) {
+        parentOf.set(result.recipeChanges, result.parentRecipe);
+      }
+    });
+    const ancestorsOf = (recipe: string): string[] => {
+      const ancestors: string[] = [];
+      let parent = parentOf.get(recipe);
+      while (parent && parent !== recipe && !ancestors.includes(parent)) {
+        ancestors.push(parent);
+        parent = parentOf.get(parent);
+      }
+      return ancestors;
+    };
+
     const aggregationMap = new Map<string, {
+      color: string;
       filesAffected: Set<string>;
       timeSaved: number;
       executionTime: number;
@@ -126,10 +421,12 @@ export class DataProcessor {
 
     // Traiter les résultats de fichiers sources
     sourceResults.forEach(result => {
-      const changeType = this.extractChangeType(result.recipeChanges);
+      const category = classify(result.recipeChanges, ancestorsOf(result.recipeChanges));
+      const changeType = category.name;
       
       if (!aggregationMap.has(changeType)) {
         aggregationMap.set(changeType, {
+          color: category.color,
           filesAffected: new Set(),
           timeSaved: 0,
           executionTime: 0,
@@ -147,7 +444,7 @@ export class DataProcessor {
 
     // Ajouter les temps d'exécution des recettes
     recipeStats.forEach(stats => {
-      const changeType = this.extractChangeType(stats.recipe);
+      const changeType = classify(stats.recipe, ancestorsOf(stats.recipe)).name;
       const agg = aggregationMap.get(changeType);
       
       if (agg) {
@@ -158,6 +455,7 @@ export class DataProcessor {
     // Convertir en tableau
     return Array.from(aggregationMap.entries()).map(([changeType, data]) => ({
       changeType,
+      color: data.color,
       filesAffected: data.filesAffected.size,
       timeSaved: data.timeSaved,
       executionTime: data.executionTime,
@@ -166,28 +464,368 @@ export class DataProcessor {
   }
 
   /**
-   * Construit la hiérarchie des recettes
+   * Construit la hiérarchie des recettes à partir de la colonne
+   * "Parent of the recipe that made changes" des SourcesFileResults
+   * Chaque nœud porte ses propres métriques et les métriques cumulées de son sous-arbre
    */
   public buildRecipeHierarchy(
     recipeStats: RecipeRunStats[], 
     sourceResults: SourceFileResults[]
   ): RecipeHierarchy[] {
-    const enrichedStats = this.enrichRecipeStats(recipeStats, sourceResults);
+    // Parent le plus fréquent de chaque recette
+    const parentCounts = new Map<string, Map<string, number>>();
+    const changeCounts = new Map<string, number>();
+    sourceResults.forEach(result => {
+      changeCounts.set(result.recipeChanges, (changeCounts.get(result.recipeChanges) || 0) + 1);
+      if (!result.parentRecipe || result.parentRecipe === result.recipeChanges) return;
+
+      const counts = parentCounts.get(result.recipeChanges) ?? new Map<string, number>();
+      counts.set(result.parentRecipe, (counts.get(result.parentRecipe) || 0) + 1);
+      parentCounts.set(result.recipeChanges, counts);
+    });
+
+    // Les recettes citées sans statistiques d'exécution sont ajoutées avec des compteurs nuls
+    const knownRecipes = new Set(recipeStats.map(stats => stats.recipe));
+    const missingRecipes = new Set<string>();
+    parentCounts.forEach((counts, recipe) => {
+      [recipe, ...Array.from(counts.keys())].forEach(name => {
+        if (!knownRecipes.has(name)) missingRecipes.add(name);
+      });
+    });
+    const allStats = recipeStats.concat(
+      Array.from(missingRecipes).map(recipe => this.emptyRecipeStats(recipe))
+    );
+
+    const enrichedStats = this.enrichRecipeStats(allStats, sourceResults);
     const hierarchyMap = new Map<string, RecipeHierarchy>();
 
     // Créer les nœuds de base
     enrichedStats.forEach(stats => {
+      if (hierarchyMap.has(stats.recipe)) return;
       hierarchyMap.set(stats.recipe, {
         name: stats.recipe,
         parent: null,
         children: [],
         metrics: stats,
+        rollup: { totalTimeSaved: 0, totalExecutionTimeMs: 0, changeCount: 0, descendantCount: 0 },
         depth: 0
       });
     });
 
-    // Sans information de parenté, toutes les recettes sont considérées comme racines
-    return Array.from(hierarchyMap.values());
+    // Rattacher chaque recette à son parent, en refusant les liens qui créeraient un cycle
+    parentCounts.forEach((counts, recipe) => {
+      const parentName = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+      const node = hierarchyMap.get(recipe)!;
+      const parentNode = hierarchyMap.get(parentName)!;
+
+      for (let ancestor: RecipeHierarchy | undefined = parentNode; ancestor; ) {
+        if (ancestor === node) return;
+        ancestor = ancestor.parent ? hierarchyMap.get(ancestor.parent) : undefined;
+      }
+
+      node.parent = parentName;
+      parentNode.children.push(node);
+    });
+
+    const roots = Array.from(hierarchyMap.values()).filter(node => node.parent === null);
+    roots.forEach(root => this.computeRollup(root, 0, changeCounts));
+
+    return roots.sort((a, b) => b.rollup.totalTimeSaved - a.rollup.totalTimeSaved);
+  }
+
+  /**
+   * Calcule la profondeur et les métriques cumulées d'un nœud et de ses descendants
+   */
+  private computeRollup(node: RecipeHierarchy, depth: number, changeCounts: Map<string, number>): RecipeRollupMetrics {
+    node.depth = depth;
+    const rollup: RecipeRollupMetrics = {
+      totalTimeSaved: node.metrics.totalTimeSaved,
+      totalExecutionTimeMs: node.metrics.totalExecutionTimeMs,
+      changeCount: changeCounts.get(node.name) || 0,
+      descendantCount: 0
+    };
+
+    node.children.forEach(child => {
+      const childRollup = this.computeRollup(child, depth + 1, changeCounts);
+      rollup.totalTimeSaved += childRollup.totalTimeSaved;
+      rollup.totalExecutionTimeMs += childRollup.totalExecutionTimeMs;
+      rollup.changeCount += childRollup.changeCount;
+      rollup.descendantCount += childRollup.descendantCount + 1;
+    });
+
+    node.children.sort((a, b) => b.rollup.totalTimeSaved - a.rollup.totalTimeSaved);
+    node.rollup = rollup;
+    return rollup;
+  }
+
+  /**
+   * Statistiques nulles pour une recette connue uniquement par les résultats de fichiers
+   */
+  private emptyRecipeStats(recipe: string): RecipeRunStats {
+    return {
+      recipe,
+      sourceFileCount: 0,
+      sourceFileChangedCount: 0,
+      cumulativeScanningTime: 0,
+      percentile99ScanningTime: 0,
+      maxScanningTime: 0,
+      cumulativeEditTime: 0,
+      percentile99EditTime: 0,
+      maxEditTime: 0
+    };
+  }
+
+  /**
+   * Nature d'un changement de fichier : création, suppression, déplacement ou modification sur place
+   */
+  public classifyFileChange(result: SourceFileResults): FileChangeKind {
+    if (!result.sourcePathBefore) return 'added';
+    if (!result.sourcePathAfter) return 'deleted';
+    return result.sourcePathBefore === result.sourcePathAfter ? 'modified' : 'moved';
+  }
+
+  /**
+   * Nombre de modifications, temps économisé et recettes par nature de changement (toutes les natures sont présentes)
+   */
+  public summarizeFileChangeKinds(sourceResults: SourceFileResults[]): FileChangeKindSummary[] {
+    const kinds = Object.keys(FILE_CHANGE_KIND_LABELS) as FileChangeKind[];
+    const summaries = new Map(kinds.map(kind => [kind, { changeCount: 0, timeSaved: 0, recipes: new Set<string>() }]));
+
+    sourceResults.forEach(result => {
+      const summary = summaries.get(this.classifyFileChange(result))!;
+      summary.changeCount++;
+      summary.timeSaved += result.estimatedTimeSaving;
+      summary.recipes.add(result.recipeChanges);
+    });
+
+    return kinds.map(kind => {
+      const summary = summaries.get(kind)!;
+      return {
+        kind,
+        changeCount: summary.changeCount,
+        timeSaved: summary.timeSaved,
+        recipes: Array.from(summary.recipes).sort()
+      };
+    });
+  }
+
+  /**
+   * Regroupe les changements par fichier, en suivant les renommages (sourcePathBefore -> sourcePathAfter)
+   * Les points chauds sont placés en tête, puis les fichiers modifiés par le plus de recettes
+   */
+  public buildFileTimelines(
+    sourceResults: SourceFileResults[],
+    thresholds: typeof FILE_HOTSPOT_THRESHOLDS = FILE_HOTSPOT_THRESHOLDS
+  ): FileChangeTimeline[] {
+    // Union-find des chemins : un renommage relie l'ancien et le nouveau chemin
+    const parent = new Map<string, string>();
+    const find = (path: string): string => {
+      let root = path;
+      while (parent.get(root) !== root) {
+        root = parent.get(root)!;
+      }
+      let node = path;
+      while (node !== root) {
+        const next = parent.get(node)!;
+        parent.set(node, root);
+        node = next;
+      }
+      return root;
+    };
+
+    sourceResults.forEach(result => {
+      const paths = [result.sourcePathBefore, result.sourcePathAfter].filter((path): path is string => !!path);
+      paths.forEach(path => {
+        if (!parent.has(path)) parent.set(path, path);
+      });
+      if (paths.length === 2 && paths[0] !== paths[1]) {
+        const before = find(paths[0]);
+        const after = find(paths[1]);
+        if (before !== after) parent.set(before, after);
+      }
+    });
+
+    const groups = new Map<string, SourceFileResults[]>();
+    sourceResults.forEach(result => {
+      const path = result.sourcePathAfter || result.sourcePathBefore;
+      if (!path) return;
+      const root = find(path);
+      if (!groups.has(root)) groups.set(root, []);
+      groups.get(root)!.push(result);
+    });
+
+    return Array.from(groups.values())
+      .map(rows => {
+        // Tri stable par cycle : à cycle égal, l'ordre de la table est conservé
+        const sorted = rows
+          .map((row, index) => ({ row, index }))
+          .sort((a, b) => a.row.cycle - b.row.cycle || a.index - b.index)
+          .map(({ row }) => row);
+
+        let cumulativeTimeSaving = 0;
+        const events = sorted.map(row => {
+          cumulativeTimeSaving += row.estimatedTimeSaving;
+          return {
+            recipe: row.recipeChanges,
+            parentRecipe: row.parentRecipe,
+            cycle: row.cycle,
+            sourcePathBefore: row.sourcePathBefore,
+            sourcePathAfter: row.sourcePathAfter,
+            estimatedTimeSaving: row.estimatedTimeSaving,
+            cumulativeTimeSaving
+          };
+        });
+
+        const last = sorted[sorted.length - 1];
+        const path = (last.sourcePathAfter || last.sourcePathBefore)!;
+        const previousPaths: string[] = [];
+        sorted.forEach(row => {
+          [row.sourcePathBefore, row.sourcePathAfter].forEach(candidate => {
+            if (candidate && candidate !== path && !previousPaths.includes(candidate)) {
+              previousPaths.push(candidate);
+            }
+          });
+        });
+
+        const recipeCount = new Set(sorted.map(row => row.recipeChanges)).size;
+        const cycleCount = new Set(sorted.map(row => row.cycle)).size;
+
+        return {
+          path,
+          previousPaths,
+          events,
+          recipeCount,
+          cycleCount,
+          totalTimeSaved: cumulativeTimeSaving,
+          isHotspot: recipeCount >= thresholds.recipes || cycleCount >= thresholds.cycles
+        };
+      })
+      .sort((a, b) =>
+        Number(b.isHotspot) - Number(a.isHotspot)
+        || b.recipeCount - a.recipeCount
+        || b.cycleCount - a.cycleCount
+        || b.totalTimeSaved - a.totalTimeSaved
+      );
+  }
+
+  /**
+   * Regroupe les fichiers modifiés par dossier, en détectant les modules Maven / Gradle
+   * et leurs source sets (src/main, src/test...)
+   */
+  public buildDirectoryRollup(sourceResults: SourceFileResults[]): DirectoryRollup {
+    interface PathNode {
+      name: string;
+      path: string;
+      children: Map<string, PathNode>;
+      isFile: boolean;
+      changeCount: number;
+      timeSaved: number;
+    }
+    const createNode = (name: string, path: string): PathNode =>
+      ({ name, path, children: new Map(), isFile: false, changeCount: 0, timeSaved: 0 });
+
+    // Arbre des chemins modifiés (chemin après le run, à défaut avant)
+    const tree = createNode('', '');
+    sourceResults.forEach(result => {
+      const path = result.sourcePathAfter || result.sourcePathBefore;
+      if (!path) return;
+
+      let node = tree;
+      const segments = path.split('/').filter(segment => segment !== '');
+      segments.forEach((segment, index) => {
+        let child = node.children.get(segment);
+        if (!child) {
+          child = createNode(segment, segments.slice(0, index + 1).join('/'));
+          node.children.set(segment, child);
+        }
+        node = child;
+      });
+      node.isFile = true;
+      node.changeCount++;
+      node.timeSaved += result.estimatedTimeSaving;
+    });
+
+    const isSourceSetNode = (node: PathNode): boolean =>
+      SOURCE_SET_FOLDERS.some(folder => node.children.has(folder));
+    const containsJvmSource = (node: PathNode): boolean =>
+      (node.isFile && JVM_SOURCE_EXTENSIONS.some(extension => node.name.endsWith(extension)))
+      || Array.from(node.children.values()).some(containsJvmSource);
+
+    // Les fichiers de build ne figurent parmi les chemins que s'ils ont été modifiés :
+    // un module se reconnait aussi à ses sources (src/<source set>/<langage> ou sources JVM sous src/)
+    const isModule = (node: PathNode): boolean => {
+      if (BUILD_FILES.some(file => node.children.get(file)?.isFile)) return true;
+      const src = node.children.get('src');
+      return !!src && (Array.from(src.children.values()).some(isSourceSetNode) || containsJvmSource(src));
+    };
+
+    let moduleCount = 0;
+    const sourceSets = new Map<string | null, { fileCount: number; timeSaved: number }>();
+
+    const convert = (node: PathNode, sourceSet: string | null, isModuleSrc: boolean, isSourceSet: boolean): DirectoryRollupNode => {
+      if (node.children.size === 0) {
+        const totals = sourceSets.get(sourceSet) ?? { fileCount: 0, timeSaved: 0 };
+        totals.fileCount++;
+        totals.timeSaved += node.timeSaved;
+        sourceSets.set(sourceSet, totals);
+
+        return {
+          name: node.name,
+          path: node.path,
+          kind: 'file',
+          sourceSet,
+          fileCount: 1,
+          changeCount: node.changeCount,
+          timeSaved: node.timeSaved,
+          children: []
+        };
+      }
+
+      const nodeIsModule = isModule(node);
+      if (nodeIsModule) moduleCount++;
+      const kind = nodeIsModule ? 'module' : isSourceSet ? 'sourceSet' : node === tree ? 'root' : 'directory';
+      const nodeSourceSet = isSourceSet ? node.name : sourceSet;
+
+      const children = Array.from(node.children.values())
+        .map(child => convert(
+          child,
+          nodeSourceSet,
+          nodeIsModule && child.name === 'src',
+          isModuleSrc && isSourceSetNode(child)
+        ));
+      // Chemin à la fois fichier et préfixe d'autres chemins : le fichier garde ses propres modifications
+      if (node.isFile) {
+        children.push(convert({ ...node, children: new Map() }, nodeSourceSet, false, false));
+      }
+      children.sort((a, b) => b.fileCount - a.fileCount || a.name.localeCompare(b.name));
+
+      const rollup: DirectoryRollupNode = {
+        name: node.name,
+        path: node.path,
+        kind,
+        sourceSet: nodeSourceSet,
+        fileCount: children.reduce((sum, child) => sum + child.fileCount, 0),
+        changeCount: children.reduce((sum, child) => sum + child.changeCount, 0),
+        timeSaved: children.reduce((sum, child) => sum + child.timeSaved, 0),
+        children
+      };
+
+      // Fusion des dossiers à enfant unique (org/heg/app) ; modules et source sets restent distincts
+      if (kind === 'directory' && children.length === 1 && children[0].kind === 'directory') {
+        return { ...children[0], name: `${node.name}/${children[0].name}` };
+      }
+      return rollup;
+    };
+
+    const root = convert(tree, null, false, false);
+
+    return {
+      root,
+      moduleCount,
+      sourceSets: Array.from(sourceSets.entries())
+        .map(([name, totals]) => ({ name, ...totals }))
+        .sort((a, b) => b.fileCount - a.fileCount)
+    };
   }
 
   /**
@@ -268,9 +906,27 @@ export class DataProcessor {
   public formatNumber(
     value: number, 
     decimals: number = 2, 
-    locale: string = 'fr-FR'
+    locale: string = getAppConfig().locale
+  ): string {
+    return new Intl.NumberFormat(locale, {
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals
+    }).format(value);
+  }
+
+  /**
+   * Formate un montant dans la devise de la configuration
+   */
+  public formatCurrency(
+    value: number,
+    currency: string = getAppConfig().currency,
+    locale: string = getAppConfig().locale
   ): string {
+    // Centimes affichés uniquement pour les petits montants
+    const decimals = Math.abs(value) >= 100 ? 0 : 2;
     return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
       minimumFractionDigits: decimals,
       maximumFractionDigits: decimals
     }).format(value);
@@ -294,27 +950,183 @@ export class DataProcessor {
   }
 
   /**
-   * Extrait le type de changement à partir du nom de la recette
+   * Fusionne les snapshots usage-report : une même exécution sur un même repository
+   * (runId + repositoryPath, un run Moderne couvrant plusieurs repositories) n'est conservée
+   * qu'une fois. La ligne retenue est la plus récente selon recipeRunUpdatedAt, puis selon
+   * le snapshot ; les snapshots où l'exécution apparaît sont conservés dans snapshots.
+   * Une ligne déjà fusionnée garde ses snapshots : le résultat peut être fusionné à nouveau.
    */
-  private extractChangeType(recipeName: string): string {
-    if (!recipeName) return 'Unknown';
-
-    // Extraction basée sur les patterns courants d'OpenRewrite
-    if (recipeName.includes('migrate')) return 'Migration';
-    if (recipeName.includes('OrderImports')) return 'Import Organization';
-    if (recipeName.includes('StringFormatted')) return 'String Formatting';
-    if (recipeName.includes('CompositeRecipe')) return 'Composite';
-    if (recipeName.includes('security')) return 'Security';
-    if (recipeName.includes('junit')) return 'Testing';
-    if (recipeName.includes('logging')) return 'Logging';
-
-    // Extraction par package
-    const parts = recipeName.split('.');
-    if (parts.length > 2) {
-      return parts[parts.length - 2] || 'Other'; // Avant-dernière partie
-    }
+  public mergeUsageSnapshots(snapshots: UsageReportSnapshot[]): UsageReportEntry[] {
+    const merged = new Map<string, { entry: UsageReportEntry; snapshots: Set<string> }>();
+    const updatedAt = (entry: UsageReportEntry) => new Date(entry.recipeRunUpdatedAt || '').getTime() || 0;
+
+    [...snapshots]
+      .sort((a, b) => a.order - b.order)
+      .forEach(snapshot => {
+        snapshot.entries.forEach(entry => {
+          const key = `${entry.runId}::${entry.repositoryPath}`;
+          const files = entry.snapshots ?? [snapshot.file];
+          const current = merged.get(key);
+          if (!current) {
+            merged.set(key, { entry, snapshots: new Set(files) });
+            return;
+          }
+
+          files.forEach(file => current.snapshots.add(file));
+          // Snapshots parcourus du plus ancien au plus récent : à date égale, le dernier l'emporte
+          if (updatedAt(entry) >= updatedAt(current.entry)) {
+            current.entry = entry;
+          }
+        });
+      });
+
+    return Array.from(merged.values()).map(({ entry, snapshots: files }) => ({
+      ...entry,
+      snapshots: Array.from(files)
+    }));
+  }
+
+  /**
+   * Valeur normalisée d'une colonne soumise aux règles d'inclusion ('' si vide)
+   */
+  public getInclusionValue(entry: UsageReportEntry, field: UsageInclusionField): string {
+    return (entry[field] ?? '').trim().toUpperCase();
+  }
+
+  /**
+   * Filtre les lignes d'usage report selon la règle d'inclusion
+   */
+  public applyInclusionRule(entries: UsageReportEntry[], rule: UsageInclusionRule): UsageReportEntry[] {
+    if (rule.predicates.length === 0) return entries;
+    return entries.filter(this.compileInclusionRule(rule));
+  }
+
+  /**
+   * Nombre d'exécutions écartées par la règle d'inclusion, par fichier usage-report (colonne snapshots)
+   * Complète le bilan de chargement, où ces lignes apparaissent comme conservées
+   */
+  public countInclusionExclusions(entries: UsageReportEntry[], rule: UsageInclusionRule): Record<string, number> {
+    const counts: Record<string, number> = {};
+    if (rule.predicates.length === 0) return counts;
+
+    const isIncluded = this.compileInclusionRule(rule);
+    entries
+      .filter(entry => !isIncluded(entry))
+      .forEach(entry => (entry.snapshots ?? []).forEach(file => {
+        counts[file] = (counts[file] ?? 0) + 1;
+      }));
+    return counts;
+  }
+
+  /**
+   * Nombre d'exécutions (runId + repository) retenues par la règle d'inclusion dans current
+   * mais absentes des exécutions retenues de previous : snapshots déjà fusionnés attendus
+   */
+  public countNewRuns(previous: UsageReportEntry[], current: UsageReportEntry[], rule: UsageInclusionRule): number {
+    const runKey = (entry: UsageReportEntry) => `${entry.runId}::${entry.repositoryPath}`;
+    const known = new Set(this.applyInclusionRule(previous, rule).map(runKey));
+    return new Set(this.applyInclusionRule(current, rule).map(runKey).filter(key => !known.has(key))).size;
+  }
+
+  /**
+   * Prépare le test d'une ligne contre la règle d'inclusion (valeurs normalisées une seule fois)
+   */
+  private compileInclusionRule(rule: UsageInclusionRule): (entry: UsageReportEntry) => boolean {
+    const predicates = rule.predicates.map(predicate => ({
+      ...predicate,
+      values: new Set(predicate.values.map(value => value.trim().toUpperCase()))
+    }));
+
+    return entry => predicates.every(predicate => {
+      const matches = predicate.values.has(this.getInclusionValue(entry, predicate.field));
+      return predicate.operator === 'in' ? matches : !matches;
+    });
+  }
+
+  /**
+   * Description lisible d'une règle d'inclusion (ex : "commitState = COMPLETED")
+   */
+  public describeInclusionRule(rule: UsageInclusionRule): string {
+    if (rule.predicates.length === 0) return 'toutes les lignes';
+
+    return rule.predicates
+      .map(predicate => {
+        const values = predicate.values.map(value => value || '(vide)');
+        if (values.length === 1) {
+          return `${predicate.field} ${predicate.operator === 'in' ? '=' : '≠'} ${values[0]}`;
+        }
+        return `${predicate.field} ${predicate.operator === 'in' ? 'parmi' : 'hors de'} ${values.join(', ')}`;
+      })
+      .join(' et ');
+  }
+
+  /**
+   * Compare deux snapshots usage-report : exécutions apparues, disparues ou modifiées
+   * (recipeRunState, commitState, timeSavingsInMinutes) et évolution par repository.
+   * Une exécution est identifiée par runId et repository, comme lors de la fusion des snapshots.
+   */
+  public diffUsageSnapshots(before: UsageReportEntry[], after: UsageReportEntry[]): UsageSnapshotDiff {
+    const key = (entry: UsageReportEntry) => `${entry.runId}::${entry.repositoryPath}`;
+    const beforeRuns = new Map(before.map(entry => [key(entry), entry]));
+    const afterRuns = new Map(after.map(entry => [key(entry), entry]));
+    const fields: UsageDiffField[] = ['recipeRunState', 'commitState', 'timeSavingsInMinutes'];
+
+    const diff: UsageSnapshotDiff = { added: [], removed: [], changed: [], unchangedCount: 0, repositories: [] };
+    const repositories = new Map<string, RepositoryDelta>();
+    const repositoryDelta = (repositoryPath: string): RepositoryDelta => {
+      if (!repositories.has(repositoryPath)) {
+        repositories.set(repositoryPath, {
+          repositoryPath,
+          newRuns: 0,
+          vanishedRuns: 0,
+          changedRuns: 0,
+          timeSavingsDelta: 0,
+          filesChangedDelta: 0
+        });
+      }
+      return repositories.get(repositoryPath)!;
+    };
+
+    afterRuns.forEach((entry, runKey) => {
+      const delta = repositoryDelta(entry.repositoryPath);
+      const previous = beforeRuns.get(runKey);
+
+      if (!previous) {
+        diff.added.push(entry);
+        delta.newRuns++;
+        delta.timeSavingsDelta += entry.timeSavingsInMinutes;
+        delta.filesChangedDelta += entry.totalFilesChanges;
+        return;
+      }
+
+      const changes: UsageFieldChange[] = fields
+        .filter(field => (previous[field] ?? null) !== (entry[field] ?? null))
+        .map(field => ({ field, before: previous[field] ?? null, after: entry[field] ?? null }));
+
+      delta.timeSavingsDelta += entry.timeSavingsInMinutes - previous.timeSavingsInMinutes;
+      delta.filesChangedDelta += entry.totalFilesChanges - previous.totalFilesChanges;
+      if (changes.length > 0) {
+        diff.changed.push({ before: previous, after: entry, changes });
+        delta.changedRuns++;
+      } else {
+        diff.unchangedCount++;
+      }
+    });
+
+    beforeRuns.forEach((entry, runKey) => {
+      if (afterRuns.has(runKey)) return;
+      const delta = repositoryDelta(entry.repositoryPath);
+      diff.removed.push(entry);
+      delta.vanishedRuns++;
+      delta.timeSavingsDelta -= entry.timeSavingsInMinutes;
+      delta.filesChangedDelta -= entry.totalFilesChanges;
+    });
+
+    diff.repositories = Array.from(repositories.values())
+      .filter(delta => delta.newRuns + delta.vanishedRuns + delta.changedRuns > 0 || delta.timeSavingsDelta !== 0 || delta.filesChangedDelta !== 0)
+      .sort((a, b) => Math.abs(b.timeSavingsDelta) - Math.abs(a.timeSavingsDelta));
 
-    return 'Other';
+    return diff;
   }
 
   /**
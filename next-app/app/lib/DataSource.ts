@@ -0,0 +1,174 @@
+import { AppConfig, LoadOptions } from '../types';
+import { APP_BASE_PATH } from './AppConfig';
+
+/**
+ * Contenu d'un fichier lu depuis une source de données
+ */
+export interface DataSourceFile {
+  text: string;
+  /** ETag fourni par la source (null si inconnu) */
+  etag: string | null;
+}
+
+/**
+ * Options de lecture d'un fichier
+ */
+export interface DataSourceReadOptions extends LoadOptions {
+  /** ETag connu : la source peut répondre "non modifié" (null) */
+  etag?: string | null;
+}
+
+/**
+ * Origine des fichiers de données (manifest.json, CSV)
+ * Les chemins sont relatifs à la racine de l'application, par exemple /data/manifest.json.
+ */
+export interface DataSource {
+  /** Identifiant stable, utilisé pour isoler les entrées du cache persistant */
+  readonly id: string;
+  /** Libellé affiché */
+  readonly label: string;
+  /** Les fichiers lus peuvent être conservés dans le cache persistant (IndexedDB) */
+  readonly persistent: boolean;
+  /**
+   * Lit un fichier texte ; retourne null si options.etag correspond toujours au fichier.
+   * Lève une erreur si le fichier est introuvable.
+   */
+  readText(path: string, options?: DataSourceReadOptions): Promise<DataSourceFile | null>;
+}
+
+/**
+ * Source HTTP : fichiers servis sous une URL de base (export Moderne, serveur de fichiers local...)
+ */
+export class HttpDataSource implements DataSource {
+  public readonly persistent = true;
+
+  constructor(
+    private readonly baseUrl: string,
+    public readonly id: string = `http:${baseUrl}`,
+    public readonly label: string = baseUrl
+  ) {}
+
+  public async readText(path: string, options: DataSourceReadOptions = {}): Promise<DataSourceFile | null> {
+    // no-cache : le navigateur revalide toujours auprès du serveur (ETag / Last-Modified)
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+      signal: options.signal,
+      cache: 'no-cache',
+      headers: options.etag ? { 'If-None-Match': options.etag } : undefined
+    });
+    if (response.status === 304) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Erreur HTTP: ${response.status} pour ${path}`);
+    }
+
+    const etag = response.headers.get('etag');
+    if (!response.body || !options.onProgress) {
+      return { text: await response.text(), etag };
+    }
+
+    // Lecture du flux pour suivre la progression du téléchargement
+    const total = Number(response.headers.get('content-length')) || 0;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    let loaded = 0;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      loaded += value.length;
+      text += decoder.decode(value, { stream: true });
+      options.onProgress({ file: path, phase: 'download', loaded, total: Math.max(total, loaded) });
+    }
+    text += decoder.decode();
+
+    return { text, etag };
+  }
+}
+
+/**
+ * Source par défaut : fichiers statiques de public/, servis sous le basePath de l'application
+ */
+export class StaticAssetDataSource extends HttpDataSource {
+  constructor(basePath: string) {
+    super(basePath, 'static', 'Fichiers embarques');
+  }
+}
+
+/**
+ * Source en mémoire : contenu fourni directement (tests, démonstrations)
+ */
+export class MemoryDataSource implements DataSource {
+  public readonly persistent: boolean = false;
+
+  private files: Map<string, string>;
+
+  constructor(
+    files: Record<string, string> = {},
+    public readonly id: string = 'memory',
+    public readonly label: string = 'Memoire'
+  ) {
+    this.files = new Map(Object.entries(files));
+  }
+
+  public has(path: string): boolean {
+    return this.files.has(path);
+  }
+
+  public setFile(path: string, text: string): void {
+    this.files.set(path, text);
+  }
+
+  public async readText(path: string, options: DataSourceReadOptions = {}): Promise<DataSourceFile | null> {
+    const text = this.files.get(path);
+    if (text === undefined) {
+      throw new Error(`Fichier introuvable: ${path}`);
+    }
+    options.onProgress?.({ file: path, phase: 'download', loaded: text.length, total: text.length });
+    return { text, etag: null };
+  }
+}
+
+/**
+ * Source des fichiers importés depuis le navigateur (glisser-déposer, archives ZIP)
+ * Les fichiers sont lus une fois puis servis depuis la mémoire
+ */
+export class UploadedFilesDataSource extends MemoryDataSource {
+  constructor() {
+    super({}, 'upload', 'Fichiers importes');
+  }
+
+  public async addFile(path: string, file: Blob): Promise<void> {
+    this.setFile(path, await file.text());
+  }
+}
+
+/**
+ * Crée la source décrite par les paramètres d'URL, par exemple
+ * ?source=http&baseUrl=https://exports.example.com ou ?source=upload (aucune donnée embarquée).
+ * Sans paramètre, le dataBaseUrl de config.json est utilisé, à défaut les fichiers statiques de l'application.
+ * uploads est la source qui reçoit les fichiers importés : ?source=upload la réutilise pour servir ces fichiers.
+ */
+export function createDataSourceFromParams(
+  params: URLSearchParams,
+  config: AppConfig,
+  uploads: UploadedFilesDataSource = new UploadedFilesDataSource()
+): DataSource {
+  const source = params.get('source');
+  const baseUrl = params.get('baseUrl');
+
+  if (source === 'http' && baseUrl) {
+    return new HttpDataSource(baseUrl);
+  }
+  if (source === 'upload') {
+    return uploads;
+  }
+  if (source && source !== 'static') {
+    console.warn(`Source de données inconnue "${source}", utilisation des fichiers embarqués`);
+  }
+  if (!source && config.dataBaseUrl) {
+    return new HttpDataSource(config.dataBaseUrl);
+  }
+  return new StaticAssetDataSource(APP_BASE_PATH);
+}
@@ -0,0 +1,207 @@
+import {
+  RecipeRunStats,
+  SourceFileResults,
+  DataTableKind,
+  ParsedTable,
+  GenericDataTable
+} from '../types';
+import { tableParser, ParseCancelledError } from './TableParser';
+import {
+  AggregationOperation,
+  AggregationOptions,
+  AggregationResults,
+  WorkerRequest,
+  WorkerResponse,
+  runAggregation
+} from '../workers/protocol';
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (processed: number, total: number) => void;
+}
+
+/**
+ * Options d'une requête envoyée au worker
+ */
+export interface WorkerRequestOptions {
+  signal?: AbortSignal;
+  onProgress?: (processed: number, total: number) => void;
+}
+
+/**
+ * Crée l'erreur standard d'annulation, identique à celle levée par fetch
+ */
+export function createAbortError(): Error {
+  return new DOMException('Chargement annulé', 'AbortError');
+}
+
+/**
+ * Indique si une erreur correspond à une annulation
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'AbortError' || error instanceof ParseCancelledError);
+}
+
+/**
+ * Client du Web Worker de traitement des données
+ * Exécute le parsing CSV et les agrégations hors du thread UI ;
+ * en l'absence de support des workers, le traitement est fait dans le thread courant.
+ */
+export class DataWorkerClient {
+  private static instance: DataWorkerClient;
+
+  private worker: Worker | null = null;
+  private nextRequestId = 1;
+  private pending: Map<number, PendingRequest> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): DataWorkerClient {
+    if (!DataWorkerClient.instance) {
+      DataWorkerClient.instance = new DataWorkerClient();
+    }
+    return DataWorkerClient.instance;
+  }
+
+  /**
+   * Parse un texte CSV ; le type est détecté depuis l'en-tête si kind n'est pas fourni
+   */
+  public async parse(text: string, kind?: DataTableKind, options: WorkerRequestOptions = {}): Promise<ParsedTable> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return tableParser.parseTextInChunks(text, kind, {
+        onProgress: options.onProgress,
+        isCancelled: () => options.signal?.aborted ?? false
+      });
+    }
+
+    return this.send(
+      worker,
+      requestId => ({ type: 'parse', requestId, text, kind }),
+      options
+    ) as Promise<ParsedTable>;
+  }
+
+  /**
+   * Parse une table de données OpenRewrite quelconque (colonnes documentées et typées)
+   */
+  public async parseGeneric(text: string, file: string, options: WorkerRequestOptions = {}): Promise<GenericDataTable> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return tableParser.parseGenericTableInChunks(text, file, {
+        onProgress: options.onProgress,
+        isCancelled: () => options.signal?.aborted ?? false
+      });
+    }
+
+    return this.send(
+      worker,
+      requestId => ({ type: 'parseGeneric', requestId, text, file }),
+      options
+    ) as Promise<GenericDataTable>;
+  }
+
+  /**
+   * Exécute une agrégation du DataProcessor
+   */
+  public async aggregate<O extends AggregationOperation>(
+    operation: O,
+    recipeStats: RecipeRunStats[],
+    sourceResults: SourceFileResults[],
+    aggregationOptions: AggregationOptions = {},
+    options: WorkerRequestOptions = {}
+  ): Promise<AggregationResults[O]> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return runAggregation(operation, recipeStats, sourceResults, aggregationOptions);
+    }
+
+    return this.send(
+      worker,
+      requestId => ({ type: 'aggregate', requestId, operation, recipeStats, sourceResults, options: aggregationOptions }),
+      options
+    ) as Promise<AggregationResults[O]>;
+  }
+
+  private send(
+    worker: Worker,
+    buildRequest: (requestId: number) => WorkerRequest,
+    options: WorkerRequestOptions
+  ): Promise<unknown> {
+    if (options.signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    const requestId = this.nextRequestId++;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.pending.delete(requestId);
+        worker.postMessage({ type: 'cancel', requestId } satisfies WorkerRequest);
+        reject(createAbortError());
+      };
+
+      this.pending.set(requestId, {
+        resolve: result => {
+          options.signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: error => {
+          options.signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        onProgress: options.onProgress
+      });
+
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      worker.postMessage(buildRequest(requestId));
+    });
+  }
+
+  private handleMessage(response: WorkerResponse): void {
+    const request = this.pending.get(response.requestId);
+    if (!request) return;
+
+    switch (response.type) {
+      case 'progress':
+        request.onProgress?.(response.processed, response.total);
+        break;
+      case 'result':
+        this.pending.delete(response.requestId);
+        request.resolve(response.result);
+        break;
+      case 'error':
+        this.pending.delete(response.requestId);
+        request.reject(response.cancelled ? createAbortError() : new Error(response.message));
+        break;
+    }
+  }
+
+  /**
+   * Instancie le worker à la première utilisation (null côté serveur ou si non supporté)
+   */
+  private getWorker(): Worker | null {
+    if (this.worker) return this.worker;
+    if (typeof window === 'undefined' || typeof Worker === 'undefined') return null;
+
+    try {
+      this.worker = new Worker(new URL('../workers/dataWorker.ts', import.meta.url));
+      this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        console.error('Erreur du worker de données:', event.message);
+        // Les requêtes en cours ne recevront plus de réponse
+        const error = new Error(`Erreur du worker de données: ${event.message}`);
+        this.pending.forEach(request => request.reject(error));
+        this.pending.clear();
+      };
+    } catch (error) {
+      console.warn('Web Worker indisponible, traitement dans le thread principal:', error);
+      this.worker = null;
+    }
+    return this.worker;
+  }
+}
+
+// Export d'une instance singleton
+export const dataWorkerClient = DataWorkerClient.getInstance();
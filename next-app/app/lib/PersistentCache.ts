@@ -0,0 +1,134 @@
+/**
+ * Entrée du cache persistant
+ */
+export interface PersistentCacheEntry<T> {
+  key: string;
+  value: T;
+  /** ETag renvoyé par le serveur, ou empreinte du contenu ("hash:<...>") */
+  validator: string;
+  /** Date d'enregistrement (ms) */
+  storedAt: number;
+}
+
+// Base IndexedDB et magasin des données parsées
+const DB_NAME = 'rewrite-datatables-viewer';
+const STORE_NAME = 'parsed';
+
+/**
+ * Version du format des données parsées, utilisée comme version de la base IndexedDB
+ * À incrémenter à chaque changement du résultat du parsing (TableParser, schémas de TableSchemas) :
+ * les entrées écrites par une version précédente sont alors supprimées à l'ouverture de la base,
+ * au lieu d'être servies jusqu'à la prochaine modification du CSV.
+ * 2 : lignes usage-report non COMPLETED conservées, alias d'en-têtes et conversion d'unités
+ */
+export const PARSED_DATA_VERSION = 2;
+
+/**
+ * Empreinte FNV-1a 32 bits d'un texte, utilisée quand le serveur ne fournit pas d'ETag
+ */
+export function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `hash:${(hash >>> 0).toString(16)}-${text.length}`;
+}
+
+/**
+ * Cache persistant des fichiers parsés, stocké dans IndexedDB
+ * Sans IndexedDB (rendu serveur, navigation privée restreinte), toutes les opérations
+ * sont sans effet et les lectures retournent null.
+ */
+export class PersistentCache {
+  private static instance: PersistentCache;
+
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): PersistentCache {
+    if (!PersistentCache.instance) {
+      PersistentCache.instance = new PersistentCache();
+    }
+    return PersistentCache.instance;
+  }
+
+  /**
+   * Ouvre la base une seule fois ; null si IndexedDB est indisponible
+   */
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, PARSED_DATA_VERSION);
+        request.onupgradeneeded = () => {
+          // Nouvelle version du format : les données parsées par une version précédente sont purgées
+          if (request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.deleteObjectStore(STORE_NAME);
+          }
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        };
+        request.onblocked = () => {
+          console.warn('Cache persistant en attente : un autre onglet utilise une version precedente');
+        };
+        request.onsuccess = () => {
+          // Un onglet plus récent met à jour le format : libérer la base pour ne pas le bloquer
+          request.result.onversionchange = () => request.result.close();
+          resolve(request.result);
+        };
+        request.onerror = () => {
+          console.warn('Cache persistant indisponible:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Exécute une requête sur le magasin ; les erreurs IndexedDB sont journalisées et donnent null
+   */
+  private async run<R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R | null> {
+    const db = await this.openDatabase();
+    if (!db) return null;
+
+    return new Promise(resolve => {
+      try {
+        const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Erreur du cache persistant:', request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('Erreur du cache persistant:', error);
+        resolve(null);
+      }
+    });
+  }
+
+  public async get<T>(key: string): Promise<PersistentCacheEntry<T> | null> {
+    const entry = await this.run('readonly', store => store.get(key));
+    return (entry as PersistentCacheEntry<T> | undefined) ?? null;
+  }
+
+  public async set<T>(key: string, value: T, validator: string): Promise<void> {
+    const entry: PersistentCacheEntry<T> = { key, value, validator, storedAt: Date.now() };
+    await this.run('readwrite', store => store.put(entry));
+  }
+
+  public async clear(): Promise<void> {
+    await this.run('readwrite', store => store.clear());
+  }
+}
+
+// Export d'une instance singleton
+export const persistentCache = PersistentCache.getInstance();
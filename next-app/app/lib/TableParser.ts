@@ -0,0 +1,641 @@
+import {
+  RecipeRunStats,
+  SourceFileResults,
+  UsageReportEntry,
+  DataTableKind,
+  DataTableRowTypes,
+  ParsedTable,
+  DataTableColumn,
+  DataTableColumnType,
+  GenericDataTable,
+  TableDiagnostics,
+  TableSchema,
+  SchemaColumn
+} from '../types';
+import { CsvTokenizer, CsvRecord, buildRows, parseCSVText } from './CsvParser';
+import { TABLE_SCHEMAS, TABLE_SIGNATURE_FIELDS, unitFactor } from './TableSchemas';
+
+// Motif d'exclusion des lignes d'un fichier dont le type n'est pas reconnu
+const FORMAT_NOT_RECOGNIZED = 'Format de fichier non reconnu';
+
+// Taille des morceaux de texte tokenisés entre deux notifications de progression
+const PARSE_CHUNK_SIZE = 512 * 1024;
+
+// Début du texte lu pour détecter le type d'une table : l'en-tête y tient largement
+const HEADER_SAMPLE_LENGTH = 64 * 1024;
+
+// Nombre de valeurs examinées pour déduire le type d'une colonne
+const TYPE_INFERENCE_SAMPLE_SIZE = 500;
+
+// Formats reconnus lors de l'inférence de type
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const RECIPE_PATTERN = /^[a-z]\w*(\.[a-z][\w-]*)+\.[A-Z][\w$]*$/;
+// Noms de recettes déclaratives, reconnus seulement si l'en-tête évoque une recette
+const LOOSE_RECIPE_PATTERN = /^[a-z]\w*(\.[\w$-]+){2,}$/;
+const PATH_PATTERN = /^[^\s@]*[\/\\][^\s@]*$|^[^\s\/\\@]+\.[A-Za-z0-9]{1,8}$/;
+
+/**
+ * Options du parsing par morceaux
+ */
+export interface ChunkedParseOptions {
+  /** Appelé après chaque morceau avec le nombre de caractères traités */
+  onProgress?: (processed: number, total: number) => void;
+  /** Retourne true si le parsing doit être interrompu */
+  isCancelled?: () => boolean;
+}
+
+/**
+ * Résultat de la validation d'un fichier CSV
+ */
+export interface TableValidationResult {
+  /** Type de table attendu ou détecté (null : table générique) */
+  kind: DataTableKind | null;
+  /** Nombre de lignes conservées après conversion */
+  rowCount: number;
+  /** Problèmes bloquants ; vide si le fichier est valide */
+  errors: string[];
+}
+
+/**
+ * Colonne d'un schéma associée à l'en-tête du fichier qui l'alimente
+ */
+interface ResolvedColumn {
+  column: SchemaColumn;
+  /** En-tête du fichier (null : colonne absente) */
+  header: string | null;
+  /** Conversion de l'unité de l'en-tête vers celle du schéma */
+  factor: number;
+}
+
+/**
+ * Version de schéma retenue pour un fichier et correspondance de ses colonnes
+ */
+interface ResolvedSchema {
+  schema: TableSchema;
+  columns: ResolvedColumn[];
+  missingRequired: string[];
+  missingOptional: string[];
+  unknownHeaders: string[];
+  aliasedHeaders: Record<string, string>;
+}
+
+/**
+ * Erreur levée lorsqu'un fichier ne contient pas les colonnes obligatoires de son schéma
+ * Sans elle, les valeurs de ces colonnes vaudraient silencieusement 0
+ */
+export class MissingColumnsError extends Error {
+  constructor(
+    public readonly kind: DataTableKind,
+    public readonly version: string,
+    public readonly columns: string[]
+  ) {
+    super(`Colonnes obligatoires manquantes (${kind}, schéma ${version}) : ${columns.join(', ')}`);
+    this.name = 'MissingColumnsError';
+  }
+}
+
+/**
+ * Erreur levée lorsqu'un parsing est interrompu à la demande de l'appelant
+ */
+export class ParseCancelledError extends Error {
+  constructor() {
+    super('Parsing annulé');
+    this.name = 'ParseCancelledError';
+  }
+}
+
+/**
+ * Service responsable de la conversion des lignes CSV en objets typés
+ * Ne dépend ni du DOM ni de fetch : utilisable dans un Web Worker
+ */
+export class TableParser {
+  private static instance: TableParser;
+
+  private constructor() {}
+
+  public static getInstance(): TableParser {
+    if (!TableParser.instance) {
+      TableParser.instance = new TableParser();
+    }
+    return TableParser.instance;
+  }
+
+  /**
+   * Parse un texte CSV complet de façon synchrone
+   * Si kind n'est pas fourni, le type est détecté depuis la ligne d'en-tête
+   */
+  public parseText(text: string, kind?: DataTableKind): ParsedTable {
+    const { headers, rows } = parseCSVText(text);
+    return this.toParsedTable(headers, rows, kind);
+  }
+
+  /**
+   * Parse un texte CSV par morceaux, en rendant la main entre chaque morceau
+   * afin de pouvoir notifier la progression et prendre en compte une annulation
+   */
+  public async parseTextInChunks(
+    text: string,
+    kind: DataTableKind | undefined,
+    options: ChunkedParseOptions = {}
+  ): Promise<ParsedTable> {
+    const { headers, rows } = await this.tokenizeInChunks(text, options);
+    return this.toParsedTable(headers, rows, kind);
+  }
+
+  /**
+   * Parse une table de données OpenRewrite quelconque
+   * La ligne de description éventuelle sert de documentation des colonnes
+   */
+  public async parseGenericTableInChunks(
+    text: string,
+    file: string,
+    options: ChunkedParseOptions = {}
+  ): Promise<GenericDataTable> {
+    const { headers, rows } = await this.tokenizeInChunks(text, options);
+    return this.toGenericTable(file, headers, rows);
+  }
+
+  /**
+   * Parse une table de données OpenRewrite quelconque de façon synchrone
+   */
+  public parseGenericTable(text: string, file: string): GenericDataTable {
+    const { headers, rows } = parseCSVText(text);
+    return this.toGenericTable(file, headers, rows);
+  }
+
+  /**
+   * Tokenise un texte CSV par morceaux, en rendant la main entre chaque morceau
+   */
+  private async tokenizeInChunks(
+    text: string,
+    options: ChunkedParseOptions
+  ): Promise<{ headers: string[]; rows: Record<string, string>[] }> {
+    const tokenizer = new CsvTokenizer();
+    const records: CsvRecord[] = [];
+
+    for (let offset = 0; offset < text.length; offset += PARSE_CHUNK_SIZE) {
+      if (options.isCancelled?.()) {
+        throw new ParseCancelledError();
+      }
+
+      const chunk = text.slice(offset, offset + PARSE_CHUNK_SIZE);
+      for (const record of tokenizer.push(chunk)) {
+        records.push(record);
+      }
+
+      options.onProgress?.(Math.min(offset + PARSE_CHUNK_SIZE, text.length), text.length);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    records.push(...tokenizer.end());
+
+    if (options.isCancelled?.()) {
+      throw new ParseCancelledError();
+    }
+
+    return buildRows(records);
+  }
+
+  /**
+   * Vérifie qu'un texte CSV est bien formé et contient les colonnes attendues pour son type
+   * Si kind n'est pas fourni, le type est détecté ; une table non reconnue est seulement parsée
+   */
+  public validateText(text: string, kind?: DataTableKind): TableValidationResult {
+    let parsed: { headers: string[]; rows: Record<string, string>[] };
+    try {
+      parsed = parseCSVText(text);
+    } catch (error) {
+      return {
+        kind: kind ?? null,
+        rowCount: 0,
+        errors: [error instanceof Error ? error.message : String(error)]
+      };
+    }
+
+    if (parsed.headers.length === 0) {
+      return { kind: kind ?? null, rowCount: 0, errors: ['Fichier vide'] };
+    }
+
+    const tableKind = kind ?? this.detectTableType(parsed.headers);
+    if (!tableKind) {
+      return { kind: null, rowCount: parsed.rows.length, errors: [] };
+    }
+
+    const resolved = this.resolveSchema(tableKind, parsed.headers);
+    if (resolved.missingRequired.length > 0) {
+      const error = new MissingColumnsError(tableKind, resolved.schema.version, resolved.missingRequired);
+      return { kind: tableKind, rowCount: 0, errors: [error.message] };
+    }
+
+    return {
+      kind: tableKind,
+      rowCount: this.mapRows(tableKind, parsed.rows).length,
+      errors: []
+    };
+  }
+
+  /**
+   * Détermine le type de table d'un texte CSV en ne lisant que sa ligne d'en-tête
+   */
+  public detectTextType(text: string): DataTableKind | null {
+    const tokenizer = new CsvTokenizer();
+    const head = text.slice(0, HEADER_SAMPLE_LENGTH);
+
+    try {
+      const records = tokenizer.push(head);
+      // Texte lu en entier (fichier réduit à l'en-tête, sans saut de ligne final) : le dernier enregistrement est émis par end()
+      if (records.length === 0 && head.length === text.length) {
+        records.push(...tokenizer.end());
+      }
+      const [header] = records;
+      return header ? this.detectTableType(header.fields) : null;
+    } catch {
+      // En-tête mal formé : type non reconnu
+      return null;
+    }
+  }
+
+  /**
+   * Détermine le type de table à partir des en-têtes du fichier CSV
+   * Un type est reconnu si une de ses versions de schéma contient les champs caractéristiques
+   */
+  public detectTableType(headers: string[]): DataTableKind | null {
+    const headerSet = new Set(headers.map(header => this.parseString(header)));
+    const kinds = Object.keys(TABLE_SIGNATURE_FIELDS) as DataTableKind[];
+
+    return kinds.find(kind =>
+      (TABLE_SCHEMAS[kind] as TableSchema[]).some(schema =>
+        TABLE_SIGNATURE_FIELDS[kind].every(field => {
+          const column = schema.columns.find(candidate => candidate.field === field);
+          return column !== undefined && this.headerNames(column).some(name => headerSet.has(name));
+        })
+      )
+    ) ?? null;
+  }
+
+  /**
+   * Choisit la version de schéma qui correspond le mieux aux en-têtes :
+   * le moins de colonnes obligatoires manquantes, puis le plus de colonnes reconnues
+   */
+  private resolveSchema(kind: DataTableKind, headers: string[]): ResolvedSchema {
+    // En-tête nettoyé -> en-tête brut, clé des lignes CSV
+    const headerByName = new Map(headers.map(header => [this.parseString(header), header] as [string, string]));
+
+    const candidates = (TABLE_SCHEMAS[kind] as TableSchema[]).map(schema => {
+      const aliasedHeaders: Record<string, string> = {};
+      const columns = schema.columns.map((column): ResolvedColumn => {
+        const alias = [column.header, ...(column.aliases ?? [])]
+          .map(candidate => typeof candidate === 'string' ? { header: candidate, unit: column.unit } : candidate)
+          .find(candidate => headerByName.has(candidate.header));
+        if (!alias) {
+          return { column, header: null, factor: 1 };
+        }
+        if (alias.header !== column.header) {
+          aliasedHeaders[alias.header] = column.header;
+        }
+        return { column, header: headerByName.get(alias.header)!, factor: unitFactor(alias.unit, column.unit) };
+      });
+
+      const used = new Set(columns.map(resolved => resolved.header));
+      const missing = columns.filter(resolved => resolved.header === null).map(resolved => resolved.column);
+      return {
+        schema,
+        columns,
+        missingRequired: missing.filter(column => column.required).map(column => column.header),
+        missingOptional: missing.filter(column => !column.required).map(column => column.header),
+        unknownHeaders: headers.filter(header => !used.has(header)).map(header => this.parseString(header)),
+        aliasedHeaders
+      };
+    });
+
+    const matched = (candidate: ResolvedSchema) => candidate.columns.filter(resolved => resolved.header !== null).length;
+    return candidates.reduce((best, candidate) =>
+      candidate.missingRequired.length < best.missingRequired.length ||
+      (candidate.missingRequired.length === best.missingRequired.length && matched(candidate) > matched(best))
+        ? candidate
+        : best
+    );
+  }
+
+  /**
+   * En-tête principal et alias d'une colonne de schéma
+   */
+  private headerNames(column: SchemaColumn): string[] {
+    return [column.header, ...(column.aliases ?? []).map(alias => typeof alias === 'string' ? alias : alias.header)];
+  }
+
+  /**
+   * Convertit les lignes CSV brutes dans le type correspondant à la table
+   * Les en-têtes sont ceux de la première ligne ; une colonne obligatoire absente lève MissingColumnsError
+   */
+  public mapRows<K extends DataTableKind>(kind: K, csvData: Record<string, string>[]): DataTableRowTypes[K][] {
+    const headers = Object.keys(csvData[0] ?? {});
+    const resolved = this.resolveSchema(kind, headers);
+    if (headers.length > 0 && resolved.missingRequired.length > 0) {
+      throw new MissingColumnsError(kind, resolved.schema.version, resolved.missingRequired);
+    }
+    return this.mapRowsWithDiagnostics(kind, csvData, resolved, this.createDiagnostics(resolved, headers)).rows;
+  }
+
+  /**
+   * Convertit les lignes CSV brutes et complète le bilan de conversion
+   */
+  private mapRowsWithDiagnostics<K extends DataTableKind>(
+    kind: K,
+    csvData: Record<string, string>[],
+    resolved: ResolvedSchema,
+    diagnostics: TableDiagnostics
+  ): { rows: DataTableRowTypes[K][]; diagnostics: TableDiagnostics } {
+    const readRow = (row: Record<string, string>) => this.readRow(row, resolved, diagnostics);
+    let rows: DataTableRowTypes[K][];
+    switch (kind) {
+      case 'recipeRunStats':
+        rows = this.mapRecipeRunStats(csvData, readRow, diagnostics) as DataTableRowTypes[K][];
+        break;
+      case 'sourceFileResults':
+        rows = this.mapSourceFileResults(csvData, readRow, diagnostics) as DataTableRowTypes[K][];
+        break;
+      case 'usageReport':
+        rows = this.mapUsageReport(csvData, readRow, diagnostics) as DataTableRowTypes[K][];
+        break;
+      default:
+        rows = [];
+    }
+    diagnostics.rowsKept = rows.length;
+    return { rows, diagnostics };
+  }
+
+  /**
+   * Initialise le bilan de conversion à partir de la version de schéma retenue
+   */
+  private createDiagnostics(resolved: ResolvedSchema | null, headers: string[]): TableDiagnostics {
+    return {
+      rowsRead: 0,
+      rowsKept: 0,
+      dropped: {},
+      missingHeaders: resolved && headers.length > 0
+        ? resolved.missingRequired.concat(resolved.missingOptional)
+        : [],
+      unknownHeaders: resolved ? resolved.unknownHeaders : [],
+      invalidNumbers: {},
+      schemaVersion: resolved ? resolved.schema.version : null,
+      aliasedHeaders: resolved ? resolved.aliasedHeaders : {}
+    };
+  }
+
+  private toParsedTable(
+    headers: string[],
+    rows: Record<string, string>[],
+    kind: DataTableKind | undefined
+  ): ParsedTable {
+    const tableKind = kind ?? this.detectTableType(headers);
+    if (!tableKind) {
+      const diagnostics = this.createDiagnostics(null, headers);
+      diagnostics.rowsRead = rows.length;
+      diagnostics.dropped[FORMAT_NOT_RECOGNIZED] = rows.length;
+      return { kind: null, rows: [], diagnostics };
+    }
+
+    // Un fichier vide ne contient aucune ligne : il n'y a pas de colonne à exiger
+    const resolved = this.resolveSchema(tableKind, headers);
+    if (headers.length > 0 && resolved.missingRequired.length > 0) {
+      throw new MissingColumnsError(tableKind, resolved.schema.version, resolved.missingRequired);
+    }
+    return {
+      kind: tableKind,
+      ...this.mapRowsWithDiagnostics(tableKind, rows, resolved, this.createDiagnostics(resolved, headers))
+    } as ParsedTable;
+  }
+
+  private toGenericTable(file: string, headers: string[], rows: Record<string, string>[]): GenericDataTable {
+    const hasDescription = rows.length > 0 && this.looksLikeDescriptionRow(rows[0]);
+    const dataRows = hasDescription ? rows.slice(1) : rows;
+
+    const columns: DataTableColumn[] = headers.map(header => ({
+      name: header,
+      description: hasDescription ? this.parseStringOrNull(rows[0][header]) : null,
+      type: this.inferColumnType(header, dataRows)
+    }));
+
+    const name = (file.split(/[\/\\]/).pop() ?? file).replace(/\.csv$/i, '');
+    return { name, file, columns, rows: dataRows };
+  }
+
+  /**
+   * Détermine si une ligne ressemble à la ligne de description des tables OpenRewrite
+   * (phrases en langage naturel plutôt que des valeurs)
+   */
+  private looksLikeDescriptionRow(row: Record<string, string>): boolean {
+    if (this.isDescriptionRow(row)) return true;
+
+    const values = Object.values(row).map(value => value.trim()).filter(value => value !== '');
+    if (values.length === 0) return false;
+
+    const sentences = values.filter(value =>
+      /\s/.test(value) && value.length >= 12 && isNaN(Number(value)) && !DATE_PATTERN.test(value)
+    );
+    return sentences.length / values.length >= 0.6;
+  }
+
+  /**
+   * Déduit le type d'une colonne à partir d'un échantillon de valeurs non vides
+   */
+  private inferColumnType(header: string, rows: Record<string, string>[]): DataTableColumnType {
+    const sample: string[] = [];
+    for (const row of rows) {
+      const value = (row[header] ?? '').trim();
+      if (value !== '' && value.toLowerCase() !== 'null') {
+        sample.push(value);
+        if (sample.length >= TYPE_INFERENCE_SAMPLE_SIZE) break;
+      }
+    }
+
+    const headerName = header.toLowerCase();
+    if (sample.length === 0) {
+      return headerName.includes('recipe') ? 'recipe' : headerName.includes('path') ? 'path' : 'string';
+    }
+
+    if (sample.every(value => value !== '' && !isNaN(Number(value)))) return 'number';
+    if (sample.every(value => DATE_PATTERN.test(value))) return 'date';
+    const recipePattern = headerName.includes('recipe') ? LOOSE_RECIPE_PATTERN : RECIPE_PATTERN;
+    if (sample.every(value => recipePattern.test(value))) return 'recipe';
+    if (sample.every(value => PATH_PATTERN.test(value))) return 'path';
+
+    return 'string';
+  }
+
+  /**
+   * Convertit les lignes CSV brutes en RecipeRunStats
+   */
+  private mapRecipeRunStats(
+    csvData: Record<string, string>[],
+    readRow: (row: Record<string, string>) => Record<string, unknown>,
+    diagnostics: TableDiagnostics
+  ): RecipeRunStats[] {
+    // Ignore la première ligne si c'est une description
+    const dataRows = csvData.filter((_, index) => index > 0 || !this.isDescriptionRow(csvData[0]));
+    diagnostics.rowsRead = dataRows.length;
+
+    return dataRows
+      .map(row => readRow(row) as unknown as RecipeRunStats)
+      .filter(item => this.keepRow(item.recipe.trim() !== '', 'Nom de recette vide', diagnostics));
+  }
+
+  /**
+   * Convertit les lignes CSV brutes en SourceFileResults
+   */
+  private mapSourceFileResults(
+    csvData: Record<string, string>[],
+    readRow: (row: Record<string, string>) => Record<string, unknown>,
+    diagnostics: TableDiagnostics
+  ): SourceFileResults[] {
+    // Ignore la première ligne si c'est une description
+    const dataRows = csvData.filter((_, index) => index > 0 || !this.isDescriptionRow(csvData[0]));
+    diagnostics.rowsRead = dataRows.length;
+
+    return dataRows
+      .map(row => readRow(row) as unknown as SourceFileResults)
+      .filter(item =>
+        this.keepRow(item.recipeChanges.trim() !== '', 'Recette ayant fait le changement vide', diagnostics)
+      );
+  }
+
+  /**
+   * Convertit les lignes CSV brutes en UsageReportEntry
+   */
+  private mapUsageReport(
+    csvData: Record<string, string>[],
+    readRow: (row: Record<string, string>) => Record<string, unknown>,
+    diagnostics: TableDiagnostics
+  ): UsageReportEntry[] {
+    diagnostics.rowsRead = csvData.length;
+
+    return csvData
+      .map(row => readRow(row) as unknown as UsageReportEntry)
+      // Toutes les exécutions sont conservées : la règle d'inclusion (DataProcessor.applyInclusionRule) filtre à l'affichage
+      .filter(item => this.keepRow(Boolean(item.runId && item.recipeId), 'runId ou recipeId manquant', diagnostics));
+  }
+
+  /**
+   * Lit une ligne CSV selon la version de schéma retenue : un champ par colonne du schéma,
+   * converti dans son type et son unité. Une colonne facultative absente vaut '', null ou 0.
+   */
+  private readRow(
+    row: Record<string, string>,
+    resolved: ResolvedSchema,
+    diagnostics: TableDiagnostics
+  ): Record<string, unknown> {
+    const item: Record<string, unknown> = {};
+    resolved.columns.forEach(({ column, header, factor }) => {
+      const value = header !== null ? row[header] : undefined;
+      switch (column.type) {
+        case 'string':
+          item[column.field] = this.parseString(value);
+          break;
+        case 'nullableString':
+          item[column.field] = this.parseStringOrNull(value);
+          break;
+        case 'number':
+          item[column.field] = header !== null ? this.readNumber(row, header, diagnostics) * factor : 0;
+          break;
+      }
+    });
+    return item;
+  }
+
+  /**
+   * Retourne keep ; une ligne écartée est comptée avec son motif dans le bilan
+   */
+  private keepRow(keep: boolean, reason: string, diagnostics: TableDiagnostics): boolean {
+    if (!keep) {
+      diagnostics.dropped[reason] = (diagnostics.dropped[reason] || 0) + 1;
+    }
+    return keep;
+  }
+
+  /**
+   * Lit une colonne numérique ; une valeur non vide mais non numérique vaut 0 et est comptée dans le bilan
+   */
+  private readNumber(row: Record<string, string>, column: string, diagnostics: TableDiagnostics): number {
+    const value = row[column];
+    const parsed = this.parseNumber(value);
+
+    if (parsed === 0 && this.parseStringOrNull(value) !== null && isNaN(parseFloat(this.parseString(value)))) {
+      diagnostics.invalidNumbers[column] = (diagnostics.invalidNumbers[column] || 0) + 1;
+    }
+    return parsed;
+  }
+
+  /**
+   * Vérifie si une ligne est une ligne de description (en-tête explicatif)
+   */
+  private isDescriptionRow(row: Record<string, string>): boolean {
+    if (!row) return false;
+
+    // Recherche des mots-clés indiquant une description
+    const firstValue = Object.values(row)[0];
+    if (!firstValue) return false;
+
+    const descriptionKeywords = [
+      'The recipe whose stats are being measured',
+      'The source path of the file before the run',
+      'measured both individually',
+      'null when'
+    ];
+
+    return descriptionKeywords.some(keyword =>
+      firstValue.toLowerCase().includes(keyword.toLowerCase())
+    );
+  }
+
+  /**
+   * Parse une chaîne de caractères en gérant les quotes et espaces
+   */
+  private parseString(value: string | undefined): string {
+    if (value === null || value === undefined) return '';
+
+    let str = value.trim();
+
+    // Supprime les guillemets de début et fin si présents
+    if ((str.startsWith('"') && str.endsWith('"')) ||
+        (str.startsWith("'") && str.endsWith("'"))) {
+      str = str.slice(1, -1);
+    }
+
+    return str;
+  }
+
+  /**
+   * Parse une chaîne en retournant null si vide ou "null"
+   */
+  private parseStringOrNull(value: string | undefined): string | null {
+    const parsed = this.parseString(value);
+    return parsed === '' || parsed.toLowerCase() === 'null' ? null : parsed;
+  }
+
+  /**
+   * Parse un nombre en gérant les formats scientifiques et les erreurs
+   */
+  private parseNumber(value: string | undefined): number {
+    if (value === null || value === undefined || value === '') return 0;
+
+    // Conversion en chaîne et nettoyage
+    let str = value.trim();
+
+    // Supprime les guillemets si présents
+    if ((str.startsWith('"') && str.endsWith('"')) ||
+        (str.startsWith("'") && str.endsWith("'"))) {
+      str = str.slice(1, -1).trim();
+    }
+
+    // Gestion des valeurs vides ou "null"
+    if (str === '' || str.toLowerCase() === 'null') return 0;
+
+    // Parse le nombre (gère automatiquement la notation scientifique)
+    const parsed = parseFloat(str);
+
+    return isNaN(parsed) ? 0 : parsed;
+  }
+}
+
+// Export d'une instance singleton
+export const tableParser = TableParser.getInstance();
@@ -0,0 +1,132 @@
+import { ColumnUnit, DataTableKind, TableSchema } from '../types';
+
+/**
+ * Schémas des tables reconnues, par type puis par version
+ * Chaque version décrit un format d'en-têtes ; les alias couvrent les colonnes renommées
+ * d'une version d'OpenRewrite / Moderne à l'autre. En cas d'égalité, la première version l'emporte.
+ * Modifier les lignes produites impose d'incrémenter PARSED_DATA_VERSION (PersistentCache).
+ */
+export const TABLE_SCHEMAS: { [K in DataTableKind]: TableSchema<K>[] } = {
+  recipeRunStats: [
+    {
+      kind: 'recipeRunStats',
+      version: 'rewrite-8',
+      description: 'En-têtes descriptifs (rewrite 8, unités en suffixe)',
+      columns: [
+        { field: 'recipe', header: 'The recipe', type: 'string', required: true },
+        { field: 'sourceFileCount', header: 'Source file count', type: 'number', required: true },
+        { field: 'sourceFileChangedCount', header: 'Source file changed count', type: 'number', required: true },
+        {
+          field: 'cumulativeScanningTime', header: 'Cumulative scanning time (ns)', type: 'number', unit: 'ns', required: true,
+          aliases: ['Cumulative scanning time', { header: 'Cumulative scanning time (ms)', unit: 'ms' }]
+        },
+        {
+          field: 'percentile99ScanningTime', header: '99th percentile scanning time (ns)', type: 'number', unit: 'ns', required: false,
+          aliases: ['99th percentile scanning time', { header: '99th percentile scanning time (ms)', unit: 'ms' }]
+        },
+        {
+          field: 'maxScanningTime', header: 'Max scanning time (ns)', type: 'number', unit: 'ns', required: false,
+          aliases: ['Max scanning time', { header: 'Max scanning time (ms)', unit: 'ms' }]
+        },
+        {
+          field: 'cumulativeEditTime', header: 'Cumulative edit time (ns)', type: 'number', unit: 'ns', required: true,
+          aliases: ['Cumulative edit time', { header: 'Cumulative edit time (ms)', unit: 'ms' }]
+        },
+        {
+          field: 'percentile99EditTime', header: '99th percentile edit time (ns)', type: 'number', unit: 'ns', required: false,
+          aliases: ['99th percentile edit time', { header: '99th percentile edit time (ms)', unit: 'ms' }]
+        },
+        {
+          field: 'maxEditTime', header: 'Max edit time (ns)', type: 'number', unit: 'ns', required: false,
+          aliases: ['Max edit time', { header: 'Max edit time (ms)', unit: 'ms' }]
+        },
+      ],
+    },
+  ],
+  sourceFileResults: [
+    {
+      kind: 'sourceFileResults',
+      version: 'rewrite-8',
+      description: 'En-têtes descriptifs (rewrite 8)',
+      columns: [
+        { field: 'sourcePathBefore', header: 'Source path before the run', type: 'nullableString', required: true },
+        { field: 'sourcePathAfter', header: 'Source path after the run', type: 'nullableString', required: true },
+        { field: 'parentRecipe', header: 'Parent of the recipe that made changes', type: 'nullableString', required: false },
+        { field: 'recipeChanges', header: 'Recipe that made changes', type: 'string', required: true },
+        {
+          field: 'estimatedTimeSaving', header: 'Estimated time saving', type: 'number', unit: 's', required: true,
+          aliases: ['Estimated time saving (s)', { header: 'Estimated time saving (ms)', unit: 'ms' }]
+        },
+        { field: 'cycle', header: 'Cycle', type: 'number', required: false },
+      ],
+    },
+  ],
+  usageReport: [
+    {
+      kind: 'usageReport',
+      version: 'moderne-v1',
+      description: 'Usage report Moderne',
+      columns: [
+        { field: 'runId', header: 'runId', type: 'string', required: true },
+        { field: 'recipeId', header: 'recipeId', type: 'string', required: true },
+        { field: 'organizationId', header: 'organizationId', type: 'string', required: false },
+        { field: 'recipeRunState', header: 'recipeRunState', type: 'string', required: true },
+        { field: 'repositoryOrigin', header: 'repositoryOrigin', type: 'string', required: false },
+        { field: 'repositoryPath', header: 'repositoryPath', type: 'string', required: true },
+        { field: 'repositoryBranch', header: 'repositoryBranch', type: 'string', required: false },
+        { field: 'recipeRunUserEmail', header: 'recipeRunUserEmail', type: 'string', required: false },
+        { field: 'errorMarkers', header: 'errorMarkers', type: 'number', required: false },
+        { field: 'warningMarkers', header: 'warningMarkers', type: 'number', required: false },
+        { field: 'infoMarkers', header: 'infoMarkers', type: 'number', required: false },
+        { field: 'debugMarkers', header: 'debugMarkers', type: 'number', required: false },
+        { field: 'totalFilesResults', header: 'totalFilesResults', type: 'number', required: false },
+        { field: 'totalFilesSearched', header: 'totalFilesSearched', type: 'number', required: false },
+        { field: 'totalFilesChanges', header: 'totalFilesChanges', type: 'number', required: true },
+        {
+          field: 'timeSavingsInMinutes', header: 'timeSavingsInMinutes', type: 'number', unit: 'min', required: true,
+          aliases: [{ header: 'timeSavingsInSeconds', unit: 's' }]
+        },
+        { field: 'astLoadInMilliseconds', header: 'astLoadInMilliseconds', type: 'number', unit: 'ms', required: false },
+        { field: 'recipeRunInMilliseconds', header: 'recipeRunInMilliseconds', type: 'number', unit: 'ms', required: false },
+        {
+          field: 'dependencyResolutionInMilliseconds', header: 'dependencyResolutionInMilliseconds',
+          type: 'number', unit: 'ms', required: false
+        },
+        { field: 'recipeRunCreatedAt', header: 'recipeRunCreatedAt', type: 'string', required: true },
+        { field: 'recipeRunUpdatedAt', header: 'recipeRunUpdatedAt', type: 'string', required: false },
+        { field: 'stack', header: 'stack', type: 'string', required: false },
+        { field: 'priority', header: 'priority', type: 'string', required: false },
+        { field: 'commitId', header: 'commitId', type: 'nullableString', required: false },
+        { field: 'type', header: 'type', type: 'nullableString', required: false },
+        { field: 'commitState', header: 'commitState', type: 'nullableString', required: false },
+        { field: 'commitUserEmail', header: 'commitUserEmail', type: 'nullableString', required: false },
+        { field: 'commitModifiedAt', header: 'commitModifiedAt', type: 'nullableString', required: false },
+      ],
+    },
+  ],
+};
+
+// Champs caractéristiques permettant de reconnaitre chaque type de fichier, quelle que soit la version
+// Uniquement des colonnes obligatoires : un fichier sans colonne facultative reste reconnu
+export const TABLE_SIGNATURE_FIELDS: Record<DataTableKind, string[]> = {
+  recipeRunStats: ['recipe', 'cumulativeScanningTime'],
+  sourceFileResults: ['recipeChanges', 'estimatedTimeSaving'],
+  usageReport: ['runId', 'recipeId', 'recipeRunState'],
+};
+
+// Valeur de chaque unité en nanosecondes
+const UNIT_IN_NANOSECONDS: Record<ColumnUnit, number> = {
+  ns: 1,
+  ms: 1e6,
+  s: 1e9,
+  min: 6e10,
+  h: 3.6e12,
+};
+
+/**
+ * Facteur de conversion d'une valeur exprimée en `from` vers l'unité `to`
+ */
+export function unitFactor(from: ColumnUnit | undefined, to: ColumnUnit | undefined): number {
+  if (!from || !to || from === to) return 1;
+  return UNIT_IN_NANOSECONDS[from] / UNIT_IN_NANOSECONDS[to];
+}
@@ -0,0 +1,151 @@
+/**
+ * Entrée (fichier) d'une archive ZIP
+ */
+export interface ZipEntry {
+  /** Chemin complet dans l'archive, séparateur / */
+  path: string;
+  /** Taille décompressée en octets */
+  size: number;
+  /** Décompresse et retourne le contenu de l'entrée */
+  read: () => Promise<Uint8Array>;
+}
+
+/**
+ * Erreur levée pour une archive illisible ou utilisant un format non supporté
+ */
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+// Signatures des enregistrements ZIP
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Méthodes de compression supportées
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// Taille de l'enregistrement de fin de répertoire central (EOCD) sans commentaire
+const END_OF_CENTRAL_DIRECTORY_LENGTH = 22;
+
+// Taille fixe d'un en-tête du répertoire central et d'un en-tête local, hors nom et champs variables
+const CENTRAL_DIRECTORY_HEADER_LENGTH = 46;
+const LOCAL_FILE_HEADER_LENGTH = 30;
+
+// Taille maximale du commentaire de fin d'archive, qui précède la recherche de l'EOCD
+const MAX_COMMENT_LENGTH = 0xffff;
+
+/**
+ * Décompresse un flux deflate brut avec l'API native du navigateur
+ */
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new ZipFormatError('Ce navigateur ne sait pas décompresser les archives ZIP (DecompressionStream absent)');
+  }
+  // Copie dans un ArrayBuffer dédié : la vue peut porter sur toute l'archive
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Liste les fichiers d'une archive ZIP à partir de son répertoire central
+ *
+ * Seules les méthodes "stored" et "deflate" sont supportées ; les archives ZIP64
+ * et chiffrées sont refusées avec une ZipFormatError. Les dossiers et les
+ * métadonnées macOS (__MACOSX, ._*) sont ignorés.
+ */
+export function readZipEntries(buffer: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // Fichier vide ou tronqué : trop court pour contenir la fin de répertoire central
+  if (buffer.byteLength < END_OF_CENTRAL_DIRECTORY_LENGTH) {
+    throw new ZipFormatError('Archive ZIP invalide : fichier trop court');
+  }
+
+  // Recherche de l'enregistrement de fin de répertoire central, depuis la fin
+  let eocdOffset = -1;
+  const searchStart = Math.max(0, buffer.byteLength - END_OF_CENTRAL_DIRECTORY_LENGTH - MAX_COMMENT_LENGTH);
+  for (let offset = buffer.byteLength - END_OF_CENTRAL_DIRECTORY_LENGTH; offset >= searchStart; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      eocdOffset = offset;
+      break;
+    }
+  }
+  if (eocdOffset < 0) {
+    throw new ZipFormatError("Archive ZIP invalide : fin de répertoire central introuvable");
+  }
+
+  const entryCount = view.getUint16(eocdOffset + 10, true);
+  const directoryOffset = view.getUint32(eocdOffset + 16, true);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new ZipFormatError('Les archives ZIP64 ne sont pas supportées');
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    // Répertoire central tronqué, ou nombre d'entrées et position incohérents avec la taille du fichier
+    if (offset + CENTRAL_DIRECTORY_HEADER_LENGTH > view.byteLength) {
+      throw new ZipFormatError(`Archive ZIP invalide : entrée ${i + 1} du répertoire central hors du fichier`);
+    }
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new ZipFormatError(`Archive ZIP invalide : entrée ${i + 1} du répertoire central corrompue`);
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const entryLength = CENTRAL_DIRECTORY_HEADER_LENGTH + nameLength + extraLength + commentLength;
+    if (offset + entryLength > view.byteLength) {
+      throw new ZipFormatError(`Archive ZIP invalide : entrée ${i + 1} du répertoire central tronquée`);
+    }
+    const path = decoder.decode(bytes.subarray(offset + CENTRAL_DIRECTORY_HEADER_LENGTH, offset + CENTRAL_DIRECTORY_HEADER_LENGTH + nameLength));
+
+    offset += entryLength;
+
+    const fileName = path.split('/').pop() ?? '';
+    if (path.endsWith('/') || path.startsWith('__MACOSX/') || fileName.startsWith('._')) {
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new ZipFormatError(`Entrée chiffrée non supportée : ${path}`);
+    }
+    if (method !== METHOD_STORED && method !== METHOD_DEFLATE) {
+      throw new ZipFormatError(`Méthode de compression ${method} non supportée : ${path}`);
+    }
+
+    entries.push({
+      path,
+      size,
+      read: async () => {
+        if (localHeaderOffset + LOCAL_FILE_HEADER_LENGTH > view.byteLength
+          || view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+          throw new ZipFormatError(`Archive ZIP invalide : en-tête local corrompu pour ${path}`);
+        }
+        // Les longueurs du nom et du champ extra peuvent différer de celles du répertoire central
+        const dataOffset = localHeaderOffset + LOCAL_FILE_HEADER_LENGTH
+          + view.getUint16(localHeaderOffset + 26, true)
+          + view.getUint16(localHeaderOffset + 28, true);
+        if (dataOffset + compressedSize > view.byteLength) {
+          throw new ZipFormatError(`Archive ZIP invalide : contenu tronqué pour ${path}`);
+        }
+        const data = bytes.subarray(dataOffset, dataOffset + compressedSize);
+        return method === METHOD_STORED ? data : inflateRaw(data);
+      }
+    });
+  }
+
+  return entries;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_APP_CONFIG, normalizeAppConfig, resolveHourlyRate } from '../AppConfig';
+
+describe('normalizeAppConfig', () => {
+  it('complète une configuration partielle et ignore les valeurs invalides', () => {
+    const config = normalizeAppConfig({
+      dataBaseUrl: null,
+      dataFiles: { manifest: '/exports/manifest.json', recipeRunStats: '' },
+      currency: 'chf',
+      defaultFilters: { repository: 'team/repo', inclusionPreset: 'everything' },
+      costModel: { hourlyRate: -1, computeCostPerHour: 3, teamRates: { 'team/': 90, other: 'cher', '': 10 } }
+    });
+
+    expect(config.dataFiles).toEqual({ ...DEFAULT_APP_CONFIG.dataFiles, manifest: '/exports/manifest.json' });
+    expect(config.currency).toBe('CHF');
+    expect(config.defaultFilters).toEqual({ repository: 'team/repo', inclusionPreset: 'committed' });
+    expect(config.costModel).toEqual({ hourlyRate: 75, computeCostPerHour: 3, repositoryRates: {}, teamRates: { team: 90 } });
+  });
+
+  it('retourne la configuration par défaut pour une valeur qui n\'est pas un objet', () => {
+    expect(normalizeAppConfig(null)).toEqual(DEFAULT_APP_CONFIG);
+    expect(normalizeAppConfig(['config'])).toEqual(DEFAULT_APP_CONFIG);
+  });
+});
+
+describe('resolveHourlyRate', () => {
+  const costModel = {
+    hourlyRate: 75,
+    computeCostPerHour: 2,
+    repositoryRates: { 'org/team/special': 200 },
+    teamRates: { org: 80, 'org/team': 120 }
+  };
+
+  it('retient le taux du repository avant celui de son équipe', () => {
+    expect(resolveHourlyRate('org/team/special', costModel)).toBe(200);
+  });
+
+  it('retient le préfixe d\'équipe le plus long', () => {
+    expect(resolveHourlyRate('org/team/repo', costModel)).toBe(120);
+    expect(resolveHourlyRate('org/other', costModel)).toBe(80);
+  });
+
+  it('ne compare les préfixes que segment par segment', () => {
+    expect(resolveHourlyRate('org/teammates/repo', costModel)).toBe(80);
+    expect(resolveHourlyRate('organisation/repo', costModel)).toBe(75);
+  });
+
+  it('utilise le taux par défaut sans repository ni équipe correspondante', () => {
+    expect(resolveHourlyRate('elsewhere/repo', costModel)).toBe(75);
+    expect(resolveHourlyRate(null, costModel)).toBe(75);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compileChangeTypeTaxonomy,
+  DEFAULT_CHANGE_TYPE_TAXONOMY,
+  normalizeChangeTypeTaxonomy
+} from '../ChangeTypeTaxonomy';
+
+describe('compileChangeTypeTaxonomy', () => {
+  const classify = compileChangeTypeTaxonomy(DEFAULT_CHANGE_TYPE_TAXONOMY);
+
+  it('classe une recette par la première règle qui la reconnait, à défaut par son package', () => {
+    expect(classify('org.openrewrite.java.OrderImports').name).toBe('Import Organization');
+    expect(classify('org.openrewrite.java.spring.boot3.UpgradeSpringBoot').name).toBe('boot3');
+    expect(classify('Standalone').name).toBe('Other');
+  });
+});
+
+describe('normalizeChangeTypeTaxonomy', () => {
+  it('ignore les entrées mal formées et complète les catégories citées', () => {
+    const taxonomy = normalizeChangeTypeTaxonomy({
+      categories: [null, 'Security', { name: ' Build ', color: '#123456' }, { name: 42 }],
+      rules: [
+        { match: 'glob', pattern: '*gradle*', category: 'Build' },
+        { match: 'prefix', pattern: 'org.*', category: 'Build' },
+        { match: 'regex', pattern: '(', category: 'Build' },
+        { match: 'recipe', pattern: 'org.example.Upgrade', category: 'Upgrade' },
+        'glob'
+      ],
+      packageFallback: 'no',
+      defaultCategory: 7
+    });
+
+    expect(taxonomy.categories.map(category => category.name)).toEqual(['Build', 'Upgrade', 'Other']);
+    expect(taxonomy.categories[0].color).toBe('#123456');
+    expect(taxonomy.rules.map(rule => rule.pattern)).toEqual(['*gradle*', 'org.example.Upgrade']);
+    expect(taxonomy.packageFallback).toBe(DEFAULT_CHANGE_TYPE_TAXONOMY.packageFallback);
+    expect(taxonomy.defaultCategory).toBe('Other');
+  });
+
+  it('retourne la taxonomie par défaut pour une valeur qui n\'est pas un objet', () => {
+    expect(normalizeChangeTypeTaxonomy(null)).toBe(DEFAULT_CHANGE_TYPE_TAXONOMY);
+    expect(normalizeChangeTypeTaxonomy([])).toBe(DEFAULT_CHANGE_TYPE_TAXONOMY);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { CsvParseError, CsvTokenizer, parseCSVText } from '../CsvParser';
+
+// Enregistrements produits par le tokenizer pour une suite de morceaux
+const tokenize = (...chunks: string[]) => {
+  const tokenizer = new CsvTokenizer();
+  return [...chunks.flatMap(chunk => tokenizer.push(chunk)), ...tokenizer.end()];
+};
+
+describe('CsvTokenizer', () => {
+  it('lit les champs entre guillemets, les guillemets échappés et les séparateurs', () => {
+    const records = tokenize('a,"b,c","say ""hi"""\n');
+    expect(records).toEqual([{ fields: ['a', 'b,c', 'say "hi"'], line: 1 }]);
+  });
+
+  it('conserve les sauts de ligne d\'un champ entre guillemets et numérote les lignes', () => {
+    const records = tokenize('a,b\n"multi\nligne",x\nc,d');
+    expect(records.map(record => record.fields)).toEqual([['a', 'b'], ['multi\nligne', 'x'], ['c', 'd']]);
+    expect(records.map(record => record.line)).toEqual([1, 2, 4]);
+  });
+
+  it('accepte les fins de ligne CRLF, LF et CR', () => {
+    const records = tokenize('a\r\nb\nc\rd');
+    expect(records.map(record => record.fields[0])).toEqual(['a', 'b', 'c', 'd']);
+    expect(records.map(record => record.line)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('produit le même résultat quel que soit le découpage en morceaux', () => {
+    const text = 'h1,h2\r\n"x ""y""",z\r\n';
+    const whole = tokenize(text);
+    const split = tokenize(...text.split(''));
+    expect(split).toEqual(whole);
+  });
+
+  it('ignore le BOM en début de flux et les lignes vides', () => {
+    const records = tokenize('\uFEFFa,b\n\n1,2\n');
+    expect(records.map(record => record.fields)).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('émet le dernier enregistrement sans saut de ligne final, y compris un champ vide', () => {
+    expect(tokenize('a,b').map(record => record.fields)).toEqual([['a', 'b']]);
+    expect(tokenize('a,').map(record => record.fields)).toEqual([['a', '']]);
+  });
+
+  it('signale un guillemet non fermé avec sa position', () => {
+    const tokenizer = new CsvTokenizer();
+    tokenizer.push('a,b\nc,"ouvert');
+    const error = (() => {
+      try {
+        tokenizer.end();
+      } catch (thrown) {
+        return thrown;
+      }
+    })();
+    expect(error).toBeInstanceOf(CsvParseError);
+    expect(error).toMatchObject({ line: 2, column: 3 });
+  });
+
+  it('refuse un guillemet au milieu d\'un champ sans guillemets ou après un guillemet fermant', () => {
+    expect(() => tokenize('ab"c\n')).toThrowError(CsvParseError);
+    expect(() => tokenize('"ab"c\n')).toThrowError(CsvParseError);
+  });
+});
+
+describe('parseCSVText', () => {
+  it('indexe les lignes par en-tête et complète les enregistrements courts', () => {
+    const { headers, rows } = parseCSVText(' name , value\nfoo,1\nbar\n');
+    expect(headers).toEqual(['name', 'value']);
+    expect(rows).toEqual([{ name: 'foo', value: '1' }, { name: 'bar', value: '' }]);
+  });
+
+  it('refuse un enregistrement plus long que l\'en-tête', () => {
+    expect(() => parseCSVText('a,b\n1,2,3\n')).toThrowError(/3 champs pour 2 colonnes/);
+  });
+
+  it('retourne une table vide pour un texte vide', () => {
+    expect(parseCSVText('')).toEqual({ headers: [], rows: [] });
+  });
+});
@@ -0,0 +1,592 @@
+import { describe, expect, it } from 'vitest';
+import { DirectoryRollupNode, RecipeRunStats, RunTables, SourceFileResults, UsageInclusionRule, UsageReportEntry } from '../../types';
+import { dataProcessor, RECIPE_OUTLIER_THRESHOLDS, USAGE_INCLUSION_PRESETS } from '../DataProcessor';
+import { tableParser } from '../TableParser';
+
+// Ligne d'usage report minimale ; seules les colonnes utiles au test sont renseignées
+const usageEntry = (overrides: Partial<UsageReportEntry>): UsageReportEntry => ({
+  runId: 'run-1',
+  recipeId: 'org.example.Recipe',
+  organizationId: 'org',
+  recipeRunState: 'FINISHED',
+  repositoryOrigin: 'github.com',
+  repositoryPath: 'team/repo',
+  repositoryBranch: 'main',
+  recipeRunUserEmail: 'dev@example.com',
+  errorMarkers: 0,
+  warningMarkers: 0,
+  infoMarkers: 0,
+  debugMarkers: 0,
+  totalFilesResults: 0,
+  totalFilesSearched: 0,
+  totalFilesChanges: 0,
+  timeSavingsInMinutes: 0,
+  astLoadInMilliseconds: 0,
+  recipeRunInMilliseconds: 0,
+  dependencyResolutionInMilliseconds: 0,
+  recipeRunCreatedAt: '2026-01-01T10:00:00Z',
+  recipeRunUpdatedAt: '2026-01-01T10:00:00Z',
+  stack: '',
+  priority: '',
+  commitId: null,
+  type: null,
+  commitState: null,
+  commitUserEmail: null,
+  commitModifiedAt: null,
+  ...overrides
+});
+
+// Ligne SourcesFileResults d'un fichier non renommé, sauf indication contraire
+const sourceResult = (path: string, overrides: Partial<SourceFileResults>): SourceFileResults => ({
+  sourcePathBefore: path,
+  sourcePathAfter: path,
+  parentRecipe: null,
+  recipeChanges: 'org.example.Recipe',
+  estimatedTimeSaving: 0,
+  cycle: 1,
+  ...overrides
+});
+
+// Statistiques d'une recette sur un fichier modifié, sans temps mesuré
+const recipeStats = (recipe: string, overrides: Partial<RecipeRunStats>): RecipeRunStats => ({
+  recipe,
+  sourceFileCount: 1,
+  sourceFileChangedCount: 1,
+  cumulativeScanningTime: 0,
+  percentile99ScanningTime: 0,
+  maxScanningTime: 0,
+  cumulativeEditTime: 0,
+  percentile99EditTime: 0,
+  maxEditTime: 0,
+  ...overrides
+});
+
+describe('DataProcessor.mergeUsageSnapshots', () => {
+  it('ne conserve qu\'une ligne par exécution et repository, la plus récente', () => {
+    const merged = dataProcessor.mergeUsageSnapshots([
+      {
+        file: 'usage-report-2.csv',
+        order: 2,
+        entries: [usageEntry({ commitState: 'COMPLETED', recipeRunUpdatedAt: '2026-01-02T00:00:00Z' })]
+      },
+      {
+        file: 'usage-report-1.csv',
+        order: 1,
+        entries: [
+          usageEntry({ commitState: null, recipeRunUpdatedAt: '2026-01-01T00:00:00Z' }),
+          usageEntry({ repositoryPath: 'team/other' })
+        ]
+      }
+    ]);
+
+    expect(merged).toHaveLength(2);
+    const run = merged.find(entry => entry.repositoryPath === 'team/repo');
+    expect(run?.commitState).toBe('COMPLETED');
+    expect(run?.snapshots).toEqual(['usage-report-1.csv', 'usage-report-2.csv']);
+  });
+
+  it('retient le snapshot le plus récent à date de mise à jour égale', () => {
+    const merged = dataProcessor.mergeUsageSnapshots([
+      { file: 'b.csv', order: 2, entries: [usageEntry({ timeSavingsInMinutes: 20 })] },
+      { file: 'a.csv', order: 1, entries: [usageEntry({ timeSavingsInMinutes: 10 })] }
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].timeSavingsInMinutes).toBe(20);
+  });
+
+  it('peut fusionner à nouveau un résultat déjà fusionné sans perdre ses snapshots', () => {
+    const loaded = dataProcessor.mergeUsageSnapshots([
+      { file: 'usage-report-1.csv', order: 1, entries: [usageEntry({})] }
+    ]);
+    const dropped = [usageEntry({ snapshots: ['export.csv'], recipeRunUpdatedAt: '2026-01-03T00:00:00Z' })];
+
+    const merged = dataProcessor.mergeUsageSnapshots([
+      { file: 'loaded', order: 0, entries: loaded },
+      { file: 'imported', order: 1, entries: dropped }
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].recipeRunUpdatedAt).toBe('2026-01-03T00:00:00Z');
+    expect(merged[0].snapshots).toEqual(['usage-report-1.csv', 'export.csv']);
+  });
+});
+
+describe('DataProcessor.diffUsageSnapshots', () => {
+  it('sépare les exécutions ajoutées, disparues, modifiées et inchangées, avec le bilan par repository', () => {
+    const before = [
+      usageEntry({ runId: 'a', timeSavingsInMinutes: 10, totalFilesChanges: 1 }),
+      usageEntry({ runId: 'b', timeSavingsInMinutes: 5 }),
+      usageEntry({ runId: 'c', repositoryPath: 'team/other', timeSavingsInMinutes: 3 })
+    ];
+    const after = [
+      usageEntry({ runId: 'a', commitState: 'COMPLETED', timeSavingsInMinutes: 12, totalFilesChanges: 2 }),
+      usageEntry({ runId: 'c', repositoryPath: 'team/other', timeSavingsInMinutes: 3 }),
+      usageEntry({ runId: 'd', repositoryPath: 'team/other', timeSavingsInMinutes: 4, totalFilesChanges: 1 })
+    ];
+
+    const diff = dataProcessor.diffUsageSnapshots(before, after);
+
+    expect(diff.added.map(entry => entry.runId)).toEqual(['d']);
+    expect(diff.removed.map(entry => entry.runId)).toEqual(['b']);
+    expect(diff.unchangedCount).toBe(1);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].after.runId).toBe('a');
+    expect(diff.changed[0].changes).toEqual([
+      { field: 'commitState', before: null, after: 'COMPLETED' },
+      { field: 'timeSavingsInMinutes', before: 10, after: 12 }
+    ]);
+    expect(diff.repositories).toEqual([
+      { repositoryPath: 'team/other', newRuns: 1, vanishedRuns: 0, changedRuns: 0, timeSavingsDelta: 4, filesChangedDelta: 1 },
+      { repositoryPath: 'team/repo', newRuns: 0, vanishedRuns: 1, changedRuns: 1, timeSavingsDelta: -3, filesChangedDelta: 1 }
+    ]);
+  });
+
+  it('identifie une exécution par runId et repository, la dernière ligne d\'un doublon l\'emportant', () => {
+    const before = [
+      usageEntry({ runId: 'x', timeSavingsInMinutes: 1 }),
+      usageEntry({ runId: 'x', timeSavingsInMinutes: 2 })
+    ];
+    const after = [
+      usageEntry({ runId: 'x', timeSavingsInMinutes: 2 }),
+      usageEntry({ runId: 'x', repositoryPath: 'team/other', timeSavingsInMinutes: 5 })
+    ];
+
+    const diff = dataProcessor.diffUsageSnapshots(before, after);
+
+    expect(diff.added.map(entry => entry.repositoryPath)).toEqual(['team/other']);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed).toEqual([]);
+    expect(diff.unchangedCount).toBe(1);
+  });
+});
+
+describe('DataProcessor.applyInclusionRule', () => {
+  const entries = [
+    usageEntry({ runId: 'committed', commitState: 'COMPLETED' }),
+    usageEntry({ runId: 'no-commit', commitState: null }),
+    usageEntry({ runId: 'running', recipeRunState: 'RUNNING' }),
+    usageEntry({ runId: 'queued', recipeRunState: ' queued ' })
+  ];
+  const runIds = (rule: UsageInclusionRule) => dataProcessor.applyInclusionRule(entries, rule).map(entry => entry.runId);
+
+  it('applique les préréglages', () => {
+    expect(runIds(USAGE_INCLUSION_PRESETS.committed.rule)).toEqual(['committed']);
+    expect(runIds(USAGE_INCLUSION_PRESETS.finished.rule)).toEqual(['committed', 'no-commit']);
+    expect(runIds(USAGE_INCLUSION_PRESETS.all.rule)).toEqual(['committed', 'no-commit', 'running', 'queued']);
+  });
+
+  it('compare les valeurs sans tenir compte de la casse ni des espaces, une valeur vide désignant les cellules vides', () => {
+    const rule: UsageInclusionRule = {
+      preset: 'custom',
+      predicates: [
+        { field: 'recipeRunState', operator: 'in', values: ['finished', 'Queued'] },
+        { field: 'commitState', operator: 'in', values: [''] }
+      ]
+    };
+    expect(runIds(rule)).toEqual(['no-commit', 'queued']);
+  });
+});
+
+describe('DataProcessor.countInclusionExclusions', () => {
+  it('compte les exécutions écartées dans chaque snapshot où elles apparaissent', () => {
+    const entries = [
+      usageEntry({ runId: 'a', commitState: 'COMPLETED', snapshots: ['1.csv'] }),
+      usageEntry({ runId: 'b', commitState: null, snapshots: ['1.csv', '2.csv'] }),
+      usageEntry({ runId: 'c', commitState: 'FAILED', snapshots: ['2.csv'] })
+    ];
+
+    expect(dataProcessor.countInclusionExclusions(entries, USAGE_INCLUSION_PRESETS.committed.rule))
+      .toEqual({ '1.csv': 1, '2.csv': 2 });
+    expect(dataProcessor.countInclusionExclusions(entries, USAGE_INCLUSION_PRESETS.all.rule)).toEqual({});
+  });
+});
+
+describe('DataProcessor.countNewRuns', () => {
+  const rule = USAGE_INCLUSION_PRESETS.committed.rule;
+
+  it('ne compte que les exécutions retenues qui n\'étaient pas déjà affichées', () => {
+    const previous = [
+      usageEntry({ runId: 'a', commitState: 'COMPLETED' }),
+      usageEntry({ runId: 'b', commitState: null })
+    ];
+    const current = [
+      // Réexportée sans changement
+      usageEntry({ runId: 'a', commitState: 'COMPLETED' }),
+      // Désormais commitée : nouvellement affichée
+      usageEntry({ runId: 'b', commitState: 'COMPLETED' }),
+      // Nouvelle mais écartée par la règle
+      usageEntry({ runId: 'c', commitState: null }),
+      usageEntry({ runId: 'd', commitState: 'COMPLETED' })
+    ];
+
+    expect(dataProcessor.countNewRuns(previous, current, rule)).toBe(2);
+  });
+
+  it('identifie une exécution par runId et repository', () => {
+    const previous = [usageEntry({ commitState: 'COMPLETED' })];
+    const current = [...previous, usageEntry({ commitState: 'COMPLETED', repositoryPath: 'team/other' })];
+
+    expect(dataProcessor.countNewRuns(previous, current, rule)).toBe(1);
+  });
+});
+
+describe('DataProcessor.buildFileTimelines', () => {
+  it('suit un fichier à travers ses renommages, quel que soit l\'ordre des lignes', () => {
+    const timelines = dataProcessor.buildFileTimelines([
+      sourceResult('src/B.java', { sourcePathAfter: 'src/C.java', recipeChanges: 'R2', cycle: 2, estimatedTimeSaving: 20 }),
+      sourceResult('src/A.java', { sourcePathAfter: 'src/B.java', recipeChanges: 'R1', cycle: 1, estimatedTimeSaving: 10 }),
+      sourceResult('src/C.java', { recipeChanges: 'R3', cycle: 2, estimatedTimeSaving: 5 }),
+      sourceResult('src/D.java', { estimatedTimeSaving: 60 })
+    ]);
+
+    expect(timelines.map(timeline => timeline.path)).toEqual(['src/C.java', 'src/D.java']);
+    const [renamed] = timelines;
+    expect(renamed.previousPaths).toEqual(['src/A.java', 'src/B.java']);
+    expect(renamed.events.map(event => event.recipe)).toEqual(['R1', 'R2', 'R3']);
+    expect(renamed.events.map(event => event.cumulativeTimeSaving)).toEqual([10, 30, 35]);
+    expect(renamed).toMatchObject({ recipeCount: 3, cycleCount: 2, totalTimeSaved: 35, isHotspot: true });
+  });
+
+  it('conserve le dernier chemin connu d\'un fichier supprimé', () => {
+    const timelines = dataProcessor.buildFileTimelines([
+      sourceResult('src/Old.java', { cycle: 1 }),
+      sourceResult('src/Old.java', { sourcePathAfter: null, recipeChanges: 'Delete', cycle: 2 })
+    ]);
+
+    expect(timelines).toHaveLength(1);
+    expect(timelines[0].path).toBe('src/Old.java');
+    expect(timelines[0].events.map(event => event.sourcePathAfter)).toEqual(['src/Old.java', null]);
+  });
+
+  it('signale les points chauds selon les seuils et les place en tête', () => {
+    const rows = [
+      sourceResult('Y', { cycle: 1 }),
+      sourceResult('Y', { cycle: 2 }),
+      sourceResult('X', { recipeChanges: 'R1' }),
+      sourceResult('X', { recipeChanges: 'R2' }),
+      sourceResult('Z', { cycle: 1 }),
+      sourceResult('Z', { cycle: 2 }),
+      sourceResult('Z', { cycle: 3 })
+    ];
+    const hotspots = (thresholds?: { recipes: number; cycles: number }) =>
+      dataProcessor.buildFileTimelines(rows, thresholds).map(timeline => [timeline.path, timeline.isHotspot]);
+
+    expect(hotspots()).toEqual([['Z', true], ['Y', true], ['X', false]]);
+    expect(hotspots({ recipes: 2, cycles: 3 })).toEqual([['X', true], ['Z', true], ['Y', false]]);
+  });
+});
+
+describe('DataProcessor.detectRecipeOutliers', () => {
+  const kinds = (stats: RecipeRunStats[]) =>
+    dataProcessor.detectRecipeOutliers(stats).map(outlier => [outlier.recipe, outlier.flags.map(flag => flag.kind)]);
+
+  it('signale un pic du temps max par rapport au p99, au-delà du bruit', () => {
+    const { minSpikeTime, maxToP99Ratio } = RECIPE_OUTLIER_THRESHOLDS;
+    const outliers = dataProcessor.detectRecipeOutliers([
+      recipeStats('spike', { maxEditTime: minSpikeTime * 2, percentile99EditTime: (minSpikeTime * 2) / maxToP99Ratio }),
+      recipeStats('regular', { maxEditTime: minSpikeTime * 2, percentile99EditTime: minSpikeTime }),
+      recipeStats('noise', { maxScanningTime: minSpikeTime / 2, percentile99ScanningTime: 1 })
+    ]);
+
+    expect(outliers).toHaveLength(1);
+    expect(outliers[0].recipe).toBe('spike');
+    expect(outliers[0].flags).toEqual([
+      { kind: 'maxSpike', phase: 'edit', value: minSpikeTime * 2, reference: (minSpikeTime * 2) / maxToP99Ratio }
+    ]);
+  });
+
+  it('ne conclut pas à un pic sans p99 mesuré', () => {
+    expect(kinds([recipeStats('no-p99', { maxScanningTime: RECIPE_OUTLIER_THRESHOLDS.minSpikeTime * 100 })])).toEqual([]);
+  });
+
+  it('signale le temps moyen par fichier aberrant à partir de quelques recettes comparables', () => {
+    const averages = [1e6, 1.2e6, 1.5e6, 2e6, 1e9];
+    const stats = averages.map((average, index) => recipeStats(`r${index}`, { cumulativeScanningTime: average }));
+
+    expect(kinds(stats)).toEqual([['r4', ['slowPerFile']]]);
+    expect(kinds(stats.slice(2))).toEqual([]);
+  });
+
+  it('signale les recettes sans changement sur de nombreux fichiers et trie par nombre d\'anomalies', () => {
+    const { minScannedFiles, minSpikeTime } = RECIPE_OUTLIER_THRESHOLDS;
+    const outliers = kinds([
+      recipeStats('idle', { sourceFileCount: minScannedFiles, sourceFileChangedCount: 0 }),
+      recipeStats('few-files', { sourceFileCount: minScannedFiles - 1, sourceFileChangedCount: 0 }),
+      recipeStats('idle-spike', {
+        sourceFileCount: minScannedFiles,
+        sourceFileChangedCount: 0,
+        maxScanningTime: minSpikeTime * 10,
+        percentile99ScanningTime: minSpikeTime / 10
+      })
+    ]);
+
+    expect(outliers).toEqual([['idle-spike', ['maxSpike', 'noChanges']], ['idle', ['noChanges']]]);
+  });
+});
+
+describe('DataProcessor.buildRecipeHierarchy', () => {
+  it('rattache une recette à son parent le plus fréquent et cumule les métriques du sous-arbre', () => {
+    const roots = dataProcessor.buildRecipeHierarchy(
+      [
+        recipeStats('A', { cumulativeScanningTime: 2_000_000 }),
+        recipeStats('C', { cumulativeScanningTime: 1_000_000 })
+      ],
+      [
+        sourceResult('a.java', { recipeChanges: 'C', parentRecipe: 'A', estimatedTimeSaving: 10 }),
+        sourceResult('b.java', { recipeChanges: 'C', parentRecipe: 'A', estimatedTimeSaving: 10 }),
+        sourceResult('c.java', { recipeChanges: 'C', parentRecipe: 'B', estimatedTimeSaving: 5 }),
+        sourceResult('d.java', { recipeChanges: 'A', estimatedTimeSaving: 7 })
+      ]
+    );
+
+    // B, connue uniquement comme parent, devient une racine sans statistiques
+    expect(roots.map(root => root.name)).toEqual(['A', 'B']);
+    const [a, b] = roots;
+    expect(a.children.map(child => child.name)).toEqual(['C']);
+    expect(a.children[0]).toMatchObject({ parent: 'A', depth: 1 });
+    expect(a.rollup).toEqual({ totalTimeSaved: 32, totalExecutionTimeMs: 3, changeCount: 4, descendantCount: 1 });
+    expect(b.children).toEqual([]);
+    expect(b.metrics.totalExecutionTimeMs).toBe(0);
+  });
+
+  it('refuse le lien parent qui fermerait un cycle', () => {
+    const roots = dataProcessor.buildRecipeHierarchy([], [
+      sourceResult('a.java', { recipeChanges: 'X', parentRecipe: 'Y' }),
+      sourceResult('b.java', { recipeChanges: 'Y', parentRecipe: 'X' })
+    ]);
+
+    expect(roots.map(root => root.name)).toEqual(['Y']);
+    expect(roots[0].children.map(child => child.name)).toEqual(['X']);
+    expect(roots[0].rollup).toMatchObject({ changeCount: 2, descendantCount: 1 });
+  });
+
+  it('ignore une recette déclarée comme son propre parent', () => {
+    const roots = dataProcessor.buildRecipeHierarchy([recipeStats('A', {})], [
+      sourceResult('a.java', { recipeChanges: 'A', parentRecipe: 'A' })
+    ]);
+
+    expect(roots).toHaveLength(1);
+    expect(roots[0]).toMatchObject({ name: 'A', parent: null, children: [] });
+  });
+});
+
+describe('DataProcessor.mergeRecipeRunStats', () => {
+  it('additionne les compteurs et retient le pire maximum et le plus grand p99, marqué approximatif', () => {
+    const merged = dataProcessor.mergeRecipeRunStats([
+      [recipeStats('A', { sourceFileCount: 10, sourceFileChangedCount: 2, cumulativeScanningTime: 100, maxScanningTime: 40, percentile99ScanningTime: 30, percentile99EditTime: 8 })],
+      [recipeStats('A', { sourceFileCount: 5, sourceFileChangedCount: 1, cumulativeScanningTime: 50, maxScanningTime: 60, percentile99ScanningTime: 20, percentile99EditTime: 12 })],
+      [recipeStats('B', { sourceFileCount: 3 })]
+    ]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({
+      recipe: 'A',
+      sourceFileCount: 15,
+      sourceFileChangedCount: 3,
+      cumulativeScanningTime: 150,
+      maxScanningTime: 60,
+      percentile99ScanningTime: 30,
+      percentile99EditTime: 12,
+      runCount: 2,
+      percentilesApproximate: true
+    });
+    // Une recette présente dans une seule exécution garde des percentiles exacts
+    expect(merged[1]).toMatchObject({ recipe: 'B', sourceFileCount: 3, runCount: 1 });
+    expect(merged[1].percentilesApproximate).toBeUndefined();
+  });
+
+  it('retient le p99 de l\'exécution qui le fournit quand l\'autre fichier n\'a pas la colonne', () => {
+    // Colonne facultative absente : le parser la lit à 0
+    const [merged] = dataProcessor.mergeRecipeRunStats([
+      [recipeStats('A', { percentile99ScanningTime: 0, percentile99EditTime: 0 })],
+      [recipeStats('A', { percentile99ScanningTime: 25, percentile99EditTime: 9 })]
+    ]);
+
+    expect(merged).toMatchObject({ percentile99ScanningTime: 25, percentile99EditTime: 9, percentilesApproximate: true });
+  });
+
+  it('ne modifie pas les lignes d\'origine', () => {
+    const first = recipeStats('A', { sourceFileCount: 1 });
+    dataProcessor.mergeRecipeRunStats([[first], [recipeStats('A', { sourceFileCount: 2 })]]);
+
+    expect(first.sourceFileCount).toBe(1);
+    expect(first.runCount).toBeUndefined();
+  });
+});
+
+describe('DataProcessor.selectScopedRunTables', () => {
+  const run = (runId: string, repositoryPath: string, overrides: Partial<RunTables>): RunTables => ({
+    runId,
+    repositoryPath,
+    origin: 'manifest',
+    recipeStats: null,
+    sourceResults: null,
+    ...overrides
+  });
+  const runs = [
+    run('run-1', 'team/a', { recipeStats: [recipeStats('A', { sourceFileCount: 2 })], sourceResults: [sourceResult('a.java', {})] }),
+    run('run-2', 'team/b', { recipeStats: [recipeStats('A', { sourceFileCount: 3 })], sourceResults: [sourceResult('b.java', {})] }),
+    run('run-3', 'team/b', {})
+  ];
+
+  it('ne s\'applique pas au périmètre du jeu de données', () => {
+    expect(dataProcessor.selectScopedRunTables(runs, { kind: 'dataset' })).toBeNull();
+  });
+
+  it('fusionne toutes les exécutions de la flotte', () => {
+    const scoped = dataProcessor.selectScopedRunTables(runs, { kind: 'fleet' });
+
+    expect(scoped?.runs).toHaveLength(3);
+    expect(scoped?.recipeStats).toEqual([expect.objectContaining({ recipe: 'A', sourceFileCount: 5, runCount: 2 })]);
+    expect(scoped?.sourceResults.map(result => result.sourcePathAfter)).toEqual(['a.java', 'b.java']);
+  });
+
+  it('ne retient que les exécutions du repository choisi', () => {
+    const scoped = dataProcessor.selectScopedRunTables(runs, { kind: 'repository', repositoryPath: 'team/b' });
+
+    expect(scoped?.runs.map(selected => selected.runId)).toEqual(['run-2', 'run-3']);
+    expect(scoped?.recipeStats).toEqual([expect.objectContaining({ recipe: 'A', sourceFileCount: 3, runCount: 1 })]);
+    expect(scoped?.sourceResults).toHaveLength(1);
+  });
+});
+
+describe('DataProcessor : valorisation par taux horaire', () => {
+  const costModel = {
+    hourlyRate: 60,
+    computeCostPerHour: 10,
+    repositoryRates: { 'team/special': 240 },
+    teamRates: { team: 120 }
+  };
+
+  it('valorise chaque ligne d\'usage report au taux de son repository ou de son équipe', () => {
+    const financial = dataProcessor.calculateUsageFinancialMetrics([
+      usageEntry({ repositoryPath: 'team/special', timeSavingsInMinutes: 60, recipeRunInMilliseconds: 1_800_000 }),
+      usageEntry({ repositoryPath: 'team/repo', timeSavingsInMinutes: 30, recipeRunInMilliseconds: 1_800_000 }),
+      usageEntry({ repositoryPath: 'other/repo', timeSavingsInMinutes: 60 })
+    ], costModel);
+
+    expect(financial.moneySaved).toBe(240 + 60 + 60);
+    expect(financial.computeCost).toBe(10);
+    expect(financial.netSavings).toBe(350);
+    expect(financial.paybackRatio).toBe(36);
+    // Point mort exprimé au taux moyen pondéré : 360 / 2,5 h = 144 par heure
+    expect(financial.breakEvenMinutes).toBeCloseTo((10 / 144) * 60);
+  });
+
+  it('applique le taux de chaque exécution quand les tables par exécution sont fournies', () => {
+    const runs: RunTables[] = [
+      { runId: 'run-1', repositoryPath: 'team/special', origin: 'manifest', recipeStats: null, sourceResults: [sourceResult('a.java', { estimatedTimeSaving: 3600 })] },
+      { runId: 'run-2', repositoryPath: 'other/repo', origin: 'convention', recipeStats: null, sourceResults: [sourceResult('b.java', { estimatedTimeSaving: 1800 })] }
+    ];
+    const sourceResults = runs.flatMap(run => run.sourceResults ?? []);
+
+    const metrics = dataProcessor.calculateROIMetrics([], sourceResults, runs, costModel);
+
+    expect(metrics.financial.moneySaved).toBe(240 + 30);
+    expect(metrics.ratePerRepository).toBe(true);
+  });
+
+  it('utilise le taux par défaut sans tables par exécution', () => {
+    const sourceResults = [sourceResult('a.java', { estimatedTimeSaving: 3600 }), sourceResult('b.java', { estimatedTimeSaving: 1800 })];
+
+    const metrics = dataProcessor.calculateROIMetrics([], sourceResults, null, costModel);
+
+    expect(metrics.financial.moneySaved).toBe(90);
+    expect(metrics.ratePerRepository).toBe(false);
+  });
+});
+
+describe('DataProcessor.buildDirectoryRollup', () => {
+  const rollupOf = (paths: string[]) =>
+    dataProcessor.buildDirectoryRollup(paths.map(path => sourceResult(path, { estimatedTimeSaving: 10 })));
+  const find = (node: DirectoryRollupNode, path: string): DirectoryRollupNode | undefined =>
+    node.path === path ? node : node.children.map(child => find(child, path)).find(Boolean);
+
+  it('détecte un module par ses sources quand seuls des fichiers Java ont changé', () => {
+    const { root, moduleCount, sourceSets } = rollupOf([
+      'app/src/main/java/org/heg/Foo.java',
+      'app/src/test/java/org/heg/FooTest.java',
+      'app/src/main/java/org/heg/Bar.java'
+    ]);
+
+    expect(moduleCount).toBe(1);
+    expect(find(root, 'app')).toMatchObject({ kind: 'module', fileCount: 3, timeSaved: 30 });
+    expect(find(root, 'app/src/main')).toMatchObject({ kind: 'sourceSet', sourceSet: 'main', fileCount: 2 });
+    expect(sourceSets).toEqual([
+      { name: 'main', fileCount: 2, timeSaved: 20 },
+      { name: 'test', fileCount: 1, timeSaved: 10 }
+    ]);
+  });
+
+  it('détecte un module hors de la disposition src/<source set>/<langage>', () => {
+    const { root, moduleCount, sourceSets } = rollupOf(['legacy/src/org/heg/Foo.java', 'web/src/index.ts']);
+
+    expect(moduleCount).toBe(1);
+    expect(find(root, 'legacy')?.kind).toBe('module');
+    expect(find(root, 'web/src')).toMatchObject({ name: 'web/src', kind: 'directory' });
+    // src/org n'est pas un source set
+    expect(sourceSets).toEqual([{ name: null, fileCount: 2, timeSaved: 20 }]);
+  });
+
+  it('détecte un module par son fichier de build modifié', () => {
+    const { root, moduleCount } = rollupOf(['lib/pom.xml', 'lib/README.md']);
+
+    expect(moduleCount).toBe(1);
+    expect(find(root, 'lib')).toMatchObject({ kind: 'module', fileCount: 2 });
+  });
+
+  it('conserve les modifications d\'un chemin qui est aussi le préfixe d\'autres chemins', () => {
+    const { root } = rollupOf(['docs/guide', 'docs/guide/intro.md', 'docs/guide/intro.md']);
+
+    expect(root).toMatchObject({ fileCount: 2, changeCount: 3, timeSaved: 30 });
+    expect(find(root, 'docs/guide')?.children).toEqual([
+      expect.objectContaining({ name: 'guide', kind: 'file', changeCount: 1 }),
+      expect.objectContaining({ name: 'intro.md', kind: 'file', changeCount: 2 })
+    ]);
+  });
+
+  it('fusionne les dossiers à enfant unique', () => {
+    const { root } = rollupOf(['a/b/c/one.txt', 'a/b/c/two.txt']);
+
+    expect(root.children).toEqual([expect.objectContaining({ name: 'a/b/c', path: 'a/b/c', fileCount: 2 })]);
+  });
+});
+
+describe('DataProcessor.classifyFileChange', () => {
+  it('distingue création, suppression, déplacement et modification sur place', () => {
+    expect(dataProcessor.classifyFileChange(sourceResult('a.java', { sourcePathBefore: null }))).toBe('added');
+    expect(dataProcessor.classifyFileChange(sourceResult('a.java', { sourcePathAfter: null }))).toBe('deleted');
+    expect(dataProcessor.classifyFileChange(sourceResult('a.java', { sourcePathAfter: 'b.java' }))).toBe('moved');
+    expect(dataProcessor.classifyFileChange(sourceResult('a.java', {}))).toBe('modified');
+  });
+
+  it('classe les chemins "null" d\'un export comme absents', () => {
+    const { rows } = tableParser.parseText([
+      '"Source path before the run","Source path after the run","Recipe that made changes","Estimated time saving"',
+      '"null","a.java","org.example.Recipe","1"',
+      '"b.java","NULL","org.example.Recipe","1"',
+      '"","c.java","org.example.Recipe","1"'
+    ].join('\n') + '\n', 'sourceFileResults');
+
+    expect((rows as SourceFileResults[]).map(row => dataProcessor.classifyFileChange(row))).toEqual(['added', 'deleted', 'added']);
+  });
+});
+
+describe('DataProcessor.summarizeFileChangeKinds', () => {
+  it('cumule modifications, temps et recettes pour chaque nature, toutes natures présentes', () => {
+    const summaries = dataProcessor.summarizeFileChangeKinds([
+      sourceResult('a.java', { sourcePathBefore: null, estimatedTimeSaving: 5, recipeChanges: 'B' }),
+      sourceResult('b.java', { sourcePathBefore: null, estimatedTimeSaving: 3, recipeChanges: 'A' }),
+      sourceResult('c.java', { estimatedTimeSaving: 2, recipeChanges: 'A' }),
+      sourceResult('c.java', { estimatedTimeSaving: 1, recipeChanges: 'A' })
+    ]);
+
+    expect(summaries).toEqual([
+      { kind: 'added', changeCount: 2, timeSaved: 8, recipes: ['A', 'B'] },
+      { kind: 'deleted', changeCount: 0, timeSaved: 0, recipes: [] },
+      { kind: 'moved', changeCount: 0, timeSaved: 0, recipes: [] },
+      { kind: 'modified', changeCount: 2, timeSaved: 3, recipes: ['A'] }
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { MissingColumnsError, tableParser } from '../TableParser';
+import { TABLE_SCHEMAS } from '../TableSchemas';
+
+const RECIPE_RUN_STATS_HEADER = '"The recipe","Source file count","Source file changed count","Cumulative scanning time (ns)"';
+
+describe('TableParser.detectTextType', () => {
+  it('reconnaît un fichier réduit à sa ligne d\'en-tête, sans saut de ligne final', () => {
+    expect(tableParser.detectTextType(RECIPE_RUN_STATS_HEADER)).toBe('recipeRunStats');
+  });
+
+  it('reconnaît l\'en-tête d\'un fichier complet', () => {
+    expect(tableParser.detectTextType(`${RECIPE_RUN_STATS_HEADER}\n"org.example.Recipe","3","1","42"\n`)).toBe('recipeRunStats');
+  });
+
+  it('retourne null pour un texte vide, un en-tête inconnu ou mal formé', () => {
+    expect(tableParser.detectTextType('')).toBeNull();
+    expect(tableParser.detectTextType('a,b,c')).toBeNull();
+    expect(tableParser.detectTextType('"The recipe')).toBeNull();
+    expect(tableParser.detectTextType('"The recipe"x,"Source file count"')).toBeNull();
+  });
+});
+
+describe('TableParser.parseText', () => {
+  const csv = (...lines: string[]) => lines.join('\n') + '\n';
+
+  it('lit les en-têtes principaux et les alias sans unité dans l\'unité du schéma', () => {
+    const { kind, rows, diagnostics } = tableParser.parseText(csv(
+      '"The recipe","Source file count","Source file changed count","Cumulative scanning time","Cumulative edit time (ns)"',
+      '"org.example.Recipe","3","1","42","7"'
+    ));
+
+    expect(kind).toBe('recipeRunStats');
+    expect(rows[0]).toMatchObject({ recipe: 'org.example.Recipe', sourceFileCount: 3, cumulativeScanningTime: 42, cumulativeEditTime: 7 });
+    expect(diagnostics.schemaVersion).toBe('rewrite-8');
+    expect(diagnostics.aliasedHeaders).toEqual({ 'Cumulative scanning time': 'Cumulative scanning time (ns)' });
+    // Colonnes facultatives absentes : 0 et signalées
+    expect(rows[0]).toMatchObject({ maxScanningTime: 0, percentile99EditTime: 0 });
+    expect(diagnostics.missingHeaders).toContain('Max scanning time (ns)');
+  });
+
+  it('convertit les alias exprimés dans une autre unité', () => {
+    const stats = tableParser.parseText(csv(
+      '"The recipe","Source file count","Source file changed count","Cumulative scanning time (ms)","Cumulative edit time (ms)","Max edit time (ms)"',
+      '"org.example.Recipe","3","1","2.5","1","0.5"'
+    ), 'recipeRunStats');
+    expect(stats.rows[0]).toMatchObject({ cumulativeScanningTime: 2_500_000, cumulativeEditTime: 1_000_000, maxEditTime: 500_000 });
+
+    const results = tableParser.parseText(csv(
+      '"Source path before the run","Source path after the run","Recipe that made changes","Estimated time saving (ms)"',
+      '"a.java","a.java","org.example.Recipe","1500"'
+    ), 'sourceFileResults');
+    expect(results.rows[0]).toMatchObject({ estimatedTimeSaving: 1.5, parentRecipe: null, cycle: 0 });
+
+    const usage = tableParser.parseText(csv(
+      'runId,recipeId,recipeRunState,repositoryPath,totalFilesChanges,timeSavingsInSeconds,recipeRunCreatedAt',
+      'run-1,org.example.Recipe,FINISHED,team/repo,2,120,2026-01-01T10:00:00Z'
+    ));
+    expect(usage.kind).toBe('usageReport');
+    expect(usage.rows[0]).toMatchObject({ timeSavingsInMinutes: 2, commitState: null });
+  });
+
+  it('refuse un fichier auquel manque une colonne obligatoire', () => {
+    const text = csv(
+      '"The recipe","Source file count","Source file changed count","Cumulative scanning time (ns)"',
+      '"org.example.Recipe","3","1","42"'
+    );
+    expect(() => tableParser.parseText(text)).toThrowError(MissingColumnsError);
+    expect(() => tableParser.parseText(text)).toThrowError(expect.objectContaining({
+      kind: 'recipeRunStats',
+      version: 'rewrite-8',
+      columns: ['Cumulative edit time (ns)']
+    }));
+    expect(tableParser.validateText(text).errors).toEqual([expect.stringContaining('Cumulative edit time (ns)')]);
+  });
+});
+
+describe('TableParser : choix de la version de schéma', () => {
+  const schemas = TABLE_SCHEMAS.recipeRunStats;
+  const [rewrite8] = schemas;
+  const header = '"The recipe","Source file count","Source file changed count","Cumulative scanning time (ns)","Cumulative edit time (ns)","Max edit time (ns)"';
+  const row = '"org.example.Recipe","3","1","42","7","5"';
+  const versionOf = (text: string) => tableParser.parseText(text, 'recipeRunStats').diagnostics.schemaVersion;
+
+  afterEach(() => {
+    schemas.splice(0, schemas.length, rewrite8);
+  });
+
+  it('retient la version à laquelle il manque le moins de colonnes obligatoires', () => {
+    schemas.push({
+      ...rewrite8,
+      version: 'fields',
+      columns: rewrite8.columns.map(column => ({ ...column, header: column.field, aliases: [] }))
+    });
+    expect(versionOf(`recipe,sourceFileCount,sourceFileChangedCount,cumulativeScanningTime,cumulativeEditTime\nr,1,0,1,1\n`)).toBe('fields');
+  });
+
+  it('à égalité, retient la version qui reconnait le plus de colonnes, puis la première', () => {
+    schemas.unshift({ ...rewrite8, version: 'required-only', columns: rewrite8.columns.filter(column => column.required) });
+    expect(versionOf(`${header}\n${row}\n`)).toBe('rewrite-8');
+
+    schemas.splice(0, schemas.length, rewrite8, { ...rewrite8, version: 'copy' });
+    expect(versionOf(`${header}\n${row}\n`)).toBe('rewrite-8');
+  });
+});
+
+describe('TableParser.detectTableType', () => {
+  it('reconnaît un usage report sans ses colonnes facultatives', () => {
+    expect(tableParser.detectTableType(['runId', 'recipeId', 'recipeRunState', 'repositoryPath'])).toBe('usageReport');
+  });
+});
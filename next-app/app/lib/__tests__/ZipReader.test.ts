@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { readZipEntries, ZipFormatError } from '../ZipReader';
+
+const encoder = new TextEncoder();
+
+// Archive d'un seul fichier non compressé ; patch altère l'archive (offset du répertoire central et de sa fin)
+const storedZip = (
+  path: string,
+  content: string,
+  patch?: (view: DataView, central: number, eocd: number) => void
+): ArrayBuffer => {
+  const name = encoder.encode(path);
+  const data = encoder.encode(content);
+  const central = 30 + name.length + data.length;
+  const eocd = central + 46 + name.length;
+  const buffer = new ArrayBuffer(eocd + 22);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  view.setUint32(0, 0x04034b50, true);
+  view.setUint32(18, data.length, true);
+  view.setUint32(22, data.length, true);
+  view.setUint16(26, name.length, true);
+  bytes.set(name, 30);
+  bytes.set(data, 30 + name.length);
+
+  view.setUint32(central, 0x02014b50, true);
+  view.setUint32(central + 20, data.length, true);
+  view.setUint32(central + 24, data.length, true);
+  view.setUint16(central + 28, name.length, true);
+  bytes.set(name, central + 46);
+
+  view.setUint32(eocd, 0x06054b50, true);
+  view.setUint16(eocd + 8, 1, true);
+  view.setUint16(eocd + 10, 1, true);
+  view.setUint32(eocd + 12, eocd - central, true);
+  view.setUint32(eocd + 16, central, true);
+
+  patch?.(view, central, eocd);
+  return buffer;
+};
+
+describe('readZipEntries', () => {
+  it('refuse un fichier trop court pour être une archive', () => {
+    expect(() => readZipEntries(new ArrayBuffer(0))).toThrowError(ZipFormatError);
+    expect(() => readZipEntries(new ArrayBuffer(21))).toThrowError(ZipFormatError);
+  });
+
+  it('refuse un fichier sans fin de répertoire central', () => {
+    expect(() => readZipEntries(new ArrayBuffer(64))).toThrowError(/fin de répertoire central introuvable/);
+  });
+
+  it('lit une archive vide', () => {
+    // Fin de répertoire central seule : signature, aucun fichier
+    const buffer = new ArrayBuffer(22);
+    new DataView(buffer).setUint32(0, 0x06054b50, true);
+    expect(readZipEntries(buffer)).toEqual([]);
+  });
+
+  it('lit une entrée non compressée', async () => {
+    const entries = readZipEntries(storedZip('run/usage.csv', 'a,b\n'));
+    expect(entries.map(entry => [entry.path, entry.size])).toEqual([['run/usage.csv', 4]]);
+    expect(new TextDecoder().decode(await entries[0].read())).toBe('a,b\n');
+  });
+
+  it('refuse un répertoire central tronqué ou placé hors du fichier', () => {
+    const truncatedName = storedZip('a.csv', 'x', (view, central) => view.setUint16(central + 28, 0xfff, true));
+    expect(() => readZipEntries(truncatedName)).toThrowError(ZipFormatError);
+
+    const farDirectory = storedZip('a.csv', 'x', (view, central, eocd) => view.setUint32(eocd + 16, 1_000_000, true));
+    expect(() => readZipEntries(farDirectory)).toThrowError(ZipFormatError);
+
+    // Plus d'entrées annoncées que d'octets disponibles après la dernière
+    const tooManyEntries = storedZip('a.csv', 'x', (view, central, eocd) => view.setUint16(eocd + 10, 2, true));
+    expect(() => readZipEntries(tooManyEntries)).toThrowError(ZipFormatError);
+  });
+
+  it('refuse à la lecture un en-tête local ou un contenu hors du fichier', async () => {
+    const farHeader = readZipEntries(storedZip('a.csv', 'x', (view, central) => view.setUint32(central + 42, 1_000_000, true)));
+    await expect(farHeader[0].read()).rejects.toThrowError(ZipFormatError);
+
+    const truncatedData = readZipEntries(storedZip('a.csv', 'x', (view, central) => view.setUint32(central + 20, 1_000, true)));
+    await expect(truncatedData[0].read()).rejects.toThrowError(ZipFormatError);
+  });
+});
@@ -1,8 +1,10 @@
 'use client';
 
-import React, { useState } from 'react';
-import { useAllData } from './hooks/useData';
-import { Tabs, TabItem, UsageDashboard, OverviewTab, FilesTab, RecipesTab } from './components';
+import React, { useEffect, useRef, useState } from 'react';
+import { useAllData, useAppConfig } from './hooks/useData';
+import { DatasetDescriptor } from './types';
+import { DEFAULT_APP_CONFIG } from './lib/AppConfig';
+import { Tabs, TabItem, UsageDashboard, OverviewTab, FilesTab, RecipesTab, DataTablesTab, SnapshotDiffTab, StatsScopeSelector, FileDropZone, LoadingProgress, Toast, DiagnosticsPanel, hasDiagnosticIssues } from './components';
 
 // Icônes SVG pour les onglets
 const HomeIcon = () => (
@@ -30,29 +32,102 @@ const BeakerIcon = () => (
   </svg>
 );
 
+const TableIcon = () => (
+  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M3 14h18m-9-4v8m-7 0h14a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+  </svg>
+);
+
+const CompareIcon = () => (
+  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+  </svg>
+);
+
+// Définition des onglets
+const tabs: TabItem[] = [
+  { id: 'usage', label: 'General Usage', icon: <HomeIcon /> },
+  { id: 'overview', label: 'Performance', icon: <ChartIcon /> },
+  { id: 'files', label: 'Fichiers', icon: <FileIcon /> },
+  { id: 'recipes', label: 'Recettes', icon: <BeakerIcon /> },
+  { id: 'datatables', label: 'Data tables', icon: <TableIcon /> },
+  { id: 'snapshots', label: 'Comparaison', icon: <CompareIcon /> },
+];
+
+// Libellé d'un jeu de données : nom explicite, sinon projet et date d'exécution
+const formatDatasetLabel = (dataset: DatasetDescriptor, locale: string): string => {
+  if (dataset.name) return dataset.name;
+  if (dataset.runTimestamp === null) return dataset.project;
+  const date = new Date(dataset.runTimestamp);
+  return isNaN(date.getTime())
+    ? `${dataset.project} - ${dataset.runTimestamp}`
+    : `${dataset.project} - ${date.toLocaleString(locale)}`;
+};
+
 export default function Home() {
-  const [activeTab, setActiveTab] = useState('usage');
+  const config = useAppConfig();
+  const [activeTab, setActiveTab] = useState(config.defaultTab);
+  const [showImport, setShowImport] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const defaultTabAppliedRef = useRef(false);
   
   const {
     recipeStats,
     sourceResults,
     usageReport,
+    rawUsageReport,
+    usageMergeStats,
+    inclusionRule,
+    setInclusionRule,
+    repositoryFilter,
+    setRepositoryFilter,
+    liveMode,
+    setLiveMode,
+    liveUpdate,
+    dismissLiveUpdate,
     roiMetrics,
     enrichedStats,
+    changeAggregation,
+    changeTypes,
+    hierarchy,
     isLoading,
     error,
-    reload
+    progress,
+    diagnostics,
+    reload,
+    cancel,
+    dataSource,
+    datasets,
+    activeDatasetId,
+    declaredRuns,
+    fleetRepositories,
+    fleetRunCount,
+    statsScope,
+    setStatsScope,
+    selectDataset,
+    localSession,
+    localMode,
+    setLocalMode,
+    loadLocalFiles,
+    clearLocalSession
   } = useAllData();
 
-  // Définition des onglets
-  const tabs: TabItem[] = [
-    { id: 'usage', label: 'General Usage', icon: <HomeIcon /> },
-    { id: 'overview', label: 'Performance', icon: <ChartIcon /> },
-    { id: 'files', label: 'Fichiers', icon: <FileIcon /> },
-    { id: 'recipes', label: 'Recettes', icon: <BeakerIcon /> },
-  ];
+
+  // Onglet d'ouverture déclaré dans config.json, appliqué une seule fois
+  useEffect(() => {
+    if (defaultTabAppliedRef.current || config === DEFAULT_APP_CONFIG) return;
+    defaultTabAppliedRef.current = true;
+    if (tabs.some(tab => tab.id === config.defaultTab)) {
+      setActiveTab(config.defaultTab);
+    }
+  }, [config]);
 
   const renderContent = () => {
+    // Progression par fichier pendant le chargement
+    if (isLoading) {
+      return <LoadingProgress progress={progress} onCancel={cancel} />;
+    }
+
     switch (activeTab) {
       case 'overview':
         return (
@@ -60,6 +135,8 @@ export default function Home() {
             recipeStats={recipeStats || []}
             roiMetrics={roiMetrics}
             enrichedStats={enrichedStats || []}
+            changeAggregation={changeAggregation}
+            changeTypes={changeTypes}
             isLoading={isLoading}
           />
         );
@@ -67,6 +144,13 @@ export default function Home() {
         return (
           <UsageDashboard
             data={usageReport || []}
+            rawData={rawUsageReport || []}
+            mergeStats={usageMergeStats}
+            inclusionRule={inclusionRule}
+            onInclusionRuleChange={setInclusionRule}
+            repositoryFilter={repositoryFilter}
+            onRepositoryFilterChange={setRepositoryFilter}
+            declaredRuns={declaredRuns}
             isLoading={isLoading}
           />
         );
@@ -81,38 +165,54 @@ export default function Home() {
         return (
           <RecipesTab
             recipeStats={recipeStats || []}
+            hierarchy={hierarchy || []}
             isLoading={isLoading}
           />
         );
+      case 'datatables':
+        return (
+          <DataTablesTab
+            localTables={localSession?.dataTables || []}
+          />
+        );
+      case 'snapshots':
+        return (
+          <SnapshotDiffTab
+            datasetId={activeDatasetId}
+          />
+        );
       default:
         return null;
     }
   };
 
-  // Afficher un message d'erreur si nécessaire
-  if (error) {
-    return (
-      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
-        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 max-w-md">
-          <div className="flex items-center gap-3 text-red-600 mb-4">
-            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-            </svg>
-            <h2 className="text-xl font-semibold">Erreur de chargement</h2>
-          </div>
-          <p className="text-gray-600 dark:text-gray-400 mb-4">
-            {error.message || 'Une erreur est survenue lors du chargement des données.'}
-          </p>
-          <button
-            onClick={reload}
-            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
-          >
-            Réessayer
-          </button>
-        </div>
+  const diagnosticIssueCount = diagnostics.filter(hasDiagnosticIssues).length;
+
+  // Un échec de chargement n'empêche pas d'importer des fichiers locaux : l'import reste affiché
+  const renderError = () => error && (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8">
+      <div className="flex items-center gap-3 text-red-600 mb-4">
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+        </svg>
+        <h2 className="text-xl font-semibold">Erreur de chargement</h2>
       </div>
-    );
-  }
+      <p className="text-gray-600 dark:text-gray-400 mb-4">
+        {error.message || 'Une erreur est survenue lors du chargement des données.'}
+      </p>
+      {!localSession && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Vous pouvez aussi importer des fichiers CSV ou ZIP locaux ci-dessus.
+        </p>
+      )}
+      <button
+        onClick={reload}
+        className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+      >
+        Réessayer
+      </button>
+    </div>
+  );
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -130,22 +230,114 @@ export default function Home() {
                 OpenRewrite Analytics
               </h1>
             </div>
-            <button
-              onClick={reload}
-              disabled={isLoading}
-              className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-50"
-              title="Recharger les données"
-            >
-              <svg className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-              </svg>
-            </button>
+            <div className="flex items-center gap-2">
+              {dataSource && dataSource.id !== 'static' && (
+                <span
+                  className="px-3 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 max-w-xs truncate"
+                  title={`Source des donnees : ${dataSource.label}`}
+                >
+                  Source : {dataSource.label}
+                </span>
+              )}
+              {datasets.length > 1 && (
+                <select
+                  value={activeDatasetId ?? ''}
+                  onChange={(e) => selectDataset(e.target.value)}
+                  disabled={isLoading}
+                  className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  title="Jeu de donnees"
+                >
+                  {datasets.map((dataset) => (
+                    <option key={dataset.id} value={dataset.id}>
+                      {formatDatasetLabel(dataset, config.locale)}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {localSession && (
+                <span
+                  className="px-3 py-1 text-xs font-medium rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200"
+                  title={localSession.files.map((file) => file.name).join(', ')}
+                >
+                  Session locale ({localMode === 'replace' ? 'remplacement' : 'ajout'}) - {localSession.files.length} fichier(s)
+                </span>
+              )}
+              <button
+                onClick={() => setLiveMode(!liveMode)}
+                className={`flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md border ${
+                  liveMode
+                    ? 'border-green-500 text-green-700 dark:text-green-300'
+                    : 'border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-400'
+                }`}
+                title="Mode live : verifie regulierement le manifest et ajoute les nouveaux usage reports"
+              >
+                <span className={`w-2 h-2 rounded-full ${liveMode ? 'bg-green-500 animate-pulse' : 'bg-gray-400'}`} />
+                Live
+              </button>
+              <button
+                onClick={() => setShowDiagnostics((show) => !show)}
+                className={`relative p-2 hover:text-gray-700 dark:hover:text-gray-200 ${
+                  showDiagnostics ? 'text-blue-600 dark:text-blue-400' : 'text-gray-500 dark:text-gray-400'
+                }`}
+                title="Diagnostics de chargement"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                </svg>
+                {diagnosticIssueCount > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 text-xs leading-5 text-center rounded-full bg-amber-500 text-white">
+                    {diagnosticIssueCount}
+                  </span>
+                )}
+              </button>
+              <button
+                onClick={() => setShowImport((show) => !show)}
+                className={`p-2 hover:text-gray-700 dark:hover:text-gray-200 ${
+                  showImport ? 'text-blue-600 dark:text-blue-400' : 'text-gray-500 dark:text-gray-400'
+                }`}
+                title="Importer des fichiers CSV ou ZIP locaux"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                </svg>
+              </button>
+              <button
+                onClick={reload}
+                disabled={isLoading}
+                className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 disabled:opacity-50"
+                title="Recharger les données"
+              >
+                <svg className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+              </button>
+            </div>
           </div>
         </div>
       </header>
 
       {/* Navigation par onglets */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {/* Bilan du chargement des fichiers */}
+        {showDiagnostics && (
+          <div className="mb-6">
+            <DiagnosticsPanel diagnostics={diagnostics} onClose={() => setShowDiagnostics(false)} />
+          </div>
+        )}
+
+        {/* Import de fichiers locaux */}
+        {(showImport || localSession || error) && (
+          <div className="mb-6">
+            <FileDropZone
+              onFilesSelected={loadLocalFiles}
+              localSession={localSession}
+              localMode={localMode}
+              onModeChange={setLocalMode}
+              onClear={clearLocalSession}
+            />
+          </div>
+        )}
+
         <Tabs
           tabs={tabs}
           activeTab={activeTab}
@@ -153,11 +345,32 @@ export default function Home() {
         />
 
         {/* Contenu de l'onglet actif */}
-        <main className="mt-6">
-          {renderContent()}
+        <main className="mt-6 space-y-6">
+          {/* Périmètre des statistiques de recettes, si des exécutions ont des tables rattachées */}
+          {!isLoading && fleetRunCount > 0 && ['overview', 'files', 'recipes'].includes(activeTab) && (
+            <StatsScopeSelector
+              scope={statsScope}
+              onChange={setStatsScope}
+              repositories={fleetRepositories}
+              runCount={fleetRunCount}
+            />
+          )}
+          {renderError()}
+          {/* Données importées : affichées malgré l'échec des données embarquées */}
+          {(!error || localSession) && renderContent()}
         </main>
       </div>
 
+      {/* Nouvelles exécutions chargées par le mode live */}
+      {liveUpdate && (
+        <Toast
+          message={liveUpdate.newRunCount > 0
+            ? `${liveUpdate.newRunCount} nouvelle(s) execution(s) chargee(s)`
+            : `${liveUpdate.files.length} snapshot(s) charge(s), aucune nouvelle execution`}
+          onClose={dismissLiveUpdate}
+        />
+      )}
+
       {/* Footer */}
       <footer className="bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 mt-auto">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
@@ -21,6 +21,10 @@ export interface RecipeRunStats {
   percentile99EditTime: number;
   /** Le temps maximal pour éditer un fichier source (en nanosecondes) */
   maxEditTime: number;
+  /** Nombre d'exécutions fusionnées dans cette ligne (absent : une seule) */
+  runCount?: number;
+  /** Percentiles estimés lors d'une fusion : le maximum des percentiles de chaque exécution */
+  percentilesApproximate?: boolean;
 }
 
 /**
@@ -32,6 +36,8 @@ export interface SourceFileResults {
   sourcePathBefore: string | null;
   /** Le chemin du fichier source après l'exécution (null si supprimé pendant l'exécution) */
   sourcePathAfter: string | null;
+  /** Recette parente de celle qui a fait le changement (null si racine ou recette non hiérarchique) */
+  parentRecipe: string | null;
   /** La recette spécifique qui a fait un changement */
   recipeChanges: string;
   /** Effort estimé qu'un développeur devrait fournir pour corriger manuellement (en secondes) */
@@ -58,6 +64,28 @@ export interface ROIMetrics {
   totalFilesProcessed: number;
   /** Nombre total de fichiers modifiés */
   totalFilesChanged: number;
+  /** Valorisation financière (taux horaire du repository si ratePerRepository, sinon taux par défaut) */
+  financial: FinancialMetrics;
+  /** Taux horaire résolu par repository (tables par exécution) ; sinon taux horaire par défaut du modèle de coût */
+  ratePerRepository: boolean;
+}
+
+/**
+ * Valorisation financière du temps économisé, selon le modèle de coût de config.json
+ */
+export interface FinancialMetrics {
+  /** Devise des montants (code ISO 4217) */
+  currency: string;
+  /** Temps développeur économisé, valorisé au taux horaire */
+  moneySaved: number;
+  /** Coût de calcul : durée d'exécution des recettes x coût horaire de calcul */
+  computeCost: number;
+  /** Gain net (montant économisé - coût de calcul) */
+  netSavings: number;
+  /** Nombre de fois où le coût de calcul est remboursé (null si le coût est nul) */
+  paybackRatio: number | null;
+  /** Minutes de travail développeur qui suffisent à couvrir le coût de calcul */
+  breakEvenMinutes: number;
 }
 
 /**
@@ -76,12 +104,47 @@ export interface RecipePerformanceMetrics extends RecipeRunStats {
   recipeROI: number;
 }
 
+/**
+ * Anomalie de performance d'une recette
+ * - maxSpike : temps max très supérieur au p99 (un seul fichier pathologique)
+ * - slowPerFile : temps moyen par fichier aberrant par rapport aux autres recettes
+ * - noChanges : nombreux fichiers scannés, aucun modifié
+ */
+export type RecipeOutlierKind = 'maxSpike' | 'slowPerFile' | 'noChanges';
+
+/**
+ * Signalement d'une anomalie, avec la valeur observée et sa référence
+ */
+export interface RecipeOutlierFlag {
+  kind: RecipeOutlierKind;
+  /** Phase concernée (maxSpike), null sinon */
+  phase: 'scan' | 'edit' | null;
+  /** Valeur observée : temps max ou moyen par fichier (ns), nombre de fichiers scannés (noChanges) */
+  value: number;
+  /** Référence : p99 (ns), médiane des temps moyens par fichier (ns), seuil de fichiers scannés (noChanges) */
+  reference: number;
+}
+
+/**
+ * Recette présentant au moins une anomalie de performance
+ */
+export interface RecipeOutlier {
+  recipe: string;
+  flags: RecipeOutlierFlag[];
+  /** Temps total d'exécution (scan + edit) en millisecondes */
+  totalExecutionTimeMs: number;
+  /** P99 approximatif (statistiques fusionnées de plusieurs exécutions) */
+  percentilesApproximate: boolean;
+}
+
 /**
  * Interface pour les données agrégées par type de changement
  */
 export interface ChangeTypeAggregation {
-  /** Type de changement (basé sur le nom de la recette) */
+  /** Type de changement (catégorie de la taxonomie) */
   changeType: string;
+  /** Couleur de la catégorie */
+  color: string;
   /** Nombre de fichiers affectés */
   filesAffected: number;
   /** Temps total économisé (en secondes) */
@@ -92,6 +155,46 @@ export interface ChangeTypeAggregation {
   recipes: string[];
 }
 
+/**
+ * Manière dont une règle de la taxonomie reconnait une recette
+ * - glob : motif sur le nom complet (* : n'importe quelle suite de caractères, ? : un caractère)
+ * - regex : expression régulière recherchée dans le nom
+ * - recipe : nom exact d'une recette, y compris déclarative (s'applique aussi à ses sous-recettes)
+ */
+export type ChangeTypeMatch = 'glob' | 'regex' | 'recipe';
+
+/**
+ * Règle de classement d'une recette dans une catégorie
+ */
+export interface ChangeTypeRule {
+  match: ChangeTypeMatch;
+  pattern: string;
+  /** Nom de la catégorie attribuée */
+  category: string;
+}
+
+/**
+ * Catégorie de changement et sa couleur dans les graphiques
+ */
+export interface ChangeTypeCategory {
+  name: string;
+  /** Couleur CSS (#rrggbb) */
+  color: string;
+}
+
+/**
+ * Taxonomie des types de changement (change-types.json, modifiable dans l'interface)
+ * Les règles sont évaluées dans l'ordre : la première qui reconnait la recette l'emporte.
+ */
+export interface ChangeTypeTaxonomy {
+  categories: ChangeTypeCategory[];
+  rules: ChangeTypeRule[];
+  /** Sans règle applicable : avant-dernier segment du package (true) ou catégorie par défaut (false) */
+  packageFallback: boolean;
+  /** Catégorie des recettes non reconnues */
+  defaultCategory: string;
+}
+
 /**
  * Interface pour les données de hiérarchie des recettes
  */
@@ -104,10 +207,122 @@ export interface RecipeHierarchy {
   children: RecipeHierarchy[];
   /** Métriques de performance */
   metrics: RecipePerformanceMetrics;
+  /** Métriques cumulées de la recette et de toutes ses descendantes */
+  rollup: RecipeRollupMetrics;
   /** Niveau de profondeur dans la hiérarchie */
   depth: number;
 }
 
+/**
+ * Interface pour les métriques cumulées d'un sous-arbre de recettes
+ */
+export interface RecipeRollupMetrics {
+  /** Temps total économisé (en secondes) */
+  totalTimeSaved: number;
+  /** Temps total d'exécution (scan + edit) en millisecondes */
+  totalExecutionTimeMs: number;
+  /** Nombre de modifications de fichiers (lignes SourcesFileResults) */
+  changeCount: number;
+  /** Nombre de recettes descendantes */
+  descendantCount: number;
+}
+
+/**
+ * Nature d'un changement de fichier, d'après sourcePathBefore / sourcePathAfter
+ * - added : fichier créé (sourcePathBefore null)
+ * - deleted : fichier supprimé (sourcePathAfter null)
+ * - moved : fichier déplacé ou renommé (chemins différents)
+ * - modified : contenu modifié sur place
+ */
+export type FileChangeKind = 'added' | 'deleted' | 'moved' | 'modified';
+
+/**
+ * Totaux d'une nature de changement
+ */
+export interface FileChangeKindSummary {
+  kind: FileChangeKind;
+  /** Nombre de modifications (lignes SourcesFileResults) */
+  changeCount: number;
+  /** Temps total économisé (en secondes) */
+  timeSaved: number;
+  /** Recettes ayant fait ce type de changement */
+  recipes: string[];
+}
+
+/**
+ * Modification d'un fichier par une recette, dans la chronologie du fichier
+ */
+export interface FileChangeEvent {
+  /** Recette qui a fait le changement */
+  recipe: string;
+  parentRecipe: string | null;
+  cycle: number;
+  sourcePathBefore: string | null;
+  sourcePathAfter: string | null;
+  /** Temps économisé par ce changement (en secondes) */
+  estimatedTimeSaving: number;
+  /** Temps économisé cumulé depuis le premier changement du fichier (en secondes) */
+  cumulativeTimeSaving: number;
+}
+
+/**
+ * Chronologie des changements d'un fichier, renommages compris
+ */
+export interface FileChangeTimeline {
+  /** Chemin après le dernier changement (dernier chemin connu si le fichier est supprimé) */
+  path: string;
+  /** Autres chemins du fichier, dans l'ordre des renommages */
+  previousPaths: string[];
+  /** Changements triés par cycle */
+  events: FileChangeEvent[];
+  /** Nombre de recettes distinctes ayant modifié le fichier */
+  recipeCount: number;
+  /** Nombre de cycles distincts */
+  cycleCount: number;
+  /** Temps total économisé (en secondes) */
+  totalTimeSaved: number;
+  /** Fichier modifié par de nombreuses recettes ou sur plusieurs cycles */
+  isHotspot: boolean;
+}
+
+/**
+ * Nature d'un nœud de l'arborescence des fichiers modifiés
+ * - module : dossier d'un module Maven / Gradle (pom.xml, build.gradle, src/<source set> ou sources JVM sous src/)
+ * - sourceSet : dossier src/<nom> d'un module (main, test...)
+ */
+export type DirectoryNodeKind = 'root' | 'module' | 'sourceSet' | 'directory' | 'file';
+
+/**
+ * Nœud de l'arborescence des fichiers modifiés, avec les métriques cumulées de son sous-arbre
+ */
+export interface DirectoryRollupNode {
+  /** Nom affiché (les dossiers à enfant unique sont fusionnés : a/b/c) */
+  name: string;
+  /** Chemin complet depuis la racine du repository */
+  path: string;
+  kind: DirectoryNodeKind;
+  /** Source set englobant (main, test...), null hors de src/<nom> */
+  sourceSet: string | null;
+  /** Nombre de fichiers modifiés distincts */
+  fileCount: number;
+  /** Nombre de modifications (lignes SourcesFileResults) */
+  changeCount: number;
+  /** Temps total économisé (en secondes) */
+  timeSaved: number;
+  children: DirectoryRollupNode[];
+}
+
+/**
+ * Regroupement des fichiers modifiés par dossier et module
+ */
+export interface DirectoryRollup {
+  root: DirectoryRollupNode;
+  /** Nombre de modules Maven / Gradle détectés */
+  moduleCount: number;
+  /** Totaux par source set (null : fichiers hors source set) */
+  sourceSets: Array<{ name: string | null; fileCount: number; timeSaved: number }>;
+}
+
 /**
  * Interface pour les données de flux de fichiers (Sankey)
  */
@@ -194,4 +409,417 @@ export interface UsageReportEntry {
   commitState: string | null;
   commitUserEmail: string | null;
   commitModifiedAt: string | null;
+  /** Fichiers usage-report dans lesquels l'exécution apparaît (renseigné lors de la fusion des snapshots) */
+  snapshots?: string[];
+}
+
+/**
+ * Type union des tables de données reconnues par l'application
+ */
+export type DataTableKind = 'recipeRunStats' | 'sourceFileResults' | 'usageReport';
+
+/**
+ * Interface pour un fichier importé localement (glisser-déposer ou sélecteur)
+ */
+export interface LocalFileInfo {
+  /** Nom du fichier importé */
+  name: string;
+  /** Type de table détecté depuis la ligne d'en-tête (null si non reconnu : table générique) */
+  kind: DataTableKind | null;
+  /** Nombre de lignes conservées après parsing */
+  rowCount: number;
+  /** Bilan du chargement du fichier */
+  diagnostics: FileDiagnostics;
+}
+
+/**
+ * Interface pour les données chargées depuis des fichiers locaux
+ */
+export interface LocalDataset {
+  recipeStats: RecipeRunStats[];
+  sourceResults: SourceFileResults[];
+  usageReport: UsageReportEntry[];
+  /** Tables de données non reconnues, consultables dans la vue générique */
+  dataTables: GenericDataTable[];
+  /** Fichiers importés et type détecté pour chacun */
+  files: LocalFileInfo[];
+}
+
+/**
+ * Mode d'utilisation des données locales : ajoutées aux données embarquées ou en remplacement
+ */
+export type LocalDataMode = 'merge' | 'replace';
+
+/**
+ * Correspondance entre chaque type de table et le type de ses lignes
+ */
+export interface DataTableRowTypes {
+  recipeRunStats: RecipeRunStats;
+  sourceFileResults: SourceFileResults;
+  usageReport: UsageReportEntry;
+}
+
+/**
+ * Résultat du parsing d'un fichier CSV (kind null si le format n'est pas reconnu)
+ */
+export type ParsedTable =
+  | { [K in DataTableKind]: { kind: K; rows: DataTableRowTypes[K][]; diagnostics: TableDiagnostics } }[DataTableKind]
+  | { kind: null; rows: []; diagnostics: TableDiagnostics };
+
+/**
+ * Bilan de la conversion d'un fichier CSV : lignes conservées, écartées et anomalies de format
+ */
+export interface TableDiagnostics {
+  /** Lignes de données lues (hors en-tête et ligne de description) */
+  rowsRead: number;
+  /** Lignes conservées après conversion et filtrage */
+  rowsKept: number;
+  /** Lignes écartées, par motif */
+  dropped: Record<string, number>;
+  /** Colonnes attendues absentes du fichier */
+  missingHeaders: string[];
+  /** Colonnes du fichier non utilisées par l'application */
+  unknownHeaders: string[];
+  /** Valeurs non numériques remplacées par 0, par colonne */
+  invalidNumbers: Record<string, number>;
+  /** Version du schéma retenue pour lire le fichier (null si non reconnu) */
+  schemaVersion: string | null;
+  /** En-têtes lus sous un autre nom que le nom principal du schéma (alias -> nom principal) */
+  aliasedHeaders: Record<string, string>;
+}
+
+/**
+ * Unité d'une colonne de durée ; les valeurs sont converties dans l'unité de la colonne du schéma
+ */
+export type ColumnUnit = 'ns' | 'ms' | 's' | 'min' | 'h';
+
+/**
+ * Nom d'en-tête accepté pour une colonne, avec l'unité de ses valeurs si elle diffère
+ */
+export type ColumnHeaderAlias = string | { header: string; unit: ColumnUnit };
+
+/**
+ * Colonne d'un schéma de table : champ de l'objet typé et en-têtes CSV correspondants
+ */
+export interface SchemaColumn<K extends DataTableKind = DataTableKind> {
+  /** Champ alimenté dans l'objet typé */
+  field: keyof DataTableRowTypes[K] & string;
+  /** En-tête principal */
+  header: string;
+  /** Autres noms acceptés (renommages successifs) */
+  aliases?: ColumnHeaderAlias[];
+  /** Conversion de la valeur : texte, texte ou null, nombre */
+  type: 'string' | 'nullableString' | 'number';
+  /** Unité des valeurs de l'en-tête principal et du champ typé */
+  unit?: ColumnUnit;
+  /** Une colonne obligatoire absente de l'en-tête fait échouer le chargement */
+  required: boolean;
+}
+
+/**
+ * Version du format d'une table OpenRewrite / Moderne
+ */
+export interface TableSchema<K extends DataTableKind = DataTableKind> {
+  kind: K;
+  /** Identifiant de version affiché dans les diagnostics */
+  version: string;
+  description: string;
+  columns: SchemaColumn<K>[];
+}
+
+/**
+ * Diagnostic du chargement d'un fichier
+ */
+export interface FileDiagnostics extends TableDiagnostics {
+  /** Chemin ou nom du fichier */
+  file: string;
+  /** Type de table attendu ou détecté (null si non reconnu) */
+  kind: DataTableKind | null;
+  /** Message d'erreur si le fichier n'a pas pu être chargé */
+  error: string | null;
+  /** Usage reports : exécutions conservées au parsing mais écartées par la règle d'inclusion active */
+  excludedByRule?: number;
+}
+
+/**
+ * Étape du chargement d'un fichier
+ */
+export type LoadPhase = 'download' | 'parse' | 'done';
+
+/**
+ * Interface pour la progression du chargement d'un fichier
+ */
+export interface FileLoadProgress {
+  /** Chemin ou nom du fichier */
+  file: string;
+  /** Étape en cours */
+  phase: LoadPhase;
+  /** Quantité déjà traitée (octets téléchargés ou caractères parsés) */
+  loaded: number;
+  /** Quantité totale (0 si inconnue) */
+  total: number;
+}
+
+/**
+ * Options communes aux méthodes de chargement
+ */
+export interface LoadOptions {
+  /** Permet d'annuler le téléchargement et le parsing */
+  signal?: AbortSignal;
+  /** Appelé à chaque étape de progression d'un fichier */
+  onProgress?: (progress: FileLoadProgress) => void;
+}
+
+/**
+ * Type de colonne déduit du contenu d'une table de données générique
+ */
+export type DataTableColumnType = 'number' | 'date' | 'recipe' | 'path' | 'string';
+
+/**
+ * Interface pour une colonne d'une table de données générique
+ */
+export interface DataTableColumn {
+  /** Nom de la colonne (ligne d'en-tête) */
+  name: string;
+  /** Documentation de la colonne (ligne de description OpenRewrite, null si absente) */
+  description: string | null;
+  /** Type déduit des valeurs */
+  type: DataTableColumnType;
+}
+
+/**
+ * Interface pour une table de données OpenRewrite quelconque (org.openrewrite.*.table.*)
+ */
+export interface GenericDataTable {
+  /** Nom de la table, déduit du nom de fichier (ex : org.openrewrite.maven.table.DependenciesInUse) */
+  name: string;
+  /** Fichier d'origine */
+  file: string;
+  /** Colonnes documentées et typées */
+  columns: DataTableColumn[];
+  /** Lignes brutes indexées par nom de colonne */
+  rows: Record<string, string>[];
+}
+
+/**
+ * Chemins des tables d'un jeu de données, relatifs à /data (ou absolus s'ils commencent par /)
+ */
+export interface DatasetTables {
+  /** null si le jeu de données ne contient pas cette table */
+  recipeRunStats: string | null;
+  sourceFileResults: string | null;
+  usageReports: string[];
+  /** Tables proposées dans la vue générique */
+  dataTables: string[];
+}
+
+/**
+ * Jeu de données nommé déclaré dans le manifest v2 : un projet et une exécution de recettes
+ */
+export interface DatasetDescriptor {
+  /** Identifiant unique, utilisé pour isoler le cache */
+  id: string;
+  /** Libellé affiché (optionnel) */
+  name: string | null;
+  /** Projet ou repository analysé */
+  project: string;
+  /** Date de l'exécution (ISO 8601 ou timestamp en millisecondes) */
+  runTimestamp: string | number | null;
+  tables: DatasetTables;
+}
+
+/**
+ * Résultat d'un import de fichiers locaux
+ */
+export interface LocalImportResult {
+  /** Fichiers CSV ajoutés à la session locale (null si aucun) */
+  dataset: LocalDataset | null;
+  /** Exécutions extraites des archives ZIP, enregistrées comme jeux de données */
+  runs: DatasetDescriptor[];
+}
+
+/**
+ * Manifest normalisé ; un manifest v1 (usageReports seul) devient un unique jeu de données
+ */
+export interface DataManifest {
+  version: 1 | 2;
+  datasets: DatasetDescriptor[];
+  /** Tables rattachées à une exécution précise d'un usage report */
+  runs: RunTablesDescriptor[];
+}
+
+/**
+ * Tables déclarées dans le manifest (clé runs) pour une exécution et un repository
+ * Les chemins suivent les mêmes règles que ceux des jeux de données (relatifs à /data)
+ */
+export interface RunTablesDescriptor {
+  runId: string;
+  repositoryPath: string;
+  recipeRunStats: string | null;
+  sourceFileResults: string | null;
+}
+
+/**
+ * Périmètre des statistiques de recettes et des fichiers modifiés :
+ * tables du jeu de données, toutes les exécutions rattachées (flotte) ou celles d'un repository
+ */
+export type RecipeStatsScope =
+  | { kind: 'dataset' }
+  | { kind: 'fleet' }
+  | { kind: 'repository'; repositoryPath: string };
+
+/**
+ * Tables d'une exécution, chargées depuis le manifest ou la convention de dossiers
+ * (data/runs/<runId>/<repositoryPath>/)
+ */
+export interface RunTables {
+  runId: string;
+  repositoryPath: string;
+  /** Origine du rattachement */
+  origin: 'manifest' | 'convention';
+  /** null : aucun fichier pour cette exécution */
+  recipeStats: RecipeRunStats[] | null;
+  sourceResults: SourceFileResults[] | null;
+}
+
+/**
+ * Colonnes d'un usage report sur lesquelles porte la règle d'inclusion
+ */
+export type UsageInclusionField = 'recipeRunState' | 'commitState' | 'type';
+
+/**
+ * Condition d'inclusion d'une ligne d'usage report
+ * Les valeurs sont comparées sans tenir compte de la casse ; '' désigne une valeur vide
+ */
+export interface UsageInclusionPredicate {
+  field: UsageInclusionField;
+  operator: 'in' | 'notIn';
+  values: string[];
+}
+
+export type UsageInclusionPreset = 'committed' | 'finished' | 'all' | 'custom';
+
+/**
+ * Règle d'inclusion des lignes d'usage report : toutes les conditions doivent être vérifiées
+ */
+export interface UsageInclusionRule {
+  preset: UsageInclusionPreset;
+  predicates: UsageInclusionPredicate[];
+}
+
+/**
+ * Snapshot usage-report à fusionner : fichier d'origine, ordre chronologique et lignes lues
+ */
+export interface UsageReportSnapshot {
+  file: string;
+  order: number;
+  entries: UsageReportEntry[];
+}
+
+/**
+ * Bilan de la fusion des snapshots usage-report : une exécution présente dans plusieurs exports n'est comptée qu'une fois
+ */
+export interface UsageReportMergeStats {
+  /** Nombre de fichiers usage-report chargés */
+  snapshotCount: number;
+  /** Lignes lues, tous snapshots confondus */
+  rawCount: number;
+  /** Lignes après fusion par exécution */
+  mergedCount: number;
+}
+
+/**
+ * Colonnes comparées entre deux snapshots usage-report
+ */
+export type UsageDiffField = 'recipeRunState' | 'commitState' | 'timeSavingsInMinutes';
+
+/**
+ * Valeur d'une colonne ayant changé entre deux snapshots
+ */
+export interface UsageFieldChange {
+  field: UsageDiffField;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+/**
+ * Exécution présente dans les deux snapshots avec au moins une colonne modifiée
+ */
+export interface UsageRunDiff {
+  before: UsageReportEntry;
+  after: UsageReportEntry;
+  changes: UsageFieldChange[];
+}
+
+/**
+ * Évolution d'un repository entre deux snapshots
+ */
+export interface RepositoryDelta {
+  repositoryPath: string;
+  newRuns: number;
+  vanishedRuns: number;
+  changedRuns: number;
+  /** Variation du temps économisé (minutes) */
+  timeSavingsDelta: number;
+  /** Variation du nombre de fichiers modifiés */
+  filesChangedDelta: number;
+}
+
+/**
+ * Différences entre deux snapshots usage-report
+ */
+export interface UsageSnapshotDiff {
+  /** Exécutions présentes uniquement dans le snapshot le plus récent */
+  added: UsageReportEntry[];
+  /** Exécutions présentes uniquement dans le snapshot de référence */
+  removed: UsageReportEntry[];
+  changed: UsageRunDiff[];
+  unchangedCount: number;
+  repositories: RepositoryDelta[];
+}
+
+/**
+ * Configuration d'exécution, lue depuis public/config.json au démarrage
+ * Un même build statique peut ainsi être déployé pour plusieurs équipes
+ */
+export interface AppConfig {
+  /** URL de base des fichiers de données (null : fichiers embarqués de l'application) */
+  dataBaseUrl: string | null;
+  /** Emplacement des fichiers, relatif à l'URL de base (manifest) ou au dossier /data/ (tables) */
+  dataFiles: {
+    manifest: string;
+    recipeRunStats: string;
+    sourceFileResults: string;
+    /** Usage report chargé quand le manifest n'en déclare aucun (null : aucun) */
+    fallbackUsageReport: string | null;
+  };
+  /** Onglet affiché à l'ouverture */
+  defaultTab: string;
+  /** Locale des dates et nombres (ex : fr-FR) */
+  locale: string;
+  /** Devise des montants (code ISO 4217, ex : EUR) */
+  currency: string;
+  /** Filtres appliqués à l'ouverture */
+  defaultFilters: {
+    /** Repository sélectionné dans le tableau de bord (null : tous) */
+    repository: string | null;
+    /** Règle d'inclusion des usage reports */
+    inclusionPreset: Exclude<UsageInclusionPreset, 'custom'>;
+  };
+  /** Modèle de coût des métriques financières (montants dans la devise currency) */
+  costModel: CostModel;
+}
+
+/**
+ * Modèle de coût : valorisation du temps développeur économisé et du temps de calcul des recettes
+ */
+export interface CostModel {
+  /** Taux horaire développeur par défaut */
+  hourlyRate: number;
+  /** Coût d'une heure d'exécution des recettes */
+  computeCostPerHour: number;
+  /** Taux horaire par repository (repositoryPath exact) */
+  repositoryRates: Record<string, number>;
+  /** Taux horaire par équipe : préfixe de repositoryPath (ex : organisation/equipe) */
+  teamRates: Record<string, number>;
 }
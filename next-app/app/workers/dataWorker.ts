@@ -0,0 +1,67 @@
+import { tableParser, ParseCancelledError } from '../lib/TableParser';
+import { WorkerRequest, WorkerResponse, runAggregation } from './protocol';
+
+/**
+ * Web Worker de traitement des données
+ * Parse les fichiers CSV et exécute les agrégations du DataProcessor hors du thread UI
+ */
+
+// Requêtes dont l'annulation a été demandée
+const cancelledRequests = new Set<number>();
+
+const post = (response: WorkerResponse) => {
+  self.postMessage(response);
+};
+
+const handleRequest = async (request: WorkerRequest): Promise<void> => {
+  switch (request.type) {
+    case 'cancel':
+      cancelledRequests.add(request.requestId);
+      return;
+
+    case 'parse': {
+      const { requestId } = request;
+      const result = await tableParser.parseTextInChunks(request.text, request.kind, {
+        onProgress: (processed, total) => post({ type: 'progress', requestId, processed, total }),
+        isCancelled: () => cancelledRequests.has(requestId)
+      });
+      post({ type: 'result', requestId, result });
+      return;
+    }
+
+    case 'parseGeneric': {
+      const { requestId } = request;
+      const result = await tableParser.parseGenericTableInChunks(request.text, request.file, {
+        onProgress: (processed, total) => post({ type: 'progress', requestId, processed, total }),
+        isCancelled: () => cancelledRequests.has(requestId)
+      });
+      post({ type: 'result', requestId, result });
+      return;
+    }
+
+    case 'aggregate': {
+      const result = runAggregation(request.operation, request.recipeStats, request.sourceResults, request.options);
+      post({ type: 'result', requestId: request.requestId, result });
+      return;
+    }
+  }
+};
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  handleRequest(request)
+    .catch((error: unknown) => {
+      post({
+        type: 'error',
+        requestId: request.requestId,
+        message: error instanceof Error ? error.message : String(error),
+        cancelled: error instanceof ParseCancelledError
+      });
+    })
+    .finally(() => {
+      if (request.type !== 'cancel') {
+        cancelledRequests.delete(request.requestId);
+      }
+    });
+};
@@ -0,0 +1,78 @@
+import {
+  RecipeRunStats,
+  SourceFileResults,
+  RecipePerformanceMetrics,
+  ChangeTypeAggregation,
+  ChangeTypeTaxonomy,
+  FileChangeTimeline,
+  DirectoryRollup,
+  DataTableKind
+} from '../types';
+import { dataProcessor } from '../lib/DataProcessor';
+
+/**
+ * Agrégations pouvant être exécutées dans le worker
+ */
+export interface AggregationResults {
+  enrichRecipeStats: RecipePerformanceMetrics[];
+  aggregateByChangeType: ChangeTypeAggregation[];
+  buildFileTimelines: FileChangeTimeline[];
+  buildDirectoryRollup: DirectoryRollup;
+}
+
+export type AggregationOperation = keyof AggregationResults;
+
+/**
+ * Paramètres des agrégations (transmis au worker avec les données)
+ */
+export interface AggregationOptions {
+  /** Taxonomie des types de changement (aggregateByChangeType) */
+  changeTypes?: ChangeTypeTaxonomy;
+}
+
+/**
+ * Messages envoyés au worker
+ */
+export type WorkerRequest =
+  | { type: 'parse'; requestId: number; text: string; kind?: DataTableKind }
+  | { type: 'parseGeneric'; requestId: number; text: string; file: string }
+  | {
+      type: 'aggregate';
+      requestId: number;
+      operation: AggregationOperation;
+      recipeStats: RecipeRunStats[];
+      sourceResults: SourceFileResults[];
+      options: AggregationOptions;
+    }
+  | { type: 'cancel'; requestId: number };
+
+/**
+ * Messages renvoyés par le worker
+ */
+export type WorkerResponse =
+  | { type: 'progress'; requestId: number; processed: number; total: number }
+  | { type: 'result'; requestId: number; result: unknown }
+  | { type: 'error'; requestId: number; message: string; cancelled: boolean };
+
+/**
+ * Exécute une agrégation du DataProcessor (partagé entre le worker et le mode dégradé)
+ */
+export function runAggregation<O extends AggregationOperation>(
+  operation: O,
+  recipeStats: RecipeRunStats[],
+  sourceResults: SourceFileResults[],
+  options: AggregationOptions = {}
+): AggregationResults[O] {
+  switch (operation) {
+    case 'enrichRecipeStats':
+      return dataProcessor.enrichRecipeStats(recipeStats, sourceResults) as AggregationResults[O];
+    case 'aggregateByChangeType':
+      return dataProcessor.aggregateByChangeType(recipeStats, sourceResults, options.changeTypes) as AggregationResults[O];
+    case 'buildFileTimelines':
+      return dataProcessor.buildFileTimelines(sourceResults) as AggregationResults[O];
+    case 'buildDirectoryRollup':
+      return dataProcessor.buildDirectoryRollup(sourceResults) as AggregationResults[O];
+    default:
+      throw new Error(`Agrégation inconnue: ${operation}`);
+  }
+}
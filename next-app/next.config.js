@@ -1,10 +1,16 @@
+const basePath = '/rewrite-datatables-viewer';
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
   swcMinify: true,
   output: 'export',
-  basePath: '/rewrite-datatables-viewer',
-  assetPrefix: '/rewrite-datatables-viewer/',
+  basePath,
+  assetPrefix: `${basePath}/`,
+  // Exposé au navigateur pour charger config.json et les fichiers embarqués
+  env: {
+    NEXT_PUBLIC_BASE_PATH: basePath,
+  },
   // Configuration pour copier les fichiers CSV
   webpack: (config, { isServer }) => {
     if (!isServer) {
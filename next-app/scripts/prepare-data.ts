@@ -0,0 +1,186 @@
+/**
+ * Étape de pré-build (npm run prepare-data, lancée automatiquement avant `next build`)
+ *
+ * - Parcourt public/data et régénère manifest.json (usage-report-*.csv et tables org.openrewrite.*)
+ * - Déclare dans la clé runs les tables rangées sous runs/<runId>/<repositoryPath>/
+ * - Valide chaque CSV avec le même TableParser que l'application
+ * - Termine avec un code d'erreur et un rapport lisible si un fichier est invalide
+ *
+ * Un manifest v2 (jeux de données nommés) n'est pas réécrit : seuls les fichiers qu'il référence sont vérifiés.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { DataTableKind, RunTablesDescriptor } from '../app/types';
+import { tableParser } from '../app/lib/TableParser';
+
+// Type attendu d'après le nom de fichier ; les autres fichiers sont détectés depuis leur en-tête
+const KIND_BY_FILE_NAME: Array<{ pattern: RegExp; kind: DataTableKind }> = [
+  { pattern: /^usage-report-\d+\.csv$/, kind: 'usageReport' },
+  { pattern: /^org\.openrewrite\.table\.RecipeRunStats\.csv$/, kind: 'recipeRunStats' },
+  { pattern: /^org\.openrewrite\.table\.SourcesFileResults\.csv$/, kind: 'sourceFileResults' },
+];
+
+interface FileReport {
+  file: string;
+  kind: DataTableKind | null;
+  rowCount: number;
+  errors: string[];
+}
+
+/**
+ * Liste récursivement les fichiers CSV d'un répertoire (chemins relatifs, séparateur /)
+ */
+function listCsvFiles(directory: string, prefix = ''): string[] {
+  return fs.readdirSync(directory, { withFileTypes: true })
+    .flatMap(entry => {
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        return listCsvFiles(path.join(directory, entry.name), relativePath);
+      }
+      return entry.name.toLowerCase().endsWith('.csv') ? [relativePath] : [];
+    })
+    .sort();
+}
+
+/**
+ * Tables rangées selon la convention runs/<runId>/<repositoryPath>/<table>.csv
+ * Les exécutions déjà déclarées dans le manifest existant sont conservées telles quelles
+ */
+function findRunTables(files: string[], declared: RunTablesDescriptor[]): RunTablesDescriptor[] {
+  const runs = new Map<string, RunTablesDescriptor>();
+  declared.forEach(run => runs.set(`${run.runId}::${run.repositoryPath}`, run));
+  const declaredKeys = new Set(runs.keys());
+
+  files.forEach(file => {
+    const segments = file.split('/');
+    if (segments[0] !== 'runs' || segments.length < 4) return;
+
+    const kind = KIND_BY_FILE_NAME.find(({ pattern }) => pattern.test(segments[segments.length - 1]))?.kind;
+    if (kind !== 'recipeRunStats' && kind !== 'sourceFileResults') return;
+
+    const runId = segments[1];
+    const repositoryPath = segments.slice(2, -1).join('/');
+    const key = `${runId}::${repositoryPath}`;
+    if (declaredKeys.has(key)) return;
+
+    const run = runs.get(key) ?? { runId, repositoryPath, recipeRunStats: null, sourceFileResults: null };
+    run[kind] = file;
+    runs.set(key, run);
+  });
+
+  return Array.from(runs.values());
+}
+
+/**
+ * Timestamp extrait d'un nom usage-report-<timestamp>.csv
+ */
+function usageReportTimestamp(file: string): number {
+  const match = file.match(/usage-report-(\d+)\.csv$/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+function validateFile(dataDirectory: string, file: string): FileReport {
+  const fileName = path.basename(file);
+  const expectedKind = KIND_BY_FILE_NAME.find(({ pattern }) => pattern.test(fileName))?.kind;
+  const text = fs.readFileSync(path.join(dataDirectory, file), 'utf8');
+  const result = tableParser.validateText(text, expectedKind);
+
+  return { file, ...result };
+}
+
+/**
+ * Fichiers référencés par un manifest v2 mais absents du répertoire
+ */
+function findMissingReferences(manifest: any, files: Set<string>): string[] {
+  const missing: string[] = [];
+
+  (Array.isArray(manifest.runs) ? manifest.runs : []).forEach((run: any) => {
+    [run.recipeRunStats, run.sourceFileResults]
+      .filter((reference): reference is string => typeof reference === 'string')
+      .filter(reference => !reference.startsWith('/') && !files.has(reference))
+      .forEach(reference => missing.push(`${run.runId} (${run.repositoryPath}): ${reference}`));
+  });
+
+  manifest.datasets.forEach((dataset: any) => {
+    const tables = dataset.tables ?? {};
+    const references: string[] = [
+      tables.recipeRunStats,
+      tables.sourceFileResults,
+      ...(tables.usageReports ?? []),
+      ...(tables.dataTables ?? []),
+    ].filter((reference): reference is string => typeof reference === 'string');
+
+    references
+      .filter(reference => !reference.startsWith('/') && !files.has(reference))
+      .forEach(reference => missing.push(`${dataset.id ?? dataset.project}: ${reference}`));
+  });
+
+  return missing;
+}
+
+function main(): void {
+  const dataDirectory = path.resolve(process.argv[2] ?? path.join(process.cwd(), 'public', 'data'));
+  const manifestPath = path.join(dataDirectory, 'manifest.json');
+
+  if (!fs.existsSync(dataDirectory)) {
+    console.error(`Répertoire de données introuvable : ${dataDirectory}`);
+    process.exit(1);
+  }
+
+  const files = listCsvFiles(dataDirectory);
+  const existingManifest = fs.existsSync(manifestPath)
+    ? JSON.parse(fs.readFileSync(manifestPath, 'utf8'))
+    : null;
+
+  // Manifest
+  let missingReferences: string[] = [];
+  if (existingManifest && Array.isArray(existingManifest.datasets)) {
+    missingReferences = findMissingReferences(existingManifest, new Set(files));
+    console.log(`manifest.json v2 conservé (${existingManifest.datasets.length} jeux de données)`);
+  } else {
+    const topLevelFiles = files.filter(file => !file.includes('/'));
+    const runs = findRunTables(files, Array.isArray(existingManifest?.runs) ? existingManifest.runs : []);
+    const manifest = {
+      usageReports: topLevelFiles
+        .filter(file => /^usage-report-\d+\.csv$/.test(file))
+        .sort((a, b) => usageReportTimestamp(a) - usageReportTimestamp(b)),
+      dataTables: topLevelFiles.filter(file => file.startsWith('org.openrewrite.')),
+      // Clé omise sans exécution rattachée
+      ...(runs.length > 0 ? { runs } : {}),
+    };
+
+    const content = `${JSON.stringify(manifest, null, 2)}\n`;
+    if (!fs.existsSync(manifestPath) || fs.readFileSync(manifestPath, 'utf8') !== content) {
+      fs.writeFileSync(manifestPath, content);
+      console.log(`manifest.json mis à jour (${manifest.usageReports.length} usage reports, ${manifest.dataTables.length} tables)`);
+    } else {
+      console.log('manifest.json à jour');
+    }
+  }
+
+  // Validation des fichiers
+  const reports = files.map(file => validateFile(dataDirectory, file));
+  const invalidReports = reports.filter(report => report.errors.length > 0);
+
+  console.log(`\nValidation de ${reports.length} fichier(s) CSV dans ${dataDirectory}`);
+  reports.forEach(report => {
+    const status = report.errors.length > 0 ? '✖' : '✔';
+    console.log(`  ${status} ${report.file} (${report.kind ?? 'table générique'}, ${report.rowCount} lignes)`);
+    report.errors.forEach(error => console.log(`      - ${error}`));
+  });
+
+  if (missingReferences.length > 0) {
+    console.log('\nFichiers référencés par le manifest mais introuvables :');
+    missingReferences.forEach(reference => console.log(`  ✖ ${reference}`));
+  }
+
+  const problemCount = invalidReports.length + missingReferences.length;
+  if (problemCount > 0) {
+    console.error(`\n${problemCount} problème(s) détecté(s) : corrigez les fichiers ci-dessus avant de relancer le build.`);
+    process.exit(1);
+  }
+
+  console.log('\nToutes les données sont valides.');
+}
+
+main();